@@ -0,0 +1,597 @@
+import { parseHeaders } from "./parse";
+import type {
+  HeadersAuditFinding,
+  HeadersAuditGrade,
+  HeadersAuditOptions,
+  HeadersAuditResult,
+  HeadersAuditSeverity,
+  HeadersInput,
+  HeadersParsed,
+} from "./types";
+import { canonicalHeaderName } from "./utils";
+
+/**
+ * Points deducted from 100 per finding
+ */
+const SEVERITY_PENALTY: Record<HeadersAuditSeverity, number> = {
+  critical: 40,
+  high: 20,
+  medium: 10,
+  low: 5,
+  info: 0,
+};
+
+const SEVERITY_ORDER: HeadersAuditSeverity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "info",
+];
+
+/**
+ * Lowest score for each grade, checked in order
+ */
+const GRADES: [HeadersAuditGrade, number][] = [
+  ["A+", 100],
+  ["A", 90],
+  ["B", 75],
+  ["C", 60],
+  ["D", 45],
+  ["E", 30],
+  ["F", 0],
+];
+
+/**
+ * Half a year, below this HSTS protection lapses between visits
+ */
+const HSTS_MIN_AGE = 15552000;
+
+/**
+ * Sources that allow any host (or any content) for a directive
+ */
+const WILDCARD_SOURCES = ["*", "http:", "https:", "data:", "blob:"];
+
+type Report = (finding: HeadersAuditFinding) => void;
+
+interface AuditContext {
+  parsed: HeadersParsed;
+  header: (name: string) => string | undefined;
+  document: boolean;
+  https: boolean;
+  now: Date;
+  report: Report;
+}
+
+function isDocument(parsed: HeadersParsed): boolean {
+  const type = parsed.contentType?.mimeType;
+  return (
+    type === undefined ||
+    type === "text/html" ||
+    type === "application/xhtml+xml"
+  );
+}
+
+function auditTransport({ header, https, report }: AuditContext): void {
+  const hsts = header("Strict-Transport-Security");
+
+  if (!https) {
+    if (hsts) {
+      report({
+        id: "hsts-insecure-transport",
+        severity: "info",
+        header: "Strict-Transport-Security",
+        message: "HSTS is ignored when received over plain http.",
+        remediation: "Redirect http to https and send HSTS from https only.",
+      });
+    }
+    return;
+  }
+
+  if (!hsts) {
+    report({
+      id: "hsts-missing",
+      severity: "high",
+      header: "Strict-Transport-Security",
+      message: "Browsers may connect over plain http and be downgraded.",
+      remediation:
+        'Send "Strict-Transport-Security: max-age=31536000; ' +
+        'includeSubDomains", e.g. with .hsts().',
+    });
+    return;
+  }
+
+  const maxAge = Number(/max-age\s*=\s*"?(\d+)/i.exec(hsts)?.[1] ?? NaN);
+  if (Number.isNaN(maxAge) || maxAge < HSTS_MIN_AGE) {
+    report({
+      id: "hsts-short-max-age",
+      severity: "medium",
+      header: "Strict-Transport-Security",
+      message: Number.isNaN(maxAge)
+        ? "HSTS has no valid max-age and is ignored."
+        : `HSTS max-age of ${maxAge}s lapses between visits.`,
+      remediation: "Use a max-age of at least 31536000 (one year).",
+    });
+  }
+  if (!/includesubdomains/i.test(hsts)) {
+    report({
+      id: "hsts-no-subdomains",
+      severity: "low",
+      header: "Strict-Transport-Security",
+      message: "Subdomains can still be reached over plain http.",
+      remediation: "Add includeSubDomains once every subdomain serves https.",
+    });
+  }
+}
+
+function auditCsp({ parsed, header, document, report }: AuditContext): void {
+  const csp = parsed.csp;
+
+  if (!csp) {
+    if (document) {
+      report({
+        id: "csp-missing",
+        severity: "high",
+        header: "Content-Security-Policy",
+        message: "No Content-Security-Policy limits injected scripts.",
+        remediation:
+          "Send a policy such as \"default-src 'self'; object-src 'none'; " +
+          "base-uri 'self'\", e.g. with .csp() or CspBuilder.",
+      });
+    }
+    return;
+  }
+
+  if (csp.reportOnly) {
+    report({
+      id: "csp-report-only",
+      severity: document ? "medium" : "low",
+      header: "Content-Security-Policy-Report-Only",
+      message: "The policy only reports violations and blocks nothing.",
+      remediation:
+        "Enforce it with Content-Security-Policy once the reports are clean.",
+    });
+  }
+
+  const { directives } = csp;
+  const policyHeader = csp.reportOnly
+    ? "Content-Security-Policy-Report-Only"
+    : "Content-Security-Policy";
+  const defaults = directives["default-src"];
+  const scripts = directives["script-src"] ?? defaults;
+  const styles = directives["style-src"] ?? defaults;
+  const objects = directives["object-src"] ?? defaults;
+
+  if (scripts) {
+    // Nonces, hashes and 'strict-dynamic' make browsers ignore
+    // 'unsafe-inline', and 'strict-dynamic' also ignores host sources
+    const strictDynamic = scripts.includes("'strict-dynamic'");
+    const hashed = scripts.some((source) =>
+      /^'(nonce|sha256|sha384|sha512)-/.test(source)
+    );
+
+    if (scripts.includes("'unsafe-inline'") && !hashed && !strictDynamic) {
+      report({
+        id: "csp-unsafe-inline",
+        severity: "high",
+        header: policyHeader,
+        message: "'unsafe-inline' in script-src allows injected scripts.",
+        remediation:
+          "Replace 'unsafe-inline' with a nonce or hashes, e.g. " +
+          "CspBuilder.nonce() or .hash().",
+      });
+    }
+    if (scripts.includes("'unsafe-eval'")) {
+      report({
+        id: "csp-unsafe-eval",
+        severity: "medium",
+        header: policyHeader,
+        message: "'unsafe-eval' in script-src allows eval() and similar APIs.",
+        remediation: "Remove 'unsafe-eval' and avoid string-to-code APIs.",
+      });
+    }
+
+    const wildcards = scripts.filter((source) =>
+      WILDCARD_SOURCES.includes(source)
+    );
+    if (wildcards.length > 0 && !strictDynamic) {
+      report({
+        id: "csp-wildcard-source",
+        severity: "high",
+        header: policyHeader,
+        message: `script-src allows any source: ${wildcards.join(" ")}.`,
+        remediation: "List the exact origins scripts are loaded from.",
+      });
+    }
+  } else {
+    report({
+      id: "csp-no-script-src",
+      severity: "medium",
+      header: policyHeader,
+      message: "Neither script-src nor default-src restricts scripts.",
+      remediation: "Add default-src 'self' or an explicit script-src.",
+    });
+  }
+
+  if (styles?.includes("'unsafe-inline'")) {
+    report({
+      id: "csp-unsafe-inline-style",
+      severity: "low",
+      header: policyHeader,
+      message: "'unsafe-inline' in style-src allows injected styles.",
+      remediation: "Move inline styles to stylesheets, or use a nonce.",
+    });
+  }
+
+  if (!objects || !(objects.length === 1 && objects[0] === "'none'")) {
+    report({
+      id: "csp-object-src",
+      severity: "low",
+      header: policyHeader,
+      message: "Plugins (object, embed) are not blocked.",
+      remediation: "Add object-src 'none'.",
+    });
+  }
+
+  if (document && !directives["base-uri"]) {
+    report({
+      id: "csp-base-uri-missing",
+      severity: "low",
+      header: policyHeader,
+      message: "An injected <base> tag can redirect relative script URLs.",
+      remediation: "Add base-uri 'self' or base-uri 'none'.",
+    });
+  }
+
+  if (directives["frame-ancestors"]?.includes("*")) {
+    report({
+      id: "csp-frame-ancestors-wildcard",
+      severity: "medium",
+      header: policyHeader,
+      message: "frame-ancestors * lets any site frame the page.",
+      remediation: "Use frame-ancestors 'self' or 'none'.",
+    });
+  }
+
+  if (header("Content-Security-Policy") && directives["report-uri"]) {
+    if (!directives["report-to"]) {
+      report({
+        id: "csp-report-uri",
+        severity: "info",
+        header: policyHeader,
+        message: "report-uri is deprecated in favour of report-to.",
+        remediation:
+          "Add report-to with a Reporting-Endpoints group, e.g. " +
+          ".reporting({ csp: ... }).",
+      });
+    }
+  }
+}
+
+function auditDocument({
+  parsed,
+  header,
+  document,
+  report,
+}: AuditContext): void {
+  const frameOptions = header("X-Frame-Options");
+  const frameAncestors =
+    parsed.csp && !parsed.csp.reportOnly
+      ? parsed.csp.directives["frame-ancestors"]
+      : undefined;
+
+  if (frameOptions && /^allow-from/i.test(frameOptions.trim())) {
+    report({
+      id: "frame-options-allow-from",
+      severity: frameAncestors ? "low" : "medium",
+      header: "X-Frame-Options",
+      message: "ALLOW-FROM is not supported by current browsers.",
+      remediation: "Use CSP frame-ancestors with the allowed origins.",
+    });
+  } else if (document && !frameOptions && !frameAncestors) {
+    report({
+      id: "frame-protection-missing",
+      severity: "medium",
+      header: "X-Frame-Options",
+      message: "Any site can frame the page (clickjacking).",
+      remediation:
+        "Send X-Frame-Options: SAMEORIGIN or CSP frame-ancestors 'self'.",
+    });
+  }
+
+  const noSniff = header("X-Content-Type-Options");
+  if (noSniff?.trim().toLowerCase() !== "nosniff") {
+    report({
+      id: "nosniff-missing",
+      severity: "medium",
+      header: "X-Content-Type-Options",
+      message: noSniff
+        ? `"${noSniff}" is not a valid value and is ignored.`
+        : "Browsers may sniff responses into executable types.",
+      remediation: "Send X-Content-Type-Options: nosniff.",
+    });
+  }
+
+  const referrer = header("Referrer-Policy");
+  // With a list, the last policy the browser understands wins
+  const policy = referrer
+    ?.split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+    .pop();
+
+  if (policy === "unsafe-url" || policy === "no-referrer-when-downgrade") {
+    report({
+      id: "referrer-policy-unsafe",
+      severity: policy === "unsafe-url" ? "medium" : "low",
+      header: "Referrer-Policy",
+      message: `"${policy}" sends full URLs to other origins.`,
+      remediation: 'Use "strict-origin-when-cross-origin" or stricter.',
+    });
+  } else if (document && !referrer) {
+    report({
+      id: "referrer-policy-missing",
+      severity: "low",
+      header: "Referrer-Policy",
+      message: "The referrer policy is left to the browser default.",
+      remediation: 'Send Referrer-Policy: "strict-origin-when-cross-origin".',
+    });
+  }
+
+  if (document && !header("Permissions-Policy")) {
+    report({
+      id: "permissions-policy-missing",
+      severity: "low",
+      header: "Permissions-Policy",
+      message: "Powerful features are not restricted for this page.",
+      remediation:
+        'Disable unused features, e.g. .permissionsPolicy({ camera: "none", ' +
+        'microphone: "none", geolocation: "none" }).',
+    });
+  }
+}
+
+function auditCors({ parsed, report }: AuditContext): void {
+  const { allowOrigin, allowCredentials, allowPrivateNetwork } = parsed.cors;
+  if (allowOrigin === undefined) {
+    return;
+  }
+  const origin = allowOrigin.trim();
+
+  if (origin === "null") {
+    report({
+      id: "cors-null-origin",
+      severity: allowCredentials ? "critical" : "high",
+      header: "Access-Control-Allow-Origin",
+      message:
+        'Origin "null" is sent by sandboxed iframes and local files, ' +
+        "which any site can create.",
+      remediation: "Never allow the null origin, list trusted origins instead.",
+    });
+  } else if (origin === "*") {
+    if (allowCredentials) {
+      report({
+        id: "cors-wildcard-credentials",
+        severity: "high",
+        header: "Access-Control-Allow-Credentials",
+        message:
+          "Browsers reject credentials with a wildcard origin, and " +
+          "working around it by reflecting the origin exposes user data.",
+        remediation:
+          "Allow credentials only for an explicit list of origins, " +
+          "e.g. with CorsPolicy.",
+      });
+    }
+    if (allowPrivateNetwork) {
+      report({
+        id: "cors-wildcard-private-network",
+        severity: "high",
+        header: "Access-Control-Allow-Private-Network",
+        message: "Any public site can reach this private network service.",
+        remediation: "Allow private network access for explicit origins only.",
+      });
+    }
+    if (!allowCredentials && !allowPrivateNetwork) {
+      report({
+        id: "cors-wildcard",
+        severity: "info",
+        header: "Access-Control-Allow-Origin",
+        message: "Any origin can read this response.",
+        remediation: "Make sure the response holds no private data.",
+      });
+    }
+  } else if (
+    !parsed.vary.some((name) => name === "*" || name.toLowerCase() === "origin")
+  ) {
+    report({
+      id: "cors-vary-missing",
+      severity: "medium",
+      header: "Vary",
+      message:
+        "A specific allowed origin without Vary: Origin lets caches serve " +
+        "it to other origins.",
+      remediation: "Add Vary: Origin, e.g. with .vary(\"Origin\").",
+    });
+  }
+}
+
+function auditCaching({ parsed, header, now, report }: AuditContext): void {
+  const cacheControl = parsed.cacheControl;
+
+  if (cacheControl?.noStore) {
+    const validators = ["ETag", "Last-Modified"].filter((name) => header(name));
+    if (validators.length > 0) {
+      report({
+        id: "cache-no-store-validators",
+        severity: "low",
+        header: validators[0]!,
+        message: `${validators.join(" and ")} can't be used with no-store.`,
+        remediation:
+          "Drop the validators, or use no-cache to revalidate instead of " +
+          "never storing.",
+      });
+    }
+    if (parsed.expires && parsed.expires.getTime() > now.getTime()) {
+      report({
+        id: "cache-no-store-expires",
+        severity: "medium",
+        header: "Expires",
+        message: "A future Expires contradicts no-store for HTTP/1.0 caches.",
+        remediation: 'Remove Expires or set it to "0".',
+      });
+    }
+  }
+
+  const shared =
+    cacheControl?.public === true ||
+    cacheControl?.sMaxAge !== undefined;
+  if (header("Set-Cookie") && shared && !cacheControl?.private) {
+    report({
+      id: "cache-public-set-cookie",
+      severity: "high",
+      header: "Set-Cookie",
+      message: "Shared caches may store this cookie and serve it to others.",
+      remediation: "Use Cache-Control: private or no-store with Set-Cookie.",
+    });
+  }
+
+  if (cacheControl?.immutable && cacheControl.maxAge === undefined) {
+    report({
+      id: "cache-immutable-without-max-age",
+      severity: "low",
+      header: "Cache-Control",
+      message: "immutable has no effect without a freshness lifetime.",
+      remediation: "Add max-age=31536000 for fingerprinted assets.",
+    });
+  }
+}
+
+function auditLegacy({ header, report }: AuditContext): void {
+  const xssProtection = header("X-XSS-Protection");
+  if (xssProtection && xssProtection.trim() !== "0") {
+    report({
+      id: "x-xss-protection",
+      severity: "low",
+      header: "X-XSS-Protection",
+      message:
+        "The XSS auditor was removed from browsers and could be abused " +
+        "to leak data.",
+      remediation: 'Remove the header or send "0", and rely on a CSP.',
+    });
+  }
+
+  if (header("Public-Key-Pins")) {
+    report({
+      id: "public-key-pins",
+      severity: "medium",
+      header: "Public-Key-Pins",
+      message: "HPKP is unsupported and can lock users out after a key change.",
+      remediation: "Remove the header.",
+    });
+  }
+
+  for (const [name, replacement] of [
+    ["Expect-CT", "Certificate Transparency is enforced by default"],
+    ["Feature-Policy", "use Permissions-Policy"],
+    ["P3P", "it is ignored by every browser"],
+  ] as const) {
+    if (header(name)) {
+      report({
+        id: name.toLowerCase(),
+        severity: "low",
+        header: name,
+        message: `${name} is deprecated.`,
+        remediation: `Remove the header, ${replacement}.`,
+      });
+    }
+  }
+}
+
+function auditDisclosure({ header, report }: AuditContext): void {
+  for (const name of [
+    "X-Powered-By",
+    "X-AspNet-Version",
+    "X-AspNetMvc-Version",
+  ]) {
+    const value = header(name);
+    if (value) {
+      report({
+        id: name.toLowerCase(),
+        severity: "low",
+        header: name,
+        message: `"${value}" reveals the server stack to attackers.`,
+        remediation: `Remove ${name}.`,
+      });
+    }
+  }
+
+  const server = header("Server");
+  if (server && /\d/.test(server)) {
+    report({
+      id: "server-version",
+      severity: "low",
+      header: "Server",
+      message: `"${server}" reveals the exact server version.`,
+      remediation: "Remove the version from Server, or the header itself.",
+    });
+  }
+}
+
+/**
+ * Audit a set of response headers for security issues, offline
+ * Reports missing or weak security headers, unsafe CSP sources, CORS
+ * misconfigurations, contradictory caching, deprecated and leaking
+ * headers, with remediation text and an overall grade
+ * @example
+ * const { grade, findings } = auditHeaders(commonHeaders.secure().build());
+ * // grade: "D"
+ * // findings: [{ id: "csp-unsafe-inline", severity: "high", ... }, ...]
+ *
+ * // In a unit test
+ * expect(auditHeaders(response).grade).toBe("A+");
+ */
+export function auditHeaders(
+  input: HeadersInput,
+  options: HeadersAuditOptions = {}
+): HeadersAuditResult {
+  const parsed = parseHeaders(input);
+  const ignore = new Set(options.ignore);
+  const findings: HeadersAuditFinding[] = [];
+
+  const context: AuditContext = {
+    parsed,
+    header: (name) => parsed.raw[canonicalHeaderName(name)],
+    document: options.document ?? isDocument(parsed),
+    https: options.https ?? true,
+    now: options.now ?? new Date(),
+    report: (finding) => {
+      if (!ignore.has(finding.id)) {
+        findings.push(finding);
+      }
+    },
+  };
+
+  auditTransport(context);
+  auditCsp(context);
+  auditDocument(context);
+  auditCors(context);
+  auditCaching(context);
+  auditLegacy(context);
+  auditDisclosure(context);
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  const score = Math.max(
+    0,
+    findings.reduce(
+      (total, finding) => total - SEVERITY_PENALTY[finding.severity],
+      100
+    )
+  );
+  const grade = GRADES.find(([, min]) => score >= min)![0];
+
+  return { score, grade, findings };
+}
@@ -0,0 +1,168 @@
+import type { HeadersCacheControl } from "./types";
+
+/**
+ * Directive names in serialization order
+ */
+const DIRECTIVES: [keyof HeadersCacheControl, string][] = [
+  ["public", "public"],
+  ["private", "private"],
+  ["noCache", "no-cache"],
+  ["noStore", "no-store"],
+  ["noTransform", "no-transform"],
+  ["maxAge", "max-age"],
+  ["sMaxAge", "s-maxage"],
+  ["mustRevalidate", "must-revalidate"],
+  ["proxyRevalidate", "proxy-revalidate"],
+  ["mustUnderstand", "must-understand"],
+  ["immutable", "immutable"],
+  ["staleWhileRevalidate", "stale-while-revalidate"],
+  ["staleIfError", "stale-if-error"],
+  // Request directives
+  ["maxStale", "max-stale"],
+  ["minFresh", "min-fresh"],
+  ["onlyIfCached", "only-if-cached"],
+];
+
+/**
+ * Throw on contradictory directive combinations
+ * @example
+ * validateCacheControl({ noStore: true, maxAge: 60 })
+ * // Error: Cache-Control: "no-store" cannot be combined with "max-age"
+ */
+export function validateCacheControl(directives: HeadersCacheControl): void {
+  if (directives.public && directives.private) {
+    throw new Error(
+      'Cache-Control: "public" cannot be combined with "private".',
+    );
+  }
+
+  if (directives.noStore) {
+    const conflicting = (
+      [
+        ["maxAge", "max-age"],
+        ["sMaxAge", "s-maxage"],
+        ["immutable", "immutable"],
+        ["staleWhileRevalidate", "stale-while-revalidate"],
+        ["staleIfError", "stale-if-error"],
+      ] as const
+    ).find(
+      ([key]) => directives[key] !== undefined && directives[key] !== false
+    );
+
+    if (conflicting) {
+      throw new Error(
+        `Cache-Control: "no-store" cannot be combined with "${conflicting[1]}".`,
+      );
+    }
+  }
+
+  for (const [key, name] of DIRECTIVES) {
+    const value = directives[key];
+    if (typeof value === "number" && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(
+        `Cache-Control: "${name}" must be a non-negative integer, got ${value}.`,
+      );
+    }
+  }
+}
+
+/**
+ * Serialize directives into a Cache-Control (or CDN-Cache-Control /
+ * Surrogate-Control) value
+ * @example
+ * serializeCacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 30 })
+ * // "public, max-age=60, stale-while-revalidate=30"
+ */
+export function serializeCacheControl(directives: HeadersCacheControl): string {
+  validateCacheControl(directives);
+
+  const parts: string[] = [];
+  for (const [key, name] of DIRECTIVES) {
+    const value = directives[key];
+    if (value === undefined || value === false) {
+      continue;
+    }
+    if (value === true) {
+      parts.push(name);
+    } else if (typeof value === "number") {
+      parts.push(`${name}=${value}`);
+    } else if (value.length > 0) {
+      // Qualified form, e.g. private="Set-Cookie"
+      parts.push(`${name}="${value.join(", ")}"`);
+    } else {
+      parts.push(name);
+    }
+  }
+
+  return parts.join(", ");
+}
+
+/**
+ * Extend a set of directives, public and private replace each other
+ * @example
+ * mergeCacheControl({ public: true, maxAge: 86400 }, { private: true })
+ * // { private: true, maxAge: 86400 }
+ */
+export function mergeCacheControl(
+  base: HeadersCacheControl,
+  extension: HeadersCacheControl
+): HeadersCacheControl {
+  const merged = { ...base, ...extension };
+
+  if (extension.private && extension.public === undefined) {
+    delete merged.public;
+  }
+  if (extension.public && extension.private === undefined) {
+    delete merged.private;
+  }
+
+  return merged;
+}
+
+/**
+ * Parse a Cache-Control (or CDN-Cache-Control / Surrogate-Control) value
+ * into structured directives, unknown directives are ignored
+ * @example
+ * parseCacheControl('private="Set-Cookie", max-age=60')
+ * // { private: ["Set-Cookie"], maxAge: 60 }
+ */
+export function parseCacheControl(value: string): HeadersCacheControl {
+  const directives: HeadersCacheControl = {};
+  const byName = new Map(DIRECTIVES.map(([key, name]) => [name, key]));
+
+  // Split on commas outside quoted field-name lists
+  const parts = value.match(/[^,"]+(?:"[^"]*"[^,"]*)*/g) ?? [];
+
+  for (const part of parts) {
+    const [rawName, ...rest] = part.split("=");
+    const key = byName.get(rawName.trim().toLowerCase());
+    if (!key) {
+      continue;
+    }
+
+    const rawValue = rest.join("=").trim();
+    const target = directives as Record<string, unknown>;
+
+    if (key === "private" || key === "noCache") {
+      target[key] = rawValue
+        ? rawValue
+            .replace(/^"|"$/g, "")
+            .split(",")
+            .map((field) => field.trim())
+            .filter(Boolean)
+        : true;
+    } else if (rawValue) {
+      const seconds = Number(rawValue.replace(/^"|"$/g, ""));
+      if (Number.isInteger(seconds) && seconds >= 0) {
+        target[key] = seconds;
+      }
+    } else if (key === "maxStale") {
+      // max-stale without a value accepts any staleness
+      target[key] = Number.MAX_SAFE_INTEGER;
+    } else {
+      target[key] = true;
+    }
+  }
+
+  return directives;
+}
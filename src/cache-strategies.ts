@@ -1,93 +1,220 @@
-import type { HeadersCacheStrategy } from "./types";
+import { mergeCacheControl, serializeCacheControl } from "./cache-control";
+import { lookupMimeType } from "./mime-types";
+import type {
+  HeadersCacheControl,
+  HeadersCacheStrategy,
+  HeadersExpiresMode,
+} from "./types";
 
+/**
+ * Expires is resolved at build() time from the mode, never at module
+ * load, so long-running servers don't send stale dates
+ */
 export const CACHE_CONFIGS: Record<
   HeadersCacheStrategy,
-  { cacheControl: string; expires?: string }
+  { cacheControl: HeadersCacheControl; expires?: HeadersExpiresMode }
 > = {
   // Generic time-based strategies
   NO_CACHE: {
-    cacheControl: "no-cache, no-store, must-revalidate",
-    expires: new Date(0).toUTCString(),
+    cacheControl: { noCache: true, noStore: true, mustRevalidate: true },
+    expires: "past",
   },
   ONE_YEAR: {
-    cacheControl: "public, max-age=31536000",
-    expires: new Date(Date.now() + 31536000 * 1000).toUTCString(),
+    cacheControl: { public: true, maxAge: 31536000 },
+    expires: "max-age",
   },
   IMMUTABLE: {
-    cacheControl: "public, max-age=31536000, immutable",
-    expires: new Date(Date.now() + 31536000 * 1000).toUTCString(),
+    cacheControl: { public: true, maxAge: 31536000, immutable: true },
+    expires: "max-age",
   },
   ONE_MONTH: {
-    cacheControl: "public, max-age=2592000",
+    cacheControl: { public: true, maxAge: 2592000 },
   },
   ONE_WEEK: {
-    cacheControl: "public, max-age=604800",
+    cacheControl: { public: true, maxAge: 604800 },
   },
   ONE_DAY: {
-    cacheControl: "public, max-age=86400, must-revalidate",
+    cacheControl: { public: true, maxAge: 86400, mustRevalidate: true },
   },
   ONE_HOUR: {
-    cacheControl: "public, max-age=3600, must-revalidate",
+    cacheControl: { public: true, maxAge: 3600, mustRevalidate: true },
   },
   FIVE_MINUTES: {
-    cacheControl: "public, max-age=300",
+    cacheControl: { public: true, maxAge: 300 },
   },
   API: {
-    cacheControl: "public, max-age=300, s-maxage=3600",
+    cacheControl: { public: true, maxAge: 300, sMaxAge: 3600 },
   },
 
   // Content-specific strategies
   STYLESHEET: {
-    cacheControl: "public, max-age=2592000, must-revalidate",
+    cacheControl: { public: true, maxAge: 2592000, mustRevalidate: true },
   },
   JAVASCRIPT: {
-    cacheControl: "public, max-age=2592000, must-revalidate",
+    cacheControl: { public: true, maxAge: 2592000, mustRevalidate: true },
   },
   HASHED_ASSET: {
-    cacheControl: "public, max-age=31536000, immutable",
-    expires: new Date(Date.now() + 31536000 * 1000).toUTCString(),
+    cacheControl: { public: true, maxAge: 31536000, immutable: true },
+    expires: "max-age",
   },
   FONT: {
-    cacheControl: "public, max-age=31536000",
-    expires: new Date(Date.now() + 31536000 * 1000).toUTCString(),
+    cacheControl: { public: true, maxAge: 31536000 },
+    expires: "max-age",
   },
   IMAGE: {
-    cacheControl: "public, max-age=2592000",
+    cacheControl: { public: true, maxAge: 2592000 },
   },
   FAVICON: {
-    cacheControl: "public, max-age=31536000",
-    expires: new Date(Date.now() + 31536000 * 1000).toUTCString(),
+    cacheControl: { public: true, maxAge: 31536000 },
+    expires: "max-age",
   },
   HTML_PAGE: {
-    cacheControl: "public, max-age=3600, must-revalidate",
+    cacheControl: { public: true, maxAge: 3600, mustRevalidate: true },
   },
   API_RESPONSE: {
-    cacheControl: "public, max-age=300, s-maxage=900",
+    cacheControl: { public: true, maxAge: 300, sMaxAge: 900 },
   },
   FEED: {
-    cacheControl: "public, max-age=3600",
+    cacheControl: { public: true, maxAge: 3600 },
   },
   SITEMAP: {
-    cacheControl: "public, max-age=86400",
+    cacheControl: { public: true, maxAge: 86400 },
   },
   MANIFEST: {
-    cacheControl: "public, max-age=86400, must-revalidate",
+    cacheControl: { public: true, maxAge: 86400, mustRevalidate: true },
   },
   SERVICE_WORKER: {
-    cacheControl: "no-cache, no-store, must-revalidate",
-    expires: new Date(0).toUTCString(),
+    cacheControl: { noCache: true, noStore: true, mustRevalidate: true },
+    expires: "past",
   },
   MEDIA_STREAM: {
-    cacheControl: "no-cache, no-store",
+    cacheControl: { noCache: true, noStore: true },
   },
   DOCUMENT: {
-    cacheControl: "public, max-age=86400",
+    cacheControl: { public: true, maxAge: 86400 },
   },
   ARCHIVE: {
-    cacheControl: "public, max-age=604800",
+    cacheControl: { public: true, maxAge: 604800 },
   },
 };
 
-export function getCacheConfig(strategy: HeadersCacheStrategy) {
-  return CACHE_CONFIGS[strategy];
+/**
+ * Resolve a strategy, optionally extended with extra directives,
+ * into its serialized Cache-Control value
+ */
+export function getCacheConfig(
+  strategy: HeadersCacheStrategy,
+  extension?: HeadersCacheControl
+): {
+  cacheControl: string;
+  directives: HeadersCacheControl;
+  expires?: HeadersExpiresMode;
+} {
+  const { cacheControl, expires } = CACHE_CONFIGS[strategy];
+  const directives = extension
+    ? mergeCacheControl(cacheControl, extension)
+    : cacheControl;
+
+  return {
+    cacheControl: serializeCacheControl(directives),
+    directives,
+    expires,
+  };
+}
+
+const ARCHIVE_TYPES = [
+  "application/zip",
+  "application/gzip",
+  "application/x-tar",
+  "application/x-bzip2",
+  "application/x-xz",
+  "application/zstd",
+  "application/x-7z-compressed",
+  "application/vnd.rar",
+  "application/java-archive",
+  "application/octet-stream",
+];
+
+/**
+ * Filenames with a content hash segment right before the extension:
+ * 6+ hex chars like app.3f9a1c.js (webpack, esbuild) mixing digits and
+ * letters so words like "facade" don't count, or the 8-char
+ * base64url hash of Vite and Rollup like index-BZx1a2Q3.css, which
+ * must mix cases and digits and not read as a word plus a number
+ * (Photos12)
+ */
+const HASHED_FILENAME = new RegExp(
+  "[.-](?:" +
+    "(?=[0-9a-f]*\\d)(?=[0-9a-f]*[a-f])[0-9a-f]{6,}" +
+    "|(?![A-Za-z][a-z]*\\d+\\.)(?=[\\w-]{0,7}\\d)(?=[\\w-]{0,7}[a-z])" +
+    "(?=[\\w-]{0,7}[A-Z])[\\w-]{8}" +
+    ")\\.[A-Za-z0-9]+$"
+);
+
+/**
+ * Pick a cache strategy for a static file path, matching the
+ * commonHeaders presets for each kind of file
+ * @example
+ * cacheStrategyFor("assets/app.3f9a1c.js") // "HASHED_ASSET"
+ * cacheStrategyFor("fonts/inter.woff2") // "FONT"
+ * cacheStrategyFor("index.html") // "HTML_PAGE"
+ */
+export function cacheStrategyFor(path: string): HeadersCacheStrategy {
+  const basename = path.split(/[\\/]/).pop() ?? "";
+  const name = basename.toLowerCase();
+  const mimeType = lookupMimeType(name)?.split(";")[0] ?? "";
+  const [type] = mimeType.split("/");
+
+  if (name === "sw.js" || name === "service-worker.js") {
+    return "SERVICE_WORKER";
+  }
+  // Pages keep their URL across deploys, so they are never immutable
+  const isPage =
+    mimeType === "text/html" || mimeType === "application/xhtml+xml";
+  if (!isPage && HASHED_FILENAME.test(basename)) {
+    return "HASHED_ASSET";
+  }
+  if (name.startsWith("favicon.") || mimeType === "image/x-icon") {
+    return "FAVICON";
+  }
+  if (name === "manifest.json" || mimeType === "application/manifest+json") {
+    return "MANIFEST";
+  }
+  if (name.startsWith("sitemap") && mimeType.endsWith("xml")) {
+    return "SITEMAP";
+  }
+
+  switch (mimeType) {
+    case "text/html":
+    case "application/xhtml+xml":
+      return "HTML_PAGE";
+    case "text/css":
+      return "STYLESHEET";
+    case "text/javascript":
+    case "application/javascript":
+      return "JAVASCRIPT";
+    case "application/rss+xml":
+    case "application/atom+xml":
+      return "FEED";
+    case "application/vnd.ms-fontobject":
+      return "FONT";
+  }
+
+  if (type === "font") return "FONT";
+  if (type === "image") return "IMAGE";
+  if (type === "video" || type === "audio") return "MEDIA_STREAM";
+
+  if (
+    mimeType === "application/pdf" ||
+    mimeType === "application/msword" ||
+    mimeType.includes("officedocument") ||
+    mimeType.includes("opendocument")
+  ) {
+    return "DOCUMENT";
+  }
+  if (ARCHIVE_TYPES.includes(mimeType)) {
+    return "ARCHIVE";
+  }
+
+  return "ONE_HOUR";
 }
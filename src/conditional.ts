@@ -0,0 +1,250 @@
+import type {
+  HeadersConditionalResult,
+  HeadersConditionalValidators,
+  HeadersETag,
+  HeadersFields,
+} from "./types";
+
+/**
+ * Headers a 304 response keeps from the full response (RFC 9110 §15.4.5),
+ * plus CORS headers so cross-origin revalidations are not rejected
+ */
+const NOT_MODIFIED_HEADERS = [
+  "cache-control",
+  "content-location",
+  "date",
+  "etag",
+  "expires",
+  "last-modified",
+  "vary",
+];
+
+/**
+ * Representation headers dropped from a 412 response, since no
+ * representation is sent
+ */
+const REPRESENTATION_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-encoding",
+  "content-language",
+  "content-range",
+  "content-disposition",
+  "etag",
+  "last-modified",
+];
+
+/**
+ * Split an entity-tag list (If-Match / If-None-Match) into its tags,
+ * ignoring commas inside quoted tags
+ * @example
+ * parseETagList('W/"a", "b,c"') // ['W/"a"', '"b,c"']
+ */
+export function parseETagList(value: string): string[] {
+  const tags: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (const char of value) {
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === "," && !quoted) {
+      if (current.trim()) tags.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) tags.push(current.trim());
+  return tags;
+}
+
+/**
+ * Parse a single entity tag into its opaque value and weakness
+ * Returns undefined for malformed tags
+ * @example
+ * parseETag('W/"abc"') // { tag: 'W/"abc"', value: "abc", weak: true }
+ */
+export function parseETag(tag: string): HeadersETag | undefined {
+  const match = /^\s*(W\/)?"([^"]*)"\s*$/.exec(tag);
+  if (!match) {
+    return undefined;
+  }
+  return { tag: tag.trim(), value: match[2], weak: !!match[1] };
+}
+
+/**
+ * Compare two entity tags
+ * Weak comparison ignores the W/ prefix, strong comparison requires
+ * both tags to be strong and identical
+ */
+export function compareETags(
+  a: string,
+  b: string,
+  weak: boolean = true
+): boolean {
+  const aWeak = a.startsWith("W/");
+  const bWeak = b.startsWith("W/");
+
+  if (!weak && (aWeak || bWeak)) {
+    return false;
+  }
+
+  return (aWeak ? a.slice(2) : a) === (bWeak ? b.slice(2) : b);
+}
+
+function matchesList(
+  header: string,
+  etag: string | undefined,
+  exists: boolean,
+  weak: boolean
+): boolean {
+  const tags = parseETagList(header);
+  if (tags.includes("*")) {
+    // "*" matches any current representation, and nothing without one
+    return exists;
+  }
+  if (!etag) {
+    return false;
+  }
+  return tags.some((tag) => compareETags(tag, etag, weak));
+}
+
+/**
+ * HTTP dates only carry second precision, so compare in whole seconds
+ */
+function toSeconds(date: Date | string | undefined): number | undefined {
+  if (date === undefined) {
+    return undefined;
+  }
+  const time = typeof date === "string" ? Date.parse(date) : date.getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+/**
+ * Copy the header fields whose lowercased name passes `keep`, in the
+ * same shape so Set-Cookie lines in a Headers object stay separate
+ * @internal
+ */
+export function filterHeaders<H extends HeadersFields>(
+  headers: H,
+  keep: (name: string) => boolean
+): H {
+  if (headers instanceof Headers) {
+    const result = new Headers();
+    for (const [name, value] of headers) {
+      if (keep(name.toLowerCase())) {
+        result.append(name, value);
+      }
+    }
+    return result as H;
+  }
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (keep(name.toLowerCase())) {
+      result[name] = value;
+    }
+  }
+  return result as H;
+}
+
+/**
+ * Evaluate conditional request headers against the current validators,
+ * following the RFC 9110 §13.2.2 precedence:
+ * If-Match, If-Unmodified-Since, If-None-Match, If-Modified-Since
+ * @example
+ * const result = evaluatePreconditions(req, { etag: '"abc"' }, headers);
+ * if (result.response) return result.response;
+ */
+export function evaluatePreconditions(
+  req: Request,
+  validators: HeadersConditionalValidators,
+  headers: Headers
+): HeadersConditionalResult<Headers>;
+export function evaluatePreconditions(
+  req: Request,
+  validators: HeadersConditionalValidators,
+  headers?: Record<string, string>
+): HeadersConditionalResult;
+export function evaluatePreconditions(
+  req: Request,
+  validators: HeadersConditionalValidators,
+  headers: HeadersFields = {}
+): HeadersConditionalResult<HeadersFields> {
+  const method = req.method.toUpperCase();
+  const isSafe = method === "GET" || method === "HEAD";
+  const lastModified = toSeconds(validators.lastModified);
+  const exists =
+    validators.exists ??
+    (validators.etag !== undefined || validators.lastModified !== undefined);
+
+  const ifMatch = req.headers.get("If-Match");
+  const ifUnmodifiedSince = req.headers.get("If-Unmodified-Since");
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  const ifModifiedSince = req.headers.get("If-Modified-Since");
+
+  const preconditionFailed = (): HeadersConditionalResult<HeadersFields> => {
+    const kept = filterHeaders(
+      headers,
+      (name) => !REPRESENTATION_HEADERS.includes(name)
+    );
+    return {
+      verdict: "precondition-failed",
+      status: 412,
+      headers: kept,
+      response: new Response(null, { status: 412, headers: kept }),
+    };
+  };
+
+  const notModified = (): HeadersConditionalResult<HeadersFields> => {
+    const kept = filterHeaders(
+      headers,
+      (name) =>
+        NOT_MODIFIED_HEADERS.includes(name) ||
+        name.startsWith("access-control-")
+    );
+    return {
+      verdict: "not-modified",
+      status: 304,
+      headers: kept,
+      response: new Response(null, { status: 304, headers: kept }),
+    };
+  };
+
+  // Step 1: If-Match (strong comparison)
+  if (ifMatch !== null) {
+    if (!matchesList(ifMatch, validators.etag, exists, false)) {
+      return preconditionFailed();
+    }
+  }
+  // Step 2: If-Unmodified-Since, only when If-Match is absent
+  else if (ifUnmodifiedSince !== null) {
+    const since = toSeconds(ifUnmodifiedSince);
+    if (since !== undefined && lastModified !== undefined) {
+      if (lastModified > since) {
+        return preconditionFailed();
+      }
+    }
+  }
+
+  // Step 3: If-None-Match (weak comparison)
+  if (ifNoneMatch !== null) {
+    if (matchesList(ifNoneMatch, validators.etag, exists, true)) {
+      return isSafe ? notModified() : preconditionFailed();
+    }
+  }
+  // Step 4: If-Modified-Since, only for GET/HEAD without If-None-Match
+  else if (isSafe && ifModifiedSince !== null) {
+    const since = toSeconds(ifModifiedSince);
+    if (since !== undefined && lastModified !== undefined) {
+      if (lastModified <= since) {
+        return notModified();
+      }
+    }
+  }
+
+  return { verdict: "proceed", status: 200, headers };
+}
@@ -0,0 +1,170 @@
+import type { HeadersCookieOptions } from "./types";
+
+/**
+ * RFC 6265 cookie-name (token) characters
+ */
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * RFC 6265 cookie-octets (after encoding)
+ */
+const COOKIE_VALUE = /^[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*$/;
+
+/**
+ * Attribute values can't break out of their attribute
+ */
+const ATTRIBUTE_VALUE = /^[^\x00-\x1F\x7F;]*$/;
+
+/**
+ * Serialize a Set-Cookie value with secure defaults
+ * (Path=/, Secure, HttpOnly, SameSite=Lax) and cookie prefix validation
+ * @example
+ * serializeCookie("session", "abc", { maxAge: 3600 })
+ * // "session=abc; Max-Age=3600; Path=/; Secure; HttpOnly; SameSite=Lax"
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: HeadersCookieOptions = {}
+): string {
+  const {
+    maxAge,
+    expires,
+    domain,
+    path = "/",
+    httpOnly = true,
+    sameSite = "Lax",
+    partitioned = false,
+    priority,
+    encode = encodeURIComponent,
+  } = options;
+  let secure = options.secure ?? true;
+
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Cookie: Invalid cookie name "${name}".`);
+  }
+
+  const encoded = encode(value);
+  if (!COOKIE_VALUE.test(encoded)) {
+    throw new Error(`Cookie: Invalid value for cookie "${name}".`);
+  }
+
+  // Browsers reject SameSite=None and Partitioned without Secure
+  if (sameSite === "None" || partitioned) {
+    secure = true;
+  }
+
+  if (name.startsWith("__Secure-") && !secure) {
+    throw new Error(
+      `Cookie: "${name}" uses the __Secure- prefix and must be Secure.`,
+    );
+  }
+
+  if (name.startsWith("__Host-")) {
+    if (!secure || path !== "/" || domain !== undefined) {
+      throw new Error(
+        `Cookie: "${name}" uses the __Host- prefix and must be Secure, ` +
+          "have Path=/ and no Domain.",
+      );
+    }
+  }
+
+  for (const [attribute, attributeValue] of [
+    ["Domain", domain],
+    ["Path", path],
+  ] as const) {
+    if (
+      attributeValue !== undefined &&
+      !ATTRIBUTE_VALUE.test(attributeValue)
+    ) {
+      throw new Error(`Cookie: Invalid ${attribute} for cookie "${name}".`);
+    }
+  }
+
+  const parts = [`${name}=${encoded}`];
+
+  if (maxAge !== undefined) {
+    if (!Number.isInteger(maxAge)) {
+      throw new Error(`Cookie: Max-Age for "${name}" must be an integer.`);
+    }
+    parts.push(`Max-Age=${maxAge}`);
+  }
+  if (expires) {
+    parts.push(`Expires=${expires.toUTCString()}`);
+  }
+  if (domain) {
+    parts.push(`Domain=${domain}`);
+  }
+  if (path) {
+    parts.push(`Path=${path}`);
+  }
+  if (secure) {
+    parts.push("Secure");
+  }
+  if (httpOnly) {
+    parts.push("HttpOnly");
+  }
+  if (sameSite) {
+    parts.push(`SameSite=${sameSite}`);
+  }
+  if (partitioned) {
+    parts.push("Partitioned");
+  }
+  if (priority) {
+    parts.push(`Priority=${priority}`);
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Parse a request Cookie header into name/value pairs
+ * Values are URI-decoded, the first occurrence of a name wins
+ * @example
+ * parseCookies(req) // { session: "abc", theme: "dark" }
+ * parseCookies("a=1; b=hello%20world") // { a: "1", b: "hello world" }
+ */
+export function parseCookies(
+  input: Request | Headers | string | null,
+  decode: (value: string) => string = decodeURIComponent
+): Record<string, string> {
+  const header =
+    input instanceof Request
+      ? input.headers.get("Cookie")
+      : input instanceof Headers
+        ? input.get("Cookie")
+        : input;
+  // No prototype, so names like "__proto__" or "constructor" are
+  // plain cookies
+  const cookies: Record<string, string> = Object.create(null);
+
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    if (!name || Object.hasOwn(cookies, name)) {
+      continue;
+    }
+
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decode(value);
+    } catch {
+      // Malformed encoding, keep the raw value
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
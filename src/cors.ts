@@ -0,0 +1,265 @@
+import type {
+  HeadersCorsOrigin,
+  HeadersCorsPolicyOptions,
+  HeadersCorsPreflightResult,
+} from "./types";
+
+/**
+ * Methods browsers never preflight-check against Access-Control-Allow-Methods
+ */
+const SAFELISTED_METHODS = ["GET", "HEAD", "POST"];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Convert a wildcard origin pattern to a RegExp
+ * "*.example.com" matches any subdomain on http or https,
+ * "https://*.example.com" only on https, "http://localhost:*" any port
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const withScheme = pattern.includes("://") ? pattern : `http*://${pattern}`;
+  const source = escapeRegExp(withScheme)
+    .replace("http*://", "https?://")
+    .replace(/:\*/g, ":\\d+")
+    .replace(/\*/g, "[a-z0-9-]+(?:\\.[a-z0-9-]+)*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Check a request origin against a list of exact origins, wildcard
+ * patterns and regexes
+ * @example
+ * matchCorsOrigin("https://app.example.com", ["*.example.com"]) // true
+ */
+export function matchCorsOrigin(
+  origin: string,
+  allowed: HeadersCorsOrigin[]
+): boolean {
+  return allowed.some((pattern) => {
+    if (pattern instanceof RegExp) {
+      return pattern.test(origin);
+    }
+    if (pattern.includes("*")) {
+      return wildcardToRegExp(pattern).test(origin);
+    }
+    return pattern.toLowerCase() === origin.toLowerCase();
+  });
+}
+
+function splitList(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Request-aware CORS policy
+ * Handles OPTIONS preflights and computes headers for actual requests.
+ * Disallowed origins never get an Access-Control-Allow-Origin header.
+ */
+export class CorsPolicy {
+  private options: Required<
+    Omit<HeadersCorsPolicyOptions, "credentials" | "origins">
+  > & {
+    origins: HeadersCorsPolicyOptions["origins"];
+    credentials: boolean;
+  };
+
+  constructor({
+    origins,
+    methods = ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowedHeaders = ["Content-Type", "Authorization"],
+    exposedHeaders = [],
+    credentials = false,
+    maxAge = 86400,
+    privateNetwork = false,
+  }: HeadersCorsPolicyOptions) {
+    // Browsers reject credentialed responses with a wildcard origin
+    if (credentials && origins === "*") {
+      throw new Error(
+        'CORS: Cannot use credentials with wildcard origin "*". ' +
+          "Specify allowed origins or set credentials to false.",
+      );
+    }
+
+    this.options = {
+      origins,
+      methods: methods.map((method) => method.toUpperCase()),
+      allowedHeaders,
+      exposedHeaders,
+      credentials,
+      maxAge,
+      privateNetwork,
+    };
+  }
+
+  /**
+   * Resolve the Access-Control-Allow-Origin value for a request origin
+   * Returns null when the origin is missing or not allowed
+   * @example
+   * policy.resolveOrigin("https://evil.com") // null
+   */
+  resolveOrigin(origin: string | null): string | null {
+    const { origins } = this.options;
+
+    if (origins === "*") {
+      return "*";
+    }
+    if (!origin) {
+      return null;
+    }
+    if (typeof origins === "function") {
+      return origins(origin) ? origin : null;
+    }
+    return matchCorsOrigin(origin, origins) ? origin : null;
+  }
+
+  /**
+   * Whether the request is a CORS preflight
+   * (OPTIONS with Origin and Access-Control-Request-Method)
+   */
+  isPreflight(req: Request): boolean {
+    return (
+      req.method.toUpperCase() === "OPTIONS" &&
+      req.headers.has("Origin") &&
+      req.headers.has("Access-Control-Request-Method")
+    );
+  }
+
+  /**
+   * Evaluate a preflight request
+   * Allowed preflights get a 204 with the full Access-Control-Allow-* set,
+   * rejected ones get a 403 without any CORS headers
+   * @example
+   * if (policy.isPreflight(req)) return policy.preflight(req).response;
+   */
+  preflight(req: Request): HeadersCorsPreflightResult {
+    const { methods, allowedHeaders, credentials, maxAge, privateNetwork } =
+      this.options;
+    const headers: Record<string, string> = {};
+
+    const vary = ["Origin", "Access-Control-Request-Method"];
+    if (req.headers.has("Access-Control-Request-Headers")) {
+      vary.push("Access-Control-Request-Headers");
+    }
+    if (this.options.origins !== "*" || allowedHeaders === "*") {
+      headers["Vary"] = vary.join(", ");
+    }
+
+    const reject = (reason: string): HeadersCorsPreflightResult => ({
+      allowed: false,
+      status: 403,
+      reason,
+      headers,
+      response: new Response(null, { status: 403, headers }),
+    });
+
+    const origin = this.resolveOrigin(req.headers.get("Origin"));
+    if (!origin) {
+      return reject("Origin not allowed");
+    }
+
+    const requestedMethod = (
+      req.headers.get("Access-Control-Request-Method") ?? ""
+    ).toUpperCase();
+    if (
+      !methods.includes("*") &&
+      !methods.includes(requestedMethod) &&
+      !SAFELISTED_METHODS.includes(requestedMethod)
+    ) {
+      return reject(`Method ${requestedMethod} not allowed`);
+    }
+
+    const requestedHeaders = splitList(
+      req.headers.get("Access-Control-Request-Headers")
+    );
+    if (allowedHeaders !== "*") {
+      const allowed = allowedHeaders.map((name) => name.toLowerCase());
+      const denied = requestedHeaders.find(
+        (name) => !allowed.includes(name.toLowerCase())
+      );
+      if (denied) {
+        return reject(`Header ${denied} not allowed`);
+      }
+    }
+
+    const wantsPrivateNetwork =
+      req.headers.get("Access-Control-Request-Private-Network") === "true";
+    if (wantsPrivateNetwork && !privateNetwork) {
+      return reject("Private network access not allowed");
+    }
+
+    headers["Access-Control-Allow-Origin"] = origin;
+    headers["Access-Control-Allow-Methods"] = methods.includes("*")
+      ? requestedMethod
+      : methods.join(", ");
+
+    // "*" is a literal for credentialed requests, so echo what was asked
+    const headerList =
+      allowedHeaders === "*" ? requestedHeaders : allowedHeaders;
+    if (headerList.length > 0) {
+      headers["Access-Control-Allow-Headers"] = headerList.join(", ");
+    }
+
+    if (credentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+    if (wantsPrivateNetwork) {
+      headers["Access-Control-Allow-Private-Network"] = "true";
+    }
+    headers["Access-Control-Max-Age"] = maxAge.toString();
+
+    return {
+      allowed: true,
+      status: 204,
+      headers,
+      response: new Response(null, { status: 204, headers }),
+    };
+  }
+
+  /**
+   * CORS headers for an actual (non-preflight) request
+   * Includes Vary: Origin whenever the origin is reflected
+   * @example
+   * new Response(body, { headers: { ...json, ...policy.headersFor(req) } })
+   */
+  headersFor(req: Request): Record<string, string> {
+    const { exposedHeaders, credentials } = this.options;
+    const headers: Record<string, string> = {};
+
+    if (this.options.origins !== "*") {
+      headers["Vary"] = "Origin";
+    }
+
+    const origin = this.resolveOrigin(req.headers.get("Origin"));
+    if (!origin) {
+      return headers;
+    }
+
+    headers["Access-Control-Allow-Origin"] = origin;
+    if (credentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+    if (exposedHeaders.length > 0) {
+      headers["Access-Control-Expose-Headers"] = exposedHeaders.join(", ");
+    }
+
+    return headers;
+  }
+
+  /**
+   * Answer preflights directly, returns null for any other request
+   * @example
+   * const preflight = policy.handle(req);
+   * if (preflight) return preflight;
+   */
+  handle(req: Request): Response | null {
+    return this.isPreflight(req) ? this.preflight(req).response : null;
+  }
+}
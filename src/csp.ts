@@ -0,0 +1,382 @@
+import type {
+  HeadersCspDirective,
+  HeadersCspHashAlgorithm,
+  HeadersCspKeyword,
+  HeadersCspSource,
+} from "./types";
+
+/**
+ * Directives that take a source list and may be set to 'none'
+ */
+const SOURCE_LIST_DIRECTIVES: readonly HeadersCspDirective[] = [
+  "default-src",
+  "script-src",
+  "script-src-elem",
+  "script-src-attr",
+  "style-src",
+  "style-src-elem",
+  "style-src-attr",
+  "img-src",
+  "font-src",
+  "connect-src",
+  "media-src",
+  "object-src",
+  "frame-src",
+  "child-src",
+  "worker-src",
+  "manifest-src",
+  "prefetch-src",
+  "fenced-frame-src",
+  "base-uri",
+  "form-action",
+  "frame-ancestors",
+];
+
+/**
+ * Directives that take no value at all
+ */
+const FLAG_DIRECTIVES: readonly HeadersCspDirective[] = [
+  "upgrade-insecure-requests",
+  "block-all-mixed-content",
+];
+
+const OTHER_DIRECTIVES: readonly HeadersCspDirective[] = [
+  "sandbox",
+  "report-to",
+  "report-uri",
+  "require-trusted-types-for",
+  "trusted-types",
+];
+
+const KEYWORDS: readonly HeadersCspKeyword[] = [
+  "'self'",
+  "'none'",
+  "'unsafe-inline'",
+  "'unsafe-eval'",
+  "'unsafe-hashes'",
+  "'strict-dynamic'",
+  "'report-sample'",
+  "'wasm-unsafe-eval'",
+  "'inline-speculation-rules'",
+];
+
+function isKnownDirective(name: string): name is HeadersCspDirective {
+  return (
+    SOURCE_LIST_DIRECTIVES.includes(name as HeadersCspDirective) ||
+    FLAG_DIRECTIVES.includes(name as HeadersCspDirective) ||
+    OTHER_DIRECTIVES.includes(name as HeadersCspDirective)
+  );
+}
+
+/**
+ * Quote bare keywords so `self` and `'self'` are treated the same
+ */
+function normalizeSource(source: string): string {
+  const trimmed = source.trim();
+  const quoted = `'${trimmed}'`;
+  return KEYWORDS.includes(quoted as HeadersCspKeyword) ? quoted : trimmed;
+}
+
+/**
+ * CSP source expressions (CSP3 §2.3.1): keywords, nonces, hashes,
+ * schemes and hosts with an optional scheme, port and path
+ */
+const SOURCE_EXPRESSION = new RegExp(
+  "^(?:" +
+    [
+      "'(?:nonce|sha256|sha384|sha512)-[A-Za-z0-9+/_-]+={0,2}'",
+      "[A-Za-z][A-Za-z0-9+.-]*:",
+      "(?:[A-Za-z][A-Za-z0-9+.-]*://)?" +
+        "(?:\\*|(?:\\*\\.)?[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*)" +
+        "(?::(?:\\d+|\\*))?" +
+        "(?:/(?:[A-Za-z0-9._~!$&'()*+=:@/-]|%[0-9A-Fa-f]{2})*)?",
+    ].join("|") +
+    ")$"
+);
+
+/**
+ * Values of non source list directives are single tokens, never
+ * whitespace or the ";" and "," separators
+ */
+const DIRECTIVE_TOKEN = /^[\x21-\x2b\x2d-\x3a\x3c-\x7e]+$/;
+
+/**
+ * Reject sources that would break out of their directive,
+ * e.g. "https://a.com; script-src *"
+ */
+function assertValidSource(
+  directive: HeadersCspDirective,
+  source: string
+): void {
+  const valid = SOURCE_LIST_DIRECTIVES.includes(directive)
+    ? KEYWORDS.includes(source as HeadersCspKeyword) ||
+      SOURCE_EXPRESSION.test(source)
+    : DIRECTIVE_TOKEN.test(source);
+
+  if (!valid) {
+    throw new Error(`CSP: Invalid source "${source}" for "${directive}".`);
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Compute a base64 digest for CSP hash sources using Bun's CryptoHasher
+ * in Bun and node:crypto in Node (ESM and CommonJS alike)
+ */
+function digestBase64(
+  algorithm: HeadersCspHashAlgorithm,
+  content: string
+): string {
+  // Bun
+  if (typeof Bun !== "undefined" && Bun.CryptoHasher) {
+    return new Bun.CryptoHasher(algorithm).update(content).digest("base64");
+  }
+
+  // Node.js
+  const crypto = globalThis.process?.getBuiltinModule?.("node:crypto");
+  if (!crypto) {
+    throw new Error(
+      `CSP: Cannot compute ${algorithm} hash in this runtime. ` +
+        `Pass a precomputed "'${algorithm}-...'" source instead.`
+    );
+  }
+  return crypto.createHash(algorithm).update(content).digest("base64");
+}
+
+/**
+ * Parse a Content-Security-Policy value into directives and sources
+ * Directive names are lowercased, the first occurrence of a directive wins
+ * as browsers do
+ * @example
+ * parseCsp("default-src 'self'; img-src https:")
+ * // { "default-src": ["'self'"], "img-src": ["https:"] }
+ */
+export function parseCsp(value: string): Record<string, string[]> {
+  const directives: Record<string, string[]> = {};
+
+  for (const part of value.split(";")) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (!name) {
+      continue;
+    }
+    const directive = name.toLowerCase();
+    if (!(directive in directives)) {
+      directives[directive] = sources;
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Fluent Content-Security-Policy builder
+ * Source lists are deduplicated and merged, keywords are quoted
+ * automatically and contradictory values are rejected
+ */
+export class CspBuilder {
+  private directives = new Map<HeadersCspDirective, string[]>();
+  private nonceValue?: string;
+  private reportOnlyMode = false;
+
+  /**
+   * Create a builder from an existing policy value, unknown directives throw
+   * @example
+   * CspBuilder.from(response.headers.get("Content-Security-Policy")!)
+   *   .add("img-src", "https://cdn.example.com")
+   */
+  static from(value: string, reportOnly: boolean = false): CspBuilder {
+    const builder = new CspBuilder().reportOnly(reportOnly);
+    for (const [directive, sources] of Object.entries(parseCsp(value))) {
+      builder.add(directive as HeadersCspDirective, ...sources);
+    }
+    return builder;
+  }
+
+  /**
+   * Add sources to a directive, merging with any existing sources
+   * @example
+   * buildCsp().add("script-src", "self", "https://cdn.example.com")
+   * // script-src 'self' https://cdn.example.com
+   */
+  add(
+    directive: HeadersCspDirective,
+    ...sources: HeadersCspSource[]
+  ): CspBuilder {
+    if (!isKnownDirective(directive)) {
+      throw new Error(`CSP: Unknown directive "${directive}".`);
+    }
+
+    if (FLAG_DIRECTIVES.includes(directive) && sources.length > 0) {
+      throw new Error(`CSP: Directive "${directive}" does not take values.`);
+    }
+
+    const existing = this.directives.get(directive) ?? [];
+    const merged = [...existing];
+    for (const source of sources.map(normalizeSource)) {
+      if (!source) {
+        continue;
+      }
+      assertValidSource(directive, source);
+      if (!merged.includes(source)) {
+        merged.push(source);
+      }
+    }
+
+    if (
+      SOURCE_LIST_DIRECTIVES.includes(directive) &&
+      merged.includes("'none'") &&
+      merged.length > 1
+    ) {
+      throw new Error(
+        `CSP: Directive "${directive}" cannot combine 'none' with other sources.`,
+      );
+    }
+
+    this.directives.set(directive, merged);
+    return this;
+  }
+
+  /**
+   * Replace a directive's sources instead of merging
+   * @example
+   * buildCsp().set("object-src", "none")
+   */
+  set(
+    directive: HeadersCspDirective,
+    ...sources: HeadersCspSource[]
+  ): CspBuilder {
+    this.directives.delete(directive);
+    return this.add(directive, ...sources);
+  }
+
+  /**
+   * Remove a directive entirely
+   */
+  remove(directive: HeadersCspDirective): CspBuilder {
+    this.directives.delete(directive);
+    return this;
+  }
+
+  /**
+   * Add a per-request nonce to the given directives (script-src by default)
+   * The same nonce is reused for every directive of this policy
+   * @example
+   * const csp = buildCsp().add("script-src", "self").nonce();
+   * html`<script nonce="${csp.getNonce()}">...</script>`
+   */
+  nonce(...directives: HeadersCspDirective[]): CspBuilder {
+    if (!this.nonceValue) {
+      const bytes = new Uint8Array(16);
+      crypto.getRandomValues(bytes);
+      this.nonceValue = toBase64(bytes);
+    }
+
+    const targets: HeadersCspDirective[] =
+      directives.length > 0 ? directives : ["script-src"];
+    for (const directive of targets) {
+      this.add(directive, `'nonce-${this.nonceValue}'`);
+    }
+    return this;
+  }
+
+  /**
+   * Get the nonce generated by nonce(), for use in script/style tags
+   */
+  getNonce(): string | undefined {
+    return this.nonceValue;
+  }
+
+  /**
+   * Allow an inline script or style by hashing its exact content
+   * @example
+   * buildCsp().hash("script-src", "console.log('hi')")
+   * // script-src 'sha256-...'
+   */
+  hash(
+    directive: HeadersCspDirective,
+    content: string,
+    algorithm: HeadersCspHashAlgorithm = "sha256"
+  ): CspBuilder {
+    return this.add(
+      directive,
+      `'${algorithm}-${digestBase64(algorithm, content)}'`
+    );
+  }
+
+  /**
+   * Send reports to a Reporting-Endpoints group
+   * @example
+   * buildCsp().reportTo("csp-endpoint")
+   */
+  reportTo(group: string): CspBuilder {
+    return this.set("report-to", group);
+  }
+
+  /**
+   * Send reports to a URL (legacy report-uri, still needed for Firefox)
+   */
+  reportUri(...urls: string[]): CspBuilder {
+    return this.add("report-uri", ...urls);
+  }
+
+  /**
+   * Serialize as Content-Security-Policy-Report-Only instead of enforcing
+   */
+  reportOnly(enabled: boolean = true): CspBuilder {
+    this.reportOnlyMode = enabled;
+    return this;
+  }
+
+  /**
+   * Merge another policy into this one, combining source lists
+   */
+  merge(other: CspBuilder): CspBuilder {
+    for (const [directive, sources] of other.directives) {
+      this.add(directive, ...sources);
+    }
+    this.nonceValue ??= other.nonceValue;
+    return this;
+  }
+
+  /**
+   * Header name this policy serializes into
+   */
+  headerName():
+    | "Content-Security-Policy"
+    | "Content-Security-Policy-Report-Only" {
+    return this.reportOnlyMode
+      ? "Content-Security-Policy-Report-Only"
+      : "Content-Security-Policy";
+  }
+
+  /**
+   * Serialize the policy value
+   * @example
+   * buildCsp().add("default-src", "self").toString()
+   * // "default-src 'self'"
+   */
+  toString(): string {
+    return Array.from(this.directives)
+      .map(([directive, sources]) =>
+        sources.length > 0 ? `${directive} ${sources.join(" ")}` : directive
+      )
+      .join("; ");
+  }
+
+  /**
+   * Build as a headers object with the right header name
+   * @example
+   * buildCsp().add("default-src", "self").reportOnly().build()
+   * // { "Content-Security-Policy-Report-Only": "default-src 'self'" }
+   */
+  build(): Record<string, string> {
+    return { [this.headerName()]: this.toString() };
+  }
+}
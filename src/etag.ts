@@ -0,0 +1,250 @@
+import type {
+  HeadersETagAlgorithm,
+  HeadersETagOptions,
+  HeadersETagSource,
+} from "./types";
+
+/**
+ * SHA-256 round constants
+ */
+const K256 = Uint32Array.of(
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+);
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * Incremental SHA-1 / SHA-256 in plain JavaScript, used when neither
+ * Bun's CryptoHasher nor Web Crypto fit (synchronous hashing, streams)
+ * so every runtime produces the same ETag for the same bytes
+ */
+class Digest {
+  private state: Uint32Array;
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private length = 0;
+  private words = new Uint32Array(80);
+
+  constructor(private algorithm: HeadersETagAlgorithm) {
+    this.state =
+      algorithm === "SHA-1"
+        ? Uint32Array.of(
+            0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0
+          )
+        : Uint32Array.of(
+            0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f,
+            0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+          );
+  }
+
+  update(bytes: Uint8Array): this {
+    this.length += bytes.length;
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bits = this.length * 8;
+    const padding = new Uint8Array(
+      (this.blockLength < 56 ? 56 : 120) - this.blockLength + 8
+    );
+    const view = new DataView(padding.buffer);
+    padding[0] = 0x80;
+    view.setUint32(padding.length - 8, Math.floor(bits / 2 ** 32));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+
+    const output = new Uint8Array(this.state.length * 4);
+    const outputView = new DataView(output.buffer);
+    this.state.forEach((word, i) => outputView.setUint32(i * 4, word));
+    return output;
+  }
+
+  private compress(): void {
+    const w = this.words;
+    const view = new DataView(this.block.buffer);
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(i * 4);
+    }
+
+    if (this.algorithm === "SHA-1") {
+      for (let i = 16; i < 80; i++) {
+        w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+      }
+
+      let [a, b, c, d, e] = this.state;
+      for (let i = 0; i < 80; i++) {
+        const [f, k] =
+          i < 20
+            ? [(b & c) | (~b & d), 0x5a827999]
+            : i < 40
+              ? [b ^ c ^ d, 0x6ed9eba1]
+              : i < 60
+                ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+                : [b ^ c ^ d, 0xca62c1d6];
+        const t = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+        e = d;
+        d = c;
+        c = rotl(b, 30) >>> 0;
+        b = a;
+        a = t;
+      }
+
+      [a, b, c, d, e].forEach((value, i) => (this.state[i] += value));
+      return;
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K256[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + s0 + maj) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => (this.state[i] += value));
+  }
+}
+
+function toBytes(content: HeadersETagSource): Uint8Array {
+  if (typeof content === "string") {
+    return new TextEncoder().encode(content);
+  }
+  return content instanceof Uint8Array ? content : new Uint8Array(content);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function formatETag(digest: Uint8Array, options: HeadersETagOptions): string {
+  const { length = 27, weak = false } = options;
+  if (!Number.isInteger(length) || length < 8) {
+    throw new Error("ETag: length must be an integer of at least 8.");
+  }
+  const value = toBase64Url(digest).slice(0, length);
+  return weak ? `W/"${value}"` : `"${value}"`;
+}
+
+/**
+ * Generate a strong ETag synchronously from a SHA digest, identical on
+ * every runtime (and to generateETag() for the same bytes)
+ * @example
+ * generateETagSync("hello") // '"qvTGHdzF6KLavt4PO0gs2a6pQ00"'
+ * generateETagSync(buffer, { algorithm: "SHA-256", length: 16 })
+ */
+export function generateETagSync(
+  content: HeadersETagSource,
+  options: HeadersETagOptions = {}
+): string {
+  const { algorithm = "SHA-1" } = options;
+  const bytes = toBytes(content);
+
+  // Bun's native hasher gives the same digest, just faster
+  if (typeof Bun !== "undefined" && Bun.CryptoHasher) {
+    const hasher = new Bun.CryptoHasher(
+      algorithm === "SHA-1" ? "sha1" : "sha256"
+    );
+    return formatETag(new Uint8Array(hasher.update(bytes).digest()), options);
+  }
+
+  return formatETag(new Digest(algorithm).update(bytes).digest(), options);
+}
+
+/**
+ * Generate an ETag with Web Crypto, accepting streams and Blobs
+ * Streams are hashed incrementally instead of being buffered
+ * @example
+ * await generateETag(Bun.file("video.mp4").stream())
+ * await generateETag(blob, { algorithm: "SHA-256" })
+ */
+export async function generateETag(
+  content: HeadersETagSource | Blob | ReadableStream<Uint8Array>,
+  options: HeadersETagOptions = {}
+): Promise<string> {
+  const { algorithm = "SHA-1" } = options;
+
+  if (content instanceof ReadableStream) {
+    const digest = new Digest(algorithm);
+    const reader = content.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      digest.update(value);
+    }
+    return formatETag(digest.digest(), options);
+  }
+
+  const bytes =
+    content instanceof Blob
+      ? new Uint8Array(await content.arrayBuffer())
+      : toBytes(content);
+
+  if (globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest(algorithm, bytes);
+    return formatETag(new Uint8Array(digest), options);
+  }
+
+  return formatETag(new Digest(algorithm).update(bytes).digest(), options);
+}
+
+/**
+ * Weak ETag from file size and modification time, like static file
+ * servers use, so files don't have to be read to be validated
+ * @example
+ * const file = Bun.file("public/app.js");
+ * weakETag(file.size, file.lastModified) // 'W/"1f4-18c2a4b5e00"'
+ */
+export function weakETag(size: number, mtime: Date | number): string {
+  const time = typeof mtime === "number" ? mtime : mtime.getTime();
+  if (!Number.isFinite(size) || size < 0 || !Number.isFinite(time)) {
+    throw new Error("ETag: Invalid size or modification time.");
+  }
+  return `W/"${Math.floor(size).toString(16)}-${Math.floor(time).toString(16)}"`;
+}
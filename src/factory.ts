@@ -1,5 +1,15 @@
+import { CorsPolicy } from "./cors";
+import { CspBuilder } from "./csp";
 import { HeadersBuilder } from "./headers-builder";
-import type { HeadersCacheStrategy, HeadersContentTypeInput } from "./types";
+import { ServerTiming } from "./server-timing";
+import type {
+  HeadersBuilderOptions,
+  HeadersCacheStrategy,
+  HeadersContentTypeInput,
+  HeadersCorsPolicyOptions,
+  HeadersPolicy,
+  HeadersTypedBuilder,
+} from "./types";
 
 /**
  * Create a new headers builder
@@ -9,9 +19,109 @@ import type { HeadersCacheStrategy, HeadersContentTypeInput } from "./types";
  *   .cache("API_RESPONSE")
  *   .cors()
  *   .build()
+ *
+ * // Fixed clock for tests
+ * buildHeaders({ now: () => new Date("2025-01-01") })
  */
-export function buildHeaders(): HeadersBuilder {
-  return new HeadersBuilder();
+export function buildHeaders(options?: HeadersBuilderOptions): HeadersBuilder {
+  return new HeadersBuilder(options);
+}
+
+/**
+ * Create a headers builder whose type tracks the headers it sets,
+ * so build() returns a precisely typed record
+ * Setting Content-Type twice, or building or responding without a
+ * header passed to requires(), is a type error
+ * @example
+ * const headers = typedHeaders()
+ *   .requires("Content-Type")
+ *   .contentType("json")
+ *   .cache("API_RESPONSE")
+ *   .build();
+ * // { "Content-Type": "application/json"; "Cache-Control": string;
+ * //   "Expires"?: string; "Content-Length"?: string }
+ *
+ * typedHeaders().requires("Content-Type").cache("ONE_DAY").build();
+ * // Error: Expected 1 arguments, but got 0 (missing: "Missing required header: Content-Type")
+ *
+ * typedHeaders().requires("Cache-Control").json(data);
+ * // Error: ... not assignable to "Missing required header: Cache-Control"
+ */
+export function typedHeaders(
+  options?: HeadersBuilderOptions
+): HeadersTypedBuilder {
+  return new HeadersBuilder(options);
+}
+
+/**
+ * Create a new Content-Security-Policy builder
+ * @example
+ * const csp = buildCsp()
+ *   .add("default-src", "self")
+ *   .add("img-src", "self", "https://cdn.example.com")
+ *   .nonce("script-src", "style-src")
+ *   .reportTo("csp-endpoint");
+ */
+export function buildCsp(): CspBuilder {
+  return new CspBuilder();
+}
+
+/**
+ * Create a request-aware CORS policy
+ * @example
+ * const policy = buildCorsPolicy({
+ *   origins: ["https://app.example.com", "*.example.com", /\.vercel\.app$/],
+ *   credentials: true,
+ *   exposedHeaders: ["X-Request-ID"],
+ * });
+ *
+ * const preflight = policy.handle(req);
+ * if (preflight) return preflight;
+ */
+export function buildCorsPolicy(options: HeadersCorsPolicyOptions): CorsPolicy {
+  return new CorsPolicy(options);
+}
+
+/**
+ * Define a named, frozen header policy to derive per-route builders from
+ * Presets can be layered on top, or the policy on top of presets
+ * @example
+ * export const basePolicy = definePolicy("base", (h) =>
+ *   h
+ *     .security({ csp: "default-src 'self'" })
+ *     .cors({ origin: "https://app.example.com" })
+ *     .custom("Server", "edge")
+ * );
+ *
+ * // Preset wins on conflicts
+ * HeadersBuilder.fromPolicy(basePolicy).merge(commonHeaders.api());
+ * // Base policy wins on conflicts
+ * commonHeaders.html().merge(basePolicy);
+ */
+export function definePolicy(
+  name: string,
+  configure: HeadersBuilder | ((builder: HeadersBuilder) => unknown)
+): HeadersPolicy {
+  if (configure instanceof HeadersBuilder) {
+    return configure.toPolicy(name);
+  }
+  const builder = new HeadersBuilder();
+  configure(builder);
+  return builder.toPolicy(name);
+}
+
+/**
+ * Create a Server-Timing collector for one request
+ * @example
+ * const timing = buildServerTiming();
+ * const rows = await timing.measure("db", () => db.query(sql), "Primary DB");
+ *
+ * return new Response(render(rows), {
+ *   headers: headers().serverTiming(timing, { request: req }).build(),
+ * });
+ */
+export function buildServerTiming(clock?: () => number): ServerTiming {
+  return new ServerTiming(clock);
 }
 
 /**
@@ -0,0 +1,173 @@
+import type { HeadersInput } from "./types";
+import { canonicalHeaderName } from "./utils";
+
+/**
+ * Headers that must be sent as separate lines, never comma-joined
+ */
+const SEPARATE_LINE_HEADERS = ["set-cookie"];
+
+/**
+ * Headers that only ever carry a single value
+ */
+const SINGLETON_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-encoding",
+  "content-language",
+  "content-range",
+  "content-disposition",
+  "location",
+  "etag",
+  "last-modified",
+  "expires",
+  "age",
+  "retry-after",
+  "access-control-allow-origin",
+  "access-control-allow-credentials",
+  "access-control-max-age",
+  "strict-transport-security",
+  "x-content-type-options",
+  "x-frame-options",
+];
+
+/**
+ * Whether a header can only carry a single value
+ * @internal
+ */
+export function isSingletonHeader(name: string): boolean {
+  return SINGLETON_HEADERS.includes(name.toLowerCase());
+}
+
+/**
+ * Case-insensitive, list-aware header storage
+ * Keeps the casing of the first write for output and combines multiple
+ * values per header type (comma-joined, or separate lines for Set-Cookie)
+ * @internal
+ */
+export class HeaderStore {
+  private entries = new Map<string, { name: string; values: string[] }>();
+
+  /**
+   * Seed a store from a Headers object, Response or record,
+   * keeping each Set-Cookie line separate
+   */
+  static from(input: HeadersInput): HeaderStore {
+    const store = new HeaderStore();
+    const headers = input instanceof Response ? input.headers : input;
+
+    if (headers instanceof Headers) {
+      for (const [name, value] of headers.entries()) {
+        if (name.toLowerCase() !== "set-cookie") {
+          store.append(canonicalHeaderName(name), value);
+        }
+      }
+      for (const cookie of headers.getSetCookie()) {
+        store.append("Set-Cookie", cookie);
+      }
+    } else {
+      for (const [name, value] of Object.entries(headers)) {
+        store.append(canonicalHeaderName(name), value);
+      }
+    }
+
+    return store;
+  }
+
+  /**
+   * Replace all values of a header
+   */
+  set(name: string, value: string): void {
+    const key = name.toLowerCase();
+    const existing = this.entries.get(key);
+    this.entries.set(key, { name: existing?.name ?? name, values: [value] });
+  }
+
+  /**
+   * Add a value to a header, keeping existing values
+   * Throws for headers that can only carry a single value
+   */
+  append(name: string, value: string): void {
+    const key = name.toLowerCase();
+    const existing = this.entries.get(key);
+
+    if (!existing) {
+      this.entries.set(key, { name, values: [value] });
+      return;
+    }
+
+    if (SINGLETON_HEADERS.includes(key)) {
+      throw new Error(
+        `Headers: "${existing.name}" cannot have multiple values, use set instead.`,
+      );
+    }
+
+    existing.values.push(value);
+  }
+
+  /**
+   * Combined value of a header, comma-joined like Headers.get()
+   */
+  get(name: string): string | undefined {
+    return this.entries.get(name.toLowerCase())?.values.join(", ");
+  }
+
+  /**
+   * Every value of a header, one per append()
+   */
+  getAll(name: string): string[] {
+    return [...(this.entries.get(name.toLowerCase())?.values ?? [])];
+  }
+
+  /**
+   * Header names as first written
+   */
+  names(): string[] {
+    return Array.from(this.entries.values(), ({ name }) => name);
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name.toLowerCase());
+  }
+
+  delete(name: string): void {
+    this.entries.delete(name.toLowerCase());
+  }
+
+  clone(): HeaderStore {
+    const copy = new HeaderStore();
+    for (const [key, { name, values }] of this.entries) {
+      copy.entries.set(key, { name, values: [...values] });
+    }
+    return copy;
+  }
+
+  /**
+   * Header lines, with Set-Cookie values on separate lines and every
+   * other header comma-joined into one line
+   */
+  toEntries(): [string, string][] {
+    const lines: [string, string][] = [];
+    for (const [key, { name, values }] of this.entries) {
+      if (SEPARATE_LINE_HEADERS.includes(key)) {
+        for (const value of values) {
+          lines.push([name, value]);
+        }
+      } else {
+        lines.push([name, values.join(", ")]);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * One value per header, comma-joined like Headers.get()
+   * Set-Cookie can't be folded safely, use toEntries() for it
+   */
+  toRecord(): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const { name, values } of this.entries.values()) {
+      record[name] = values.join(", ");
+    }
+    return record;
+  }
+}
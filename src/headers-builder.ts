@@ -1,10 +1,361 @@
+import { serializeCacheControl } from "./cache-control";
 import { getCacheConfig } from "./cache-strategies";
+import { evaluatePreconditions, parseETag } from "./conditional";
+import { generateETagSync, weakETag } from "./etag";
+import { serializeCookie } from "./cookies";
+import type { CorsPolicy } from "./cors";
+import type { CspBuilder } from "./csp";
+import { HeaderStore, isSingletonHeader } from "./header-store";
+import { earlyHintLinks, serializeLink } from "./link";
 import { getMimeType } from "./mime-types";
-import type { HeadersCacheStrategy, HeadersContentTypeInput } from "./types";
-import { hashContent } from "./utils";
+import { negotiate } from "./negotiation";
+import { PROBLEM_MIME_TYPES, serializeProblem } from "./problem";
+import { evaluateRange } from "./range";
+import {
+  applyReportingGroups,
+  serializeNel,
+  serializeReportingEndpoints,
+  serializeReportTo,
+} from "./reporting";
+import { serializeHsts, serializePermissionsPolicy } from "./security";
+import {
+  isServerTimingEnabled,
+  serializeServerTiming,
+  ServerTiming,
+} from "./server-timing";
+import { detectContentType } from "./sniff";
+import { serializeStructuredField } from "./structured-fields";
+import type {
+  HeadersCacheControl,
+  HeadersCacheControlTarget,
+  HeadersBuilderOptions,
+  HeadersCacheStrategy,
+  HeadersCoep,
+  HeadersConditionalResult,
+  HeadersContentEncoding,
+  HeadersContentTypeInput,
+  HeadersCookieOptions,
+  HeadersETagOptions,
+  HeadersETagSource,
+  HeadersExpiresMode,
+  HeadersHstsOptions,
+  HeadersInput,
+  HeadersLink,
+  HeadersMergeOptions,
+  HeadersMergeStrategy,
+  HeadersNegotiationOptions,
+  HeadersNegotiationResult,
+  HeadersNelOptions,
+  HeadersPermissionsPolicy,
+  HeadersPolicy,
+  HeadersProblemDetails,
+  HeadersProblemInit,
+  HeadersRangeResult,
+  HeadersRedirectStatus,
+  HeadersReportingGroups,
+  HeadersReportingOptions,
+  HeadersReportToGroup,
+  HeadersResponseBody,
+  HeadersResponseInit,
+  HeadersSecurityOptions,
+  HeadersServerTimingMetric,
+  HeadersServerTimingOptions,
+  HeadersSfDictionaryInput,
+  HeadersSfItemInput,
+  HeadersSfListInput,
+  HeadersSfType,
+} from "./types";
+
+/**
+ * Headers whose values are lists of independent entries, appended
+ * rather than overridden by merge()
+ * @internal
+ */
+export const LIST_HEADERS = ["vary", "link", "server-timing", "set-cookie"];
+
+/**
+ * Statuses that redirect with a Location header
+ */
+const REDIRECT_STATUSES: number[] = [301, 302, 303, 307, 308];
+
+/**
+ * Headers describing a successful representation, dropped from
+ * problem responses
+ */
+const PROBLEM_DROPPED_HEADERS = [
+  "Content-Length",
+  "Content-Encoding",
+  "Content-Language",
+  "Content-Range",
+  "Content-Disposition",
+  "Content-Location",
+  "ETag",
+  "Last-Modified",
+  "Location",
+];
+
+/**
+ * Statuses whose responses never carry a body
+ */
+const NULL_BODY_STATUSES = [204, 205, 304];
 
 export class HeadersBuilder {
-  private headers: Record<string, string> = {};
+  private headers = new HeaderStore();
+  private expiresMode?: HeadersExpiresMode | Date | false;
+  private now: () => Date;
+  private reportingGroups: HeadersReportingGroups = {};
+  private required: string[] = [];
+  private statusCode?: number;
+
+  constructor(options: HeadersBuilderOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Create a builder seeded with existing headers, so selected fields
+   * can be changed and rebuilt (e.g. when proxying upstream responses)
+   * @example
+   * const upstream = await fetch(url);
+   * const headers = HeadersBuilder.from(upstream)
+   *   .cache("FIVE_MINUTES")
+   *   .custom("X-Proxy", "edge")
+   *   .build();
+   */
+  static from(
+    input: HeadersInput,
+    options?: HeadersBuilderOptions
+  ): HeadersBuilder {
+    const builder = new HeadersBuilder(options);
+    builder.headers = HeaderStore.from(input);
+    return builder;
+  }
+
+  /**
+   * Create a builder from a policy, e.g. one parsed back from JSON
+   * @example
+   * const base = definePolicy("base", (h) => h.security().custom("Server", "edge"));
+   *
+   * // Per route, the base policy is never modified
+   * HeadersBuilder.fromPolicy(base).contentType("json").cache("API_RESPONSE");
+   */
+  static fromPolicy(
+    policy: HeadersPolicy,
+    options?: HeadersBuilderOptions
+  ): HeadersBuilder {
+    const { name, headers, expires, reporting, required, status } = policy;
+    const builder = new HeadersBuilder(options);
+
+    for (const [header, value] of Object.entries(headers ?? {})) {
+      const values: readonly unknown[] = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        if (typeof item !== "string") {
+          throw new Error(`Policy "${name}": Invalid value for "${header}".`);
+        }
+        builder.headers.append(header, item);
+      }
+    }
+
+    if (expires === "past" || expires === "max-age" || expires === false) {
+      builder.expiresMode = expires;
+    } else if (expires !== undefined) {
+      const date = new Date(expires);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Policy "${name}": Invalid expires "${expires}".`);
+      }
+      builder.expiresMode = date;
+    }
+
+    builder.reportingGroups = { ...reporting };
+
+    if (
+      required !== undefined &&
+      (!Array.isArray(required) ||
+        !required.every((header) => typeof header === "string"))
+    ) {
+      throw new Error(`Policy "${name}": Invalid required headers.`);
+    }
+    builder.requires(...(required ?? []));
+
+    if (status !== undefined) {
+      if (!Number.isInteger(status) || status < 200 || status > 599) {
+        throw new Error(`Policy "${name}": Invalid status "${status}".`);
+      }
+      builder.statusCode = status;
+    }
+    return builder;
+  }
+
+  /**
+   * Independent copy of this builder, later changes to either one
+   * don't affect the other
+   * @example
+   * const base = buildHeaders().security().cors();
+   * const api = base.clone().contentType("json");
+   */
+  clone(): HeadersBuilder {
+    const copy = new HeadersBuilder({ now: this.now });
+    copy.headers = this.headers.clone();
+    copy.expiresMode = this.expiresMode;
+    copy.reportingGroups = { ...this.reportingGroups };
+    copy.required = [...this.required];
+    copy.statusCode = this.statusCode;
+    return copy;
+  }
+
+  /**
+   * Derive a new builder with another builder or policy layered on top,
+   * leaving this one unchanged (see merge() for conflicts)
+   * @example
+   * const base = buildHeaders().security().custom("Server", "edge");
+   * const api = base.extend(commonHeaders.api());
+   * const page = base.extend(commonHeaders.html(), { strategy: "error" });
+   */
+  extend(
+    other: HeadersBuilder | HeadersPolicy,
+    options?: HeadersMergeOptions
+  ): HeadersBuilder {
+    return this.clone().merge(other, options);
+  }
+
+  /**
+   * Layer another builder or policy on top of this one
+   * Headers only one side sets are kept. For headers both set,
+   * "override" (default) takes the incoming value, "append" keeps both
+   * and "error" throws if they differ. Vary, Link, Server-Timing and
+   * Set-Cookie append unless a per-header strategy is given, Vary by
+   * field name. Single-value headers (Content-Type, ETag, ...) can't
+   * append, and an overriding Access-Control-Allow-Origin replaces all
+   * CORS headers
+   * @example
+   * headers()
+   *   .cache("ONE_DAY")
+   *   .vary("Accept-Encoding")
+   *   .merge(buildHeaders().cache("NO_CACHE").vary("Origin"), {
+   *     headers: { "Cache-Control": "error" },
+   *   })
+   * // Throws: Headers: "Cache-Control" is set by both builders...
+   */
+  merge(
+    other: HeadersBuilder | HeadersPolicy,
+    options: HeadersMergeOptions = {}
+  ): HeadersBuilder {
+    const source =
+      other instanceof HeadersBuilder ? other : HeadersBuilder.fromPolicy(other);
+    const strategies = new Map<string, HeadersMergeStrategy>(
+      Object.entries(options.headers ?? {}).map(([name, strategy]) => [
+        name.toLowerCase(),
+        strategy,
+      ])
+    );
+
+    const strategyFor = (key: string): HeadersMergeStrategy =>
+      strategies.get(key) ??
+      (LIST_HEADERS.includes(key) ? "append" : options.strategy) ??
+      "override";
+
+    // CORS headers form one policy, an overriding origin replaces all of
+    // them so credentials never outlive the origin they were meant for
+    if (
+      source.headers.has("Access-Control-Allow-Origin") &&
+      this.headers.has("Access-Control-Allow-Origin") &&
+      strategyFor("access-control-allow-origin") === "override"
+    ) {
+      for (const name of this.headers.names()) {
+        if (
+          name.toLowerCase().startsWith("access-control-") &&
+          !source.headers.has(name)
+        ) {
+          this.headers.delete(name);
+        }
+      }
+    }
+
+    for (const name of source.headers.names()) {
+      const incoming = source.headers.getAll(name);
+      const existing = this.headers.getAll(name);
+
+      if (existing.length === 0) {
+        incoming.forEach((value) => this.headers.append(name, value));
+        continue;
+      }
+      if (existing.join("\n") === incoming.join("\n")) {
+        continue;
+      }
+
+      const key = name.toLowerCase();
+      const strategy = strategyFor(key);
+
+      if (strategy === "error") {
+        throw new Error(
+          `Headers: "${name}" is set by both builders, use an "override" ` +
+            'or "append" merge strategy.',
+        );
+      }
+      if (strategy === "append" && isSingletonHeader(key)) {
+        throw new Error(
+          `Headers: "${name}" is set by both builders and has a single ` +
+            'value, use an "override" or "error" merge strategy.',
+        );
+      }
+      if (strategy === "append" && key === "vary") {
+        const fields = incoming.flatMap((value) => value.split(","));
+        this.vary(...fields.map((field) => field.trim()).filter(Boolean));
+        continue;
+      }
+      if (strategy === "override") {
+        this.headers.delete(name);
+      }
+      for (const value of incoming) {
+        if (strategy === "override" || !existing.includes(value)) {
+          this.headers.append(name, value);
+        }
+      }
+    }
+
+    if (source.expiresMode !== undefined) {
+      this.expiresMode = source.expiresMode;
+    }
+    this.reportingGroups = {
+      ...this.reportingGroups,
+      ...source.reportingGroups,
+    };
+    this.requires(...source.required);
+    this.statusCode = source.statusCode ?? this.statusCode;
+    return this;
+  }
+
+  /**
+   * Snapshot this builder as a named, frozen, JSON-serializable policy
+   * Expires stays a mode ("max-age") so it is recomputed at build time
+   * @example
+   * const policy = buildHeaders().security().cors().toPolicy("base");
+   * await Bun.write("policy.json", JSON.stringify(policy));
+   * HeadersBuilder.fromPolicy(await Bun.file("policy.json").json());
+   */
+  toPolicy(name: string): HeadersPolicy {
+    const headers: Record<string, string | readonly string[]> = {};
+    for (const header of this.headers.names()) {
+      const values = this.headers.getAll(header);
+      headers[header] = values.length === 1 ? values[0] : Object.freeze(values);
+    }
+
+    const mode = this.expiresMode;
+    const policy: HeadersPolicy = {
+      name,
+      headers: Object.freeze(headers),
+      ...(mode !== undefined && {
+        expires: mode instanceof Date ? mode.toISOString() : mode,
+      }),
+      ...(Object.keys(this.reportingGroups).length > 0 && {
+        reporting: Object.freeze({ ...this.reportingGroups }),
+      }),
+      ...(this.required.length > 0 && {
+        required: Object.freeze([...this.required]),
+      }),
+      ...(this.statusCode !== undefined && { status: this.statusCode }),
+    };
+    return Object.freeze(policy);
+  }
 
   /**
    * Set content type from known extension types (with full TypeScript autocomplete)
@@ -13,19 +364,23 @@ export class HeadersBuilder {
    * // Returns: { "Content-Type": "application/json" }
    */
   contentType(type: HeadersContentTypeInput): HeadersBuilder {
-    this.headers["Content-Type"] = getMimeType(type);
+    this.headers.set("Content-Type", getMimeType(type));
     return this;
   }
 
   /**
    * Set content type from file path - auto-detects extension or falls back to octet-stream
+   * Pass the body to detect the type from its magic number instead, a
+   * binary signature wins over a wrong or missing extension
    * @example
    * headers().filePath("style.css").build()
    * // Returns: { "Content-Type": "text/css" }
+   *
+   * headers().filePath("upload", await file.arrayBuffer()).build()
+   * // Returns: { "Content-Type": "image/png" }
    */
-  filePath(path: string): HeadersBuilder {
-    const ext = path.split(".").pop()?.toLowerCase() || "";
-    this.headers["Content-Type"] = getMimeType(ext as any);
+  filePath(path: string, body?: ArrayBuffer | Uint8Array): HeadersBuilder {
+    this.headers.set("Content-Type", detectContentType(path, body).contentType);
     return this;
   }
 
@@ -35,56 +390,128 @@ export class HeadersBuilder {
    * headers().mimeType("application/vnd.api+json").build()
    */
   mimeType(mimeType: string): HeadersBuilder {
-    this.headers["Content-Type"] = mimeType;
+    this.headers.set("Content-Type", mimeType);
     return this;
   }
 
   /**
-   * Set cache control headers based on strategy
+   * Set cache control headers based on strategy, optionally extended
+   * with extra directives
    * @example
    * headers().cache("ONE_DAY").build()
    * // Returns: { "Cache-Control": "public, max-age=86400, must-revalidate" }
+   *
+   * headers().cache("ONE_DAY", { staleWhileRevalidate: 60 }).build()
+   * // Returns: { "Cache-Control": "public, max-age=86400, must-revalidate, stale-while-revalidate=60" }
    */
-  cache(strategy: HeadersCacheStrategy): HeadersBuilder {
-    const { cacheControl, expires } = getCacheConfig(strategy);
+  cache(
+    strategy: HeadersCacheStrategy,
+    extension?: HeadersCacheControl
+  ): HeadersBuilder {
+    const { cacheControl, expires } = getCacheConfig(strategy, extension);
 
-    this.headers["Cache-Control"] = cacheControl;
-    if (expires) {
-      this.headers["Expires"] = expires;
-    }
+    this.headers.set("Cache-Control", cacheControl);
+    this.expiresMode = expires;
+
+    return this;
+  }
+
+  /**
+   * Control the Expires header, computed when build() is called
+   * - Date: explicit expiry
+   * - "max-age": derived from the Cache-Control max-age
+   * - "past": already expired (epoch)
+   * - false: omit Expires, Cache-Control is enough
+   * @example
+   * headers().cache("ONE_DAY").expires("max-age").build()
+   * // Returns: { ..., "Expires": <now + 1 day> }
+   *
+   * headers().cache("ONE_YEAR").expires(false).build()
+   * // Returns: { "Cache-Control": "public, max-age=31536000" }
+   */
+  expires(value: HeadersExpiresMode | Date | false): HeadersBuilder {
+    this.expiresMode = value;
+    return this;
+  }
 
+  /**
+   * Set Cache-Control (or CDN-Cache-Control / Surrogate-Control) from
+   * structured directives. Contradictions like no-store with max-age throw.
+   * @example
+   * headers().cacheControl({ private: true, maxAge: 60 }).build()
+   * // Returns: { "Cache-Control": "private, max-age=60" }
+   *
+   * headers()
+   *   .cache("FIVE_MINUTES")
+   *   .cacheControl({ maxAge: 3600, staleIfError: 86400 }, "CDN-Cache-Control")
+   *   .build()
+   */
+  cacheControl(
+    directives: HeadersCacheControl,
+    target: HeadersCacheControlTarget = "Cache-Control"
+  ): HeadersBuilder {
+    this.headers.set(target, serializeCacheControl(directives));
     return this;
   }
 
   /**
-   * Add ETag header - auto-generates from content or accepts explicit value
-   * Pass undefined to skip setting ETag (useful for optional patterns)
+   * Set a strong ETag hashed from the content (SHA-1, base64url), identical
+   * on every runtime. Strings are always hashed, use eTagValue() for
+   * precomputed tags
    * @example
-   * // Generate from content
    * headers().eTag("my content").build()
    *
-   * // Use explicit ETag
-   * headers().eTag('"abc123"').build()
+   * // Shorter SHA-256 tag
+   * headers().eTag(buffer, { algorithm: "SHA-256", length: 16 }).build()
    *
    * // Conditional usage
    * headers().eTag(content).build() // works even if content is undefined
    */
-  eTag(contentOrETag?: string | ArrayBuffer | Uint8Array): HeadersBuilder {
-    if (!contentOrETag) {
+  eTag(
+    content?: HeadersETagSource,
+    options?: HeadersETagOptions
+  ): HeadersBuilder {
+    if (!content) {
       // Skip setting ETag if undefined/null
       return this;
     }
 
-    let etag: string;
-    if (typeof contentOrETag === "string" && contentOrETag.startsWith('"')) {
-      // Already formatted ETag
-      etag = contentOrETag;
-    } else {
-      // Generate ETag from content
-      etag = `"${hashContent(contentOrETag)}"`;
+    this.headers.set("ETag", generateETagSync(content, options));
+    return this;
+  }
+
+  /**
+   * Set a precomputed ETag, e.g. from generateETag() or a database version
+   * Bare values are quoted, malformed tags throw
+   * @example
+   * headers().eTagValue('"v42"').build()
+   * headers().eTagValue("v42").build() // ETag: "v42"
+   * headers().eTagValue(await generateETag(file.stream())).build()
+   */
+  eTagValue(tag: string): HeadersBuilder {
+    const trimmed = tag.trim();
+    const etag = trimmed.endsWith('"') ? trimmed : `"${trimmed}"`;
+    const parsed = parseETag(etag);
+
+    // etagc excludes whitespace and control characters
+    if (!parsed || /[\x00-\x20\x7F]/.test(parsed.value)) {
+      throw new Error(`ETag: Invalid entity tag ${JSON.stringify(tag)}.`);
     }
 
-    this.headers["ETag"] = etag;
+    this.headers.set("ETag", etag);
+    return this;
+  }
+
+  /**
+   * Set a weak ETag from file size and modification time, like static
+   * file servers do, without reading the file
+   * @example
+   * const file = Bun.file("public/app.js");
+   * headers().weakETag(file.size, file.lastModified).build()
+   * // Returns: { "ETag": 'W/"1f4-18c2a4b5e00"' }
+   */
+  weakETag(size: number, mtime: Date | number): HeadersBuilder {
+    this.headers.set("ETag", weakETag(size, mtime));
     return this;
   }
 
@@ -94,7 +521,7 @@ export class HeadersBuilder {
    * headers().lastModified(new Date()).build()
    */
   lastModified(date: Date): HeadersBuilder {
-    this.headers["Last-Modified"] = date.toUTCString();
+    this.headers.set("Last-Modified", date.toUTCString());
     return this;
   }
 
@@ -104,27 +531,85 @@ export class HeadersBuilder {
    * headers().contentLength(1024).build()
    */
   contentLength(bytes: number): HeadersBuilder {
-    this.headers["Content-Length"] = bytes.toString();
+    this.headers.set("Content-Length", bytes.toString());
     return this;
   }
 
   /**
-   * Set redirect headers (Location + appropriate status should be set in response)
+   * Set the status of responses created by this builder
+   * @example
+   * headers().status(201).json(created)
+   */
+  status(code: number): HeadersBuilder {
+    if (!Number.isInteger(code) || code < 200 || code > 599) {
+      throw new Error(`Headers: Invalid status code ${code}.`);
+    }
+    this.statusCode = code;
+    return this;
+  }
+
+  /**
+   * Set Location and the redirect status: true for 301, false for 302,
+   * or an explicit 301, 302, 303, 307 or 308
    * @example
    * // Permanent redirect (301)
-   * headers().redirect("https://example.com", true).build()
+   * headers().redirect("https://example.com", true).response()
    *
-   * // Temporary redirect (302)
-   * headers().redirect("https://example.com").build()
+   * // After a form POST, the client follows with GET
+   * headers().redirect("/orders/42", 303).response()
+   *
+   * // Permanent, keeping the method and body
+   * headers().redirect("https://api.example.com/v2", 308).response()
+   */
+  redirect(
+    url: string,
+    status: HeadersRedirectStatus | boolean = false
+  ): HeadersBuilder {
+    const code = status === true ? 301 : status === false ? 302 : status;
+    if (!REDIRECT_STATUSES.includes(code)) {
+      throw new Error(`Headers: Invalid redirect status ${code}.`);
+    }
+    this.headers.set("Location", url);
+    this.statusCode = code;
+    return this;
+  }
+
+  /**
+   * Add a Set-Cookie header with secure defaults
+   * (Path=/, Secure, HttpOnly, SameSite=Lax)
+   * Each call adds a separate Set-Cookie line
+   * @example
+   * headers()
+   *   .cookie("session", token, { maxAge: 60 * 60 * 24 })
+   *   .cookie("__Host-csrf", csrf, { sameSite: "Strict" })
+   *   .buildHeaders()
    */
-  redirect(url: string, permanent: boolean = false): HeadersBuilder {
-    this.headers["Location"] = url;
-    // Note: Status code should be set separately in your response
-    // This just sets the header. The status hint is stored for reference.
-    this.headers["X-Redirect-Type"] = permanent ? "permanent" : "temporary";
+  cookie(
+    name: string,
+    value: string,
+    options?: HeadersCookieOptions
+  ): HeadersBuilder {
+    this.headers.append("Set-Cookie", serializeCookie(name, value, options));
     return this;
   }
 
+  /**
+   * Expire a cookie on the client
+   * Domain and Path must match the ones the cookie was set with
+   * @example
+   * headers().clearCookie("session").buildHeaders()
+   */
+  clearCookie(
+    name: string,
+    options?: Pick<HeadersCookieOptions, "domain" | "path" | "secure">
+  ): HeadersBuilder {
+    return this.cookie(name, "", {
+      ...options,
+      maxAge: 0,
+      expires: new Date(0),
+    });
+  }
+
   /**
    * Set CORS headers
    * @example
@@ -136,6 +621,9 @@ export class HeadersBuilder {
    *   origin: allowedOrigin,
    *   credentials: true
    * }).build()
+   *
+   * // Disallowed origin from getCorsOrigin() - no CORS headers, only Vary
+   * headers().cors({ origin: null }).build()
    */
   cors({
     origin = "*",
@@ -144,12 +632,17 @@ export class HeadersBuilder {
     maxAge = 86400,
     credentials,
   }: {
-    origin?: string;
+    origin?: string | null;
     methods?: string[];
     headers?: string[];
     credentials?: boolean;
     maxAge?: number;
   } = {}): HeadersBuilder {
+    // Origin was rejected upstream, never echo a substitute
+    if (origin === null) {
+      return this.vary("Origin");
+    }
+
     // Smart default: credentials true if origin is specific
     // But NEVER allow credentials with wildcard (browsers reject it)
     const allowCredentials = credentials ?? origin !== "*";
@@ -162,21 +655,62 @@ export class HeadersBuilder {
       );
     }
 
-    this.headers["Access-Control-Allow-Origin"] = origin;
-    this.headers["Access-Control-Allow-Methods"] = methods.join(", ");
-    this.headers["Access-Control-Allow-Headers"] = headers.join(", ");
+    this.headers.set("Access-Control-Allow-Origin", origin);
+    this.headers.set("Access-Control-Allow-Methods", methods.join(", "));
+    this.headers.set("Access-Control-Allow-Headers", headers.join(", "));
 
     if (allowCredentials) {
-      this.headers["Access-Control-Allow-Credentials"] = "true";
+      this.headers.set("Access-Control-Allow-Credentials", "true");
     }
 
-    this.headers["Access-Control-Max-Age"] = maxAge.toString();
+    this.headers.set("Access-Control-Max-Age", maxAge.toString());
+
+    return this;
+  }
+
+  /**
+   * Set Content-Security-Policy from a raw string or a CspBuilder
+   * Report-only policies are written to Content-Security-Policy-Report-Only
+   * @example
+   * headers().csp("default-src 'self'").build()
+   *
+   * headers().csp(buildCsp().add("default-src", "self").reportOnly()).build()
+   * // Returns: { "Content-Security-Policy-Report-Only": "default-src 'self'" }
+   */
+  csp(policy: string | CspBuilder): HeadersBuilder {
+    if (typeof policy === "string") {
+      this.headers.set("Content-Security-Policy", policy);
+    } else {
+      for (const [name, value] of Object.entries(policy.build())) {
+        this.headers.set(name, value);
+      }
+    }
+    return this;
+  }
 
+  /**
+   * Set CORS headers for the incoming request from a CorsPolicy
+   * Disallowed origins get no Access-Control-Allow-Origin, only Vary: Origin
+   * @example
+   * const policy = buildCorsPolicy({ origins: ["*.example.com"] });
+   * headers().contentType("json").corsFor(req, policy).build()
+   */
+  corsFor(req: Request, policy: CorsPolicy): HeadersBuilder {
+    const { Vary: vary, ...cors } = policy.headersFor(req);
+    if (vary) {
+      this.vary(vary);
+    }
+    for (const [name, value] of Object.entries(cors)) {
+      this.headers.set(name, value);
+    }
     return this;
   }
 
   /**
    * Set security headers
+   * Defaults: HSTS (one year, includeSubDomains), nosniff,
+   * X-Frame-Options SAMEORIGIN and Referrer-Policy
+   * strict-origin-when-cross-origin
    * @example
    * // Default security headers
    * headers().security().build()
@@ -186,54 +720,361 @@ export class HeadersBuilder {
    *   csp: "default-src 'self'",
    *   hsts: 31536000
    * }).build()
+   *
+   * // Structured CSP
+   * headers().security({
+   *   csp: buildCsp().add("default-src", "self").nonce()
+   * }).build()
+   *
+   * // Cross-origin policies and feature permissions
+   * headers().security({
+   *   hsts: { maxAge: 63072000, preload: true },
+   *   coop: "same-origin",
+   *   corp: "same-site",
+   *   permissionsPolicy: { camera: "none", geolocation: ["self"] },
+   * }).build()
    */
-  security(options?: {
-    csp?: string;
-    hsts?: boolean | number;
-    noSniff?: boolean;
-    frameOptions?: "DENY" | "SAMEORIGIN" | string;
-    xssProtection?: boolean;
-  }): HeadersBuilder {
-    const opts = {
+  security(options?: HeadersSecurityOptions): HeadersBuilder {
+    const opts: HeadersSecurityOptions = {
       hsts: true,
       noSniff: true,
-      frameOptions: "SAMEORIGIN" as const,
-      xssProtection: true,
+      frameOptions: "SAMEORIGIN",
+      referrerPolicy: "strict-origin-when-cross-origin",
       ...options,
     };
 
     if (opts.csp) {
-      this.headers["Content-Security-Policy"] = opts.csp;
+      this.csp(opts.csp);
     }
 
     if (opts.hsts) {
-      const maxAge = typeof opts.hsts === "number" ? opts.hsts : 31536000;
-      this.headers["Strict-Transport-Security"] =
-        `max-age=${maxAge}; includeSubDomains`;
+      this.hsts(
+        typeof opts.hsts === "number"
+          ? { maxAge: opts.hsts }
+          : opts.hsts === true
+            ? {}
+            : opts.hsts
+      );
     }
 
     if (opts.noSniff) {
-      this.headers["X-Content-Type-Options"] = "nosniff";
+      this.headers.set("X-Content-Type-Options", "nosniff");
     }
 
     if (opts.frameOptions) {
-      this.headers["X-Frame-Options"] = opts.frameOptions;
+      this.headers.set("X-Frame-Options", opts.frameOptions);
     }
 
     if (opts.xssProtection) {
-      this.headers["X-XSS-Protection"] = "1; mode=block";
+      this.headers.set("X-XSS-Protection", "1; mode=block");
+    }
+
+    if (opts.coop) {
+      this.headers.set("Cross-Origin-Opener-Policy", opts.coop);
+    }
+
+    if (opts.coep) {
+      this.headers.set("Cross-Origin-Embedder-Policy", opts.coep);
+    }
+
+    if (opts.corp) {
+      this.headers.set("Cross-Origin-Resource-Policy", opts.corp);
+    }
+
+    if (opts.referrerPolicy) {
+      // A list lets older browsers fall back to a policy they support
+      this.headers.set(
+        "Referrer-Policy",
+        [opts.referrerPolicy].flat().join(", ")
+      );
+    }
+
+    if (opts.permissionsPolicy) {
+      this.permissionsPolicy(opts.permissionsPolicy);
+    }
+
+    if (opts.permittedCrossDomainPolicies) {
+      this.headers.set(
+        "X-Permitted-Cross-Domain-Policies",
+        opts.permittedCrossDomainPolicies
+      );
+    }
+
+    if (opts.originAgentCluster !== undefined) {
+      this.headers.set(
+        "Origin-Agent-Cluster",
+        opts.originAgentCluster ? "?1" : "?0"
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Set Strict-Transport-Security
+   * Preload requires a max-age of at least one year and includeSubDomains
+   * @example
+   * headers().hsts({ maxAge: 63072000, preload: true }).build()
+   * // Returns: { "Strict-Transport-Security": "max-age=63072000; includeSubDomains; preload" }
+   */
+  hsts(options?: HeadersHstsOptions): HeadersBuilder {
+    this.headers.set("Strict-Transport-Security", serializeHsts(options));
+    return this;
+  }
+
+  /**
+   * Set Permissions-Policy from a feature allowlist
+   * @example
+   * headers().permissionsPolicy({
+   *   camera: "none",
+   *   microphone: "none",
+   *   geolocation: ["self", "https://maps.example.com"],
+   * }).build()
+   * // Returns: { "Permissions-Policy": 'camera=(), microphone=(), geolocation=(self "https://maps.example.com")' }
+   */
+  permissionsPolicy(policy: HeadersPermissionsPolicy): HeadersBuilder {
+    this.headers.set("Permissions-Policy", serializePermissionsPolicy(policy));
+    return this;
+  }
+
+  /**
+   * Add Server-Timing metrics for browser devtools, combined with any
+   * existing metrics
+   * Only sent in development, or in production when the request carries
+   * the trusted header
+   * @example
+   * headers().serverTiming(timing).build()
+   * // Returns: { "Server-Timing": 'db;dur=53.2;desc="Primary DB", render;dur=3.1' }
+   *
+   * // Production: only for requests from the internal debug proxy
+   * headers().serverTiming(timing, {
+   *   request: req,
+   *   trustedHeader: ["X-Debug-Timing", Bun.env.TIMING_SECRET!],
+   * })
+   */
+  serverTiming(
+    timing: ServerTiming | HeadersServerTimingMetric[],
+    options: HeadersServerTimingOptions = {}
+  ): HeadersBuilder {
+    if (!isServerTimingEnabled(options)) {
+      return this;
+    }
+    const value =
+      timing instanceof ServerTiming
+        ? timing.toString()
+        : serializeServerTiming(timing);
+    if (value) {
+      this.headers.append("Server-Timing", value);
+    }
+    return this;
+  }
+
+  /**
+   * Set Timing-Allow-Origin, exposing detailed Resource Timing (and
+   * Server-Timing) of this response to the given origins, "*" by default
+   * @example
+   * headers().timingAllowOrigin("https://app.example.com").build()
+   * // Returns: { "Timing-Allow-Origin": "https://app.example.com" }
+   */
+  timingAllowOrigin(...origins: string[]): HeadersBuilder {
+    const values = origins.length > 0 ? origins : ["*"];
+    for (const origin of values) {
+      if (origin === "*") continue;
+      let parsed: string;
+      try {
+        parsed = new URL(origin).origin;
+      } catch {
+        parsed = "null";
+      }
+      if (parsed === "null" || parsed !== origin) {
+        throw new Error(`Timing-Allow-Origin: "${origin}" is not an origin.`);
+      }
+    }
+    this.headers.set("Timing-Allow-Origin", values.join(", "));
+    return this;
+  }
+
+  /**
+   * Add Link headers (RFC 8288) for resource hints, combined with any
+   * existing links
+   * @example
+   * commonHeaders.html()
+   *   .link(
+   *     { href: "https://cdn.example.com", rel: "preconnect", crossorigin: true },
+   *     { href: "/app.css", rel: "preload", as: "style" },
+   *     { href: "/app.js", rel: "modulepreload" },
+   *     { href: "/inter.woff2", rel: "preload", as: "font", type: "font/woff2", crossorigin: true },
+   *   )
+   *   .build()
+   * // Returns: { ..., "Link": "<https://cdn.example.com>; rel=preconnect; crossorigin, </app.css>; rel=preload; as=style, ..." }
+   */
+  link(...links: HeadersLink[]): HeadersBuilder {
+    for (const link of links) {
+      this.headers.append("Link", serializeLink(link));
     }
+    return this;
+  }
 
+  /**
+   * Make the page cross-origin isolated (COOP same-origin + COEP), which
+   * enables SharedArrayBuffer and high-resolution timers
+   * "credentialless" loads cross-origin resources without CORP headers
+   * by stripping their credentials
+   * @example
+   * headers().contentType("html").crossOriginIsolated().build()
+   * // Returns: { ..., "Cross-Origin-Opener-Policy": "same-origin",
+   * //   "Cross-Origin-Embedder-Policy": "require-corp" }
+   */
+  crossOriginIsolated(
+    coep: Exclude<HeadersCoep, "unsafe-none"> = "require-corp"
+  ): HeadersBuilder {
+    this.headers.set("Cross-Origin-Opener-Policy", "same-origin");
+    this.headers.set("Cross-Origin-Embedder-Policy", coep);
     return this;
   }
 
   /**
-   * Add custom header
+   * Set Reporting-Endpoints, the named URLs that browsers deliver
+   * reports to (CSP violations, COOP/COEP, Permissions-Policy, ...)
+   * @example
+   * headers().reportingEndpoints({
+   *   "csp-endpoint": "https://example.com/reports/csp",
+   *   default: "https://example.com/reports",
+   * }).build()
+   * // Returns: { "Reporting-Endpoints": 'csp-endpoint="https://example.com/reports/csp", default="https://example.com/reports"' }
+   */
+  reportingEndpoints(endpoints: Record<string, string>): HeadersBuilder {
+    this.headers.set(
+      "Reporting-Endpoints",
+      serializeReportingEndpoints(endpoints)
+    );
+    return this;
+  }
+
+  /**
+   * Add legacy Report-To groups, still required by NEL and older
+   * Chromium versions
+   * @example
+   * headers().reportTo({
+   *   group: "nel",
+   *   maxAge: 86400,
+   *   endpoints: ["https://example.com/reports/nel"],
+   * }).build()
+   */
+  reportTo(...groups: HeadersReportToGroup[]): HeadersBuilder {
+    this.headers.append("Report-To", serializeReportTo(groups));
+    return this;
+  }
+
+  /**
+   * Set a Network Error Logging policy, reporting to a Report-To group
+   * @example
+   * headers()
+   *   .reportTo({ group: "nel", maxAge: 86400, endpoints: [collectorUrl] })
+   *   .nel({ reportTo: "nel", maxAge: 86400, failureFraction: 1 })
+   *   .build()
+   */
+  nel(options: HeadersNelOptions): HeadersBuilder {
+    this.headers.set("NEL", serializeNel(options));
+    return this;
+  }
+
+  /**
+   * Configure report delivery and wire it into the reporting-capable
+   * headers: CSP gets report-to, COOP/COEP get a report-to parameter and
+   * every Permissions-Policy feature a report-to parameter. Applied at
+   * build() time, so the order of calls doesn't matter and explicit
+   * report-to values are kept
+   * @example
+   * headers()
+   *   .security({ csp: "default-src 'self'" })
+   *   .reporting({
+   *     endpoints: { "csp-endpoint": "https://example.com/reports/csp" },
+   *     csp: "csp-endpoint",
+   *   })
+   *   .build()
+   * // Content-Security-Policy: default-src 'self'; report-to csp-endpoint
+   */
+  reporting(options: HeadersReportingOptions): HeadersBuilder {
+    const { endpoints, legacy, ...groups } = options;
+
+    this.reportingEndpoints(endpoints);
+    if (legacy !== undefined) {
+      this.reportTo(
+        ...Object.entries(endpoints).map(([group, url]) => ({
+          group,
+          maxAge: legacy,
+          endpoints: [url],
+        }))
+      );
+    }
+
+    for (const [header, group] of Object.entries(groups)) {
+      if (group && !(group in endpoints)) {
+        throw new Error(
+          `Reporting: ${header} reports to "${group}", which is not an endpoint.`,
+        );
+      }
+    }
+
+    this.reportingGroups = { ...this.reportingGroups, ...groups };
+    return this;
+  }
+
+  /**
+   * Add custom header, replacing any existing value (case-insensitive)
    * @example
    * headers().custom("X-API-Version", "v2").build()
    */
   custom(name: string, value: string): HeadersBuilder {
-    this.headers[name] = value;
+    this.headers.set(name, value);
+    return this;
+  }
+
+  /**
+   * Set a Structured Field (RFC 9651) header, validating every key and value
+   * Arrays are Lists and plain objects Dictionaries unless a type is given
+   * @example
+   * headers().structured("Priority", { u: 1, i: true }).build()
+   * // Returns: { Priority: "u=1, i" }
+   *
+   * headers()
+   *   .structured("Accept-CH", [new SfToken("Sec-CH-UA-Platform"), new SfToken("DPR")])
+   *   .structured("Cache-Status", [{ value: new SfToken("edge"), params: { hit: true } }])
+   *   .build()
+   * // Returns: { "Accept-CH": "Sec-CH-UA-Platform, DPR", "Cache-Status": "edge;hit" }
+   */
+  structured(
+    name: string,
+    value: HeadersSfItemInput | HeadersSfListInput | HeadersSfDictionaryInput,
+    type?: HeadersSfType
+  ): HeadersBuilder {
+    this.headers.set(name, serializeStructuredField(value, type));
+    return this;
+  }
+
+  /**
+   * Append a value to a header instead of replacing it
+   * Set-Cookie values stay on separate lines, other headers are comma-joined
+   * @example
+   * headers()
+   *   .append("Link", "</app.js>; rel=preload; as=script")
+   *   .append("Link", "</app.css>; rel=preload; as=style")
+   *   .build()
+   * // Returns: { "Link": "</app.js>; rel=preload; as=script, </app.css>; rel=preload; as=style" }
+   */
+  append(name: string, value: string): HeadersBuilder {
+    this.headers.append(name, value);
+    return this;
+  }
+
+  /**
+   * Remove a header (case-insensitive)
+   * @example
+   * HeadersBuilder.from(upstream).remove("X-Powered-By").build()
+   */
+  remove(name: string): HeadersBuilder {
+    this.headers.delete(name);
     return this;
   }
 
@@ -246,21 +1087,28 @@ export class HeadersBuilder {
    * }).build()
    */
   customHeaders(headers: Record<string, string>): HeadersBuilder {
-    Object.assign(this.headers, headers);
+    for (const [name, value] of Object.entries(headers)) {
+      this.headers.set(name, value);
+    }
     return this;
   }
 
   /**
-   * Add Vary header
+   * Add Vary header, skipping fields that are already listed
    * @example
    * headers().vary("Accept-Encoding", "User-Agent").build()
    */
   vary(...fields: string[]): HeadersBuilder {
-    const existing = this.headers["Vary"];
-    const newFields = existing
-      ? `${existing}, ${fields.join(", ")}`
-      : fields.join(", ");
-    this.headers["Vary"] = newFields;
+    const existing = (this.headers.get("Vary") ?? "")
+      .split(",")
+      .map((field) => field.trim().toLowerCase());
+
+    for (const field of fields) {
+      if (!existing.includes(field.toLowerCase())) {
+        this.headers.append("Vary", field);
+        existing.push(field.toLowerCase());
+      }
+    }
     return this;
   }
 
@@ -269,39 +1117,451 @@ export class HeadersBuilder {
    * @example
    * headers().compress("gzip").build()
    */
-  compress(encoding?: "gzip" | "br" | "deflate"): HeadersBuilder {
+  compress(encoding?: HeadersContentEncoding): HeadersBuilder {
     if (encoding) {
-      this.headers["Content-Encoding"] = encoding;
+      this.headers.set("Content-Encoding", encoding);
+    }
+    return this;
+  }
+
+  /**
+   * Negotiate Content-Type, Content-Encoding and Content-Language from the
+   * request's Accept headers, set the chosen values and the matching Vary
+   * fields. When nothing is acceptable, nothing is set and the result
+   * carries a ready 406 response.
+   * @example
+   * const h = headers().cache("API_RESPONSE");
+   * const result = h.negotiate(req, {
+   *   types: ["json", "csv", "xml"],
+   *   encodings: ["br", "gzip"],
+   * });
+   * if (result.response) return result.response; // 406
+   * return new Response(render(data, result.type), { headers: h.build() });
+   */
+  negotiate<T extends HeadersContentTypeInput>(
+    req: Request,
+    options: HeadersNegotiationOptions<T>
+  ): HeadersNegotiationResult<T> {
+    const result = negotiate(req, options);
+
+    if (result.vary.length > 0) {
+      this.vary(...result.vary);
+    }
+
+    if (!result.acceptable) {
+      return {
+        ...result,
+        response: new Response(null, {
+          status: 406,
+          headers: this.buildHeaders(),
+        }),
+      };
+    }
+
+    if (result.type) {
+      this.contentType(result.type);
+    }
+    if (result.encoding && result.encoding !== "identity") {
+      this.compress(result.encoding);
+    }
+    if (result.language) {
+      this.headers.set("Content-Language", result.language);
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate the request's conditional headers (If-Match, If-None-Match,
+   * If-Modified-Since, If-Unmodified-Since) against this builder's
+   * ETag and Last-Modified
+   * @example
+   * const h = headers().eTag(content).lastModified(updatedAt);
+   * const result = h.evaluateConditional(req);
+   * if (result.response) return result.response; // 304 or 412
+   * return new Response(content, { headers: h.build() });
+   */
+  evaluateConditional(req: Request): HeadersConditionalResult<Headers> {
+    return evaluatePreconditions(
+      req,
+      {
+        etag: this.headers.get("ETag"),
+        lastModified: this.headers.get("Last-Modified"),
+      },
+      this.buildHeaders()
+    );
+  }
+
+  /**
+   * Evaluate the request's Range header for content of the given size
+   * If-Range is checked against this builder's ETag and Last-Modified
+   * @example
+   * const file = Bun.file("./movie.mp4");
+   * const result = headers().filePath("movie.mp4").evaluateRange(req, file.size);
+   * return new Response(rangeBody(file, result), {
+   *   status: result.status, // 200, 206 or 416
+   *   headers: result.headers,
+   * });
+   */
+  evaluateRange(req: Request, size: number): HeadersRangeResult<Headers> {
+    return evaluateRange(
+      req,
+      size,
+      {
+        etag: this.headers.get("ETag"),
+        lastModified: this.headers.get("Last-Modified"),
+      },
+      this.buildHeaders()
+    );
+  }
+
+  /**
+   * Require headers to be set before building, build() throws when one
+   * is missing. With typedHeaders() a missing header is a type error
+   * @example
+   * const base = headers().security().requires("Content-Type");
+   * base.clone().build();
+   * // Throws: Headers: "Content-Type" is required but was not set.
+   */
+  requires(...names: string[]): HeadersBuilder {
+    for (const name of names) {
+      const key = name.toLowerCase();
+      if (!this.required.some((item) => item.toLowerCase() === key)) {
+        this.required.push(name);
+      }
     }
     return this;
   }
 
   /**
    * Build the headers object
+   * Multi-value headers are comma-joined; with several Set-Cookie values
+   * use buildHeaders() or buildEntries() to keep them on separate lines
    * @example
    * const headers = headers().contentType("json").build()
    */
   build(content?: string | ArrayBuffer | Uint8Array): Record<string, string> {
-    const result = { ...this.headers };
+    return this.resolve(content).toRecord();
+  }
+
+  /**
+   * Build the headers for a 103 Early Hints response: the preload,
+   * modulepreload and preconnect links of this builder
+   * @example
+   * // Node.js
+   * const page = commonHeaders.html().link({ href: "/app.css", rel: "preload", as: "style" });
+   * res.writeEarlyHints({ link: page.buildEarlyHints().Link });
+   * // ...render, then send the final response with page.build()
+   */
+  buildEarlyHints(): Record<string, string> {
+    const links = earlyHintLinks(this.headers.get("Link") ?? "");
+    return links ? { Link: links } : {};
+  }
+
+  /**
+   * Build as header lines, keeping every Set-Cookie on its own line
+   * Accepted anywhere HeadersInit is
+   * @example
+   * new Response(body, { headers: headers().buildEntries() })
+   */
+  buildEntries(
+    content?: string | ArrayBuffer | Uint8Array
+  ): [string, string][] {
+    return this.resolve(content).toEntries();
+  }
+
+  /**
+   * Final header set with build-time values (report-to wiring, Expires,
+   * Content-Length)
+   */
+  private resolve(content?: string | ArrayBuffer | Uint8Array): HeaderStore {
+    for (const name of this.required) {
+      if (!this.headers.has(name)) {
+        throw new Error(`Headers: "${name}" is required but was not set.`);
+      }
+    }
+
+    const result = this.headers.clone();
+
+    applyReportingGroups(result, this.reportingGroups);
+
+    const expires = this.resolveExpires();
+    if (expires) {
+      result.set("Expires", expires);
+    }
 
     // Auto-set Content-Length if content provided and not already set
-    if (content && !result["Content-Length"]) {
+    if (content && !result.has("Content-Length")) {
       const length =
         typeof content === "string"
           ? new TextEncoder().encode(content).length
           : content.byteLength;
-      result["Content-Length"] = length.toString();
+      result.set("Content-Length", length.toString());
     }
 
     return result;
   }
 
+  private resolveExpires(): string | undefined {
+    const mode = this.expiresMode;
+
+    if (mode instanceof Date) {
+      return mode.toUTCString();
+    }
+    if (mode === "past") {
+      return new Date(0).toUTCString();
+    }
+    if (mode === "max-age") {
+      const match = /(?:^|,)\s*max-age=(\d+)/.exec(
+        this.headers.get("Cache-Control") ?? ""
+      );
+      if (match) {
+        return new Date(
+          this.now().getTime() + Number(match[1]) * 1000
+        ).toUTCString();
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Build as Web API Headers object
    * @example
    * const headers = headers().contentType("json").buildHeaders()
    */
   buildHeaders(content?: string | ArrayBuffer | Uint8Array): Headers {
-    return new Headers(this.build(content));
+    const headers = new Headers();
+    for (const [name, value] of this.buildEntries(content)) {
+      headers.append(name, value);
+    }
+    return headers;
+  }
+
+  /**
+   * Create a Response with this builder's status and headers
+   * Content-Length is computed for string, buffer and Blob bodies, and
+   * HEAD requests get the headers without the body
+   * @example
+   * headers().contentType("csv").cache("ONE_HOUR").response(csv)
+   *
+   * headers().redirect("/login", 303).response()
+   *
+   * // Pass the request to answer HEAD
+   * headers().contentType("txt").response(body, { request: req })
+   */
+  response(
+    body: HeadersResponseBody = null,
+    init: HeadersResponseInit = {}
+  ): Response {
+    const status = init.status ?? this.statusCode ?? 200;
+    if (body != null && NULL_BODY_STATUSES.includes(status)) {
+      throw new Error(`Headers: A ${status} response can't have a body.`);
+    }
+
+    const content =
+      typeof body === "string" ||
+      body instanceof ArrayBuffer ||
+      body instanceof Uint8Array
+        ? body
+        : undefined;
+    const resolved = this.resolve(content);
+    if (body instanceof Blob && !resolved.has("Content-Length")) {
+      resolved.set("Content-Length", body.size.toString());
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of resolved.toEntries()) {
+      headers.append(name, value);
+    }
+
+    const isHead = init.request?.method.toUpperCase() === "HEAD";
+    if (isHead && body instanceof ReadableStream) {
+      void body.cancel();
+    }
+    return new Response(isHead ? null : body, {
+      status,
+      statusText: init.statusText,
+      headers,
+    });
+  }
+
+  /**
+   * JSON response, Content-Type defaults to application/json
+   * @example
+   * headers().cache("API_RESPONSE").json(users)
+   * headers().status(201).json(created, { request: req })
+   */
+  json(data: unknown, init?: HeadersResponseInit): Response {
+    const body = JSON.stringify(data);
+    if (body === undefined) {
+      throw new Error("Headers: JSON response data is not serializable.");
+    }
+    return this.withDefaultType("application/json").response(body, init);
+  }
+
+  /**
+   * Plain text response, Content-Type defaults to text/plain
+   */
+  text(body: string, init?: HeadersResponseInit): Response {
+    return this.withDefaultType("text/plain; charset=utf-8").response(
+      body,
+      init
+    );
+  }
+
+  /**
+   * HTML response, Content-Type defaults to text/html
+   * @example
+   * headers().cache("HTML_PAGE").security().html(page)
+   */
+  html(body: string, init?: HeadersResponseInit): Response {
+    return this.withDefaultType("text/html; charset=utf-8").response(
+      body,
+      init
+    );
+  }
+
+  /**
+   * Streamed response without Content-Length, Content-Type defaults
+   * to application/octet-stream
+   * @example
+   * headers().mimeType("application/x-ndjson").stream(events)
+   */
+  stream(
+    body: ReadableStream<Uint8Array>,
+    init?: HeadersResponseInit
+  ): Response {
+    return this.withDefaultType("application/octet-stream").response(
+      body,
+      init
+    );
+  }
+
+  /**
+   * 204 No Content response
+   * @example
+   * headers().cors({ origin }).noContent()
+   */
+  noContent(init?: Omit<HeadersResponseInit, "status">): Response {
+    return this.response(null, { ...init, status: 204 });
+  }
+
+  /**
+   * Problem details response (RFC 9457), application/problem+json or
+   * +xml with Cache-Control: no-store
+   * CORS, security and other headers of this builder are kept, so
+   * browsers can read the error, while representation headers (ETag,
+   * Last-Modified, Content-Encoding...) are dropped
+   * The status defaults to the builder's status when it is 4xx or 5xx,
+   * otherwise to 500
+   * @example
+   * const base = buildHeaders().security().corsFor(req, cors);
+   *
+   * base.problem<{ balance: number }>({
+   *   type: "https://example.com/probs/out-of-credit",
+   *   title: "You do not have enough credit.",
+   *   status: 403,
+   *   balance: 30,
+   * })
+   *
+   * base.problem({ status: 404 }, { format: "xml", request: req })
+   */
+  problem<E extends Record<string, unknown> = {}>(
+    details: HeadersProblemDetails<E>,
+    init: HeadersProblemInit = {}
+  ): Response {
+    const fallback =
+      this.statusCode !== undefined && this.statusCode >= 400
+        ? this.statusCode
+        : 500;
+    return this.problemResponse(details.status ?? fallback, details, init);
+  }
+
+  /**
+   * 429 Too Many Requests problem with Retry-After, in seconds or
+   * as a date
+   * @example
+   * base.tooManyRequests(30, { detail: "Limit of 100 requests per minute" })
+   */
+  tooManyRequests<E extends Record<string, unknown> = {}>(
+    retryAfter: number | Date,
+    details?: HeadersProblemDetails<E>,
+    init?: HeadersProblemInit
+  ): Response {
+    let value: string;
+    if (retryAfter instanceof Date) {
+      value = retryAfter.toUTCString();
+    } else if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+      value = Math.ceil(retryAfter).toString();
+    } else {
+      throw new Error(`Headers: Invalid Retry-After ${retryAfter}.`);
+    }
+
+    return this.clone()
+      .custom("Retry-After", value)
+      .problemResponse(429, details, init);
+  }
+
+  /**
+   * 405 Method Not Allowed problem with the Allow header listing the
+   * methods the resource supports
+   * @example
+   * base.methodNotAllowed(["GET", "HEAD"])
+   * // Allow: GET, HEAD
+   */
+  methodNotAllowed<E extends Record<string, unknown> = {}>(
+    methods: string[],
+    details?: HeadersProblemDetails<E>,
+    init?: HeadersProblemInit
+  ): Response {
+    const allowed = [...new Set(methods.map((m) => m.trim().toUpperCase()))];
+    for (const method of allowed) {
+      if (!/^[!#$%&'*+\-.^_`|~0-9A-Z]+$/.test(method)) {
+        throw new Error(`Headers: Invalid method "${method}".`);
+      }
+    }
+
+    return this.clone()
+      .custom("Allow", allowed.join(", "))
+      .problemResponse(405, details, init);
+  }
+
+  /**
+   * Problem response with the given status, see problem()
+   */
+  private problemResponse(
+    status: number,
+    details: HeadersProblemDetails = {},
+    init: HeadersProblemInit = {}
+  ): Response {
+    const { format = "json", ...responseInit } = init;
+    const body = serializeProblem({ ...details, status }, format);
+
+    const builder = this.clone();
+    for (const name of PROBLEM_DROPPED_HEADERS) {
+      builder.headers.delete(name);
+    }
+    // The dropped headers describe the success representation, so a
+    // route requiring them can still answer with a problem
+    builder.required = builder.required.filter(
+      (name) =>
+        !PROBLEM_DROPPED_HEADERS.some(
+          (dropped) => dropped.toLowerCase() === name.toLowerCase()
+        )
+    );
+    return builder
+      .mimeType(PROBLEM_MIME_TYPES[format])
+      .cache("NO_CACHE")
+      .response(body, { ...responseInit, status });
+  }
+
+  /**
+   * Copy of this builder with a Content-Type unless one is already set
+   */
+  private withDefaultType(mimeType: string): HeadersBuilder {
+    const builder = this.clone();
+    return builder.headers.has("Content-Type")
+      ? builder
+      : builder.mimeType(mimeType);
   }
 }
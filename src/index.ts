@@ -1,5 +1,189 @@
-export type { HeadersCacheStrategy, HeadersContentTypeInput } from "./types";
-export { buildHeaders, quickHeaders } from "./factory";
+export type {
+  HeadersCacheStrategy,
+  HeadersContentTypeInput,
+  HeadersConditionalVerdict,
+  HeadersConditionalValidators,
+  HeadersConditionalResult,
+  HeadersFields,
+  HeadersCspDirective,
+  HeadersCspKeyword,
+  HeadersCspSource,
+  HeadersCspHashAlgorithm,
+  HeadersCorsOrigin,
+  HeadersCorsPolicyOptions,
+  HeadersCorsPreflightResult,
+  HeadersByteRange,
+  HeadersRangePart,
+  HeadersRangeResult,
+  HeadersContentEncoding,
+  HeadersAcceptEntry,
+  HeadersNegotiationOptions,
+  HeadersNegotiationResult,
+  HeadersCacheControl,
+  HeadersCacheControlTarget,
+  HeadersExpiresMode,
+  HeadersBuilderOptions,
+  HeadersETag,
+  HeadersContentType,
+  HeadersCorsFields,
+  HeadersParsedCsp,
+  HeadersInput,
+  HeadersParsed,
+  HeadersCookieSameSite,
+  HeadersCookieOptions,
+  HeadersMimeEntry,
+  HeadersMimeInfo,
+  HeadersSniffResult,
+  HeadersETagAlgorithm,
+  HeadersETagSource,
+  HeadersETagOptions,
+  HeadersServeFileOptions,
+  HeadersReportToGroup,
+  HeadersNelOptions,
+  HeadersReportingGroups,
+  HeadersReportingOptions,
+  HeadersReport,
+  HeadersCspViolation,
+  HeadersNetworkError,
+  HeadersPermissionsPolicyViolation,
+  HeadersCrossOriginViolation,
+  HeadersDeprecationReport,
+  HeadersReportBodies,
+  HeadersHstsOptions,
+  HeadersPermissionsFeature,
+  HeadersPermissionsAllowlist,
+  HeadersPermissionsPolicy,
+  HeadersReferrerPolicy,
+  HeadersCoop,
+  HeadersCoep,
+  HeadersCorp,
+  HeadersSecurityOptions,
+  HeadersAuditSeverity,
+  HeadersAuditGrade,
+  HeadersAuditFinding,
+  HeadersAuditOptions,
+  HeadersAuditResult,
+  HeadersSfBareItem,
+  HeadersSfParameters,
+  HeadersSfItem,
+  HeadersSfInnerList,
+  HeadersSfMember,
+  HeadersSfList,
+  HeadersSfDictionary,
+  HeadersSfItemInput,
+  HeadersSfMemberInput,
+  HeadersSfListInput,
+  HeadersSfDictionaryInput,
+  HeadersSfType,
+  HeadersLinkRel,
+  HeadersLinkAs,
+  HeadersLink,
+  HeadersParsedLink,
+  HeadersServerTimingMetric,
+  HeadersServerTimingOptions,
+  HeadersMergeStrategy,
+  HeadersMergeOptions,
+  HeadersPolicy,
+  HeadersTracked,
+  HeadersMissing,
+  HeadersTypedBuilder,
+  HeadersRedirectStatus,
+  HeadersResponseBody,
+  HeadersResponseInit,
+  HeadersProblemDetails,
+  HeadersProblemFormat,
+  HeadersProblemInit,
+  HeadersMiddlewareOptions,
+  HeadersNodeRequest,
+  HeadersNodeResponse,
+  HeadersExpressResponse,
+  HeadersHonoContext,
+  HeadersElysiaContext,
+} from "./types";
+export { HeadersBuilder } from "./headers-builder";
+export {
+  buildHeaders,
+  buildCsp,
+  buildCorsPolicy,
+  buildServerTiming,
+  definePolicy,
+  typedHeaders,
+  quickHeaders,
+} from "./factory";
 export { commonHeaders } from "./presets";
-export { hashContent, getCorsOrigin } from "./utils";
-export { getMimeType } from "./mime-types";
+export { hashContent, getCorsOrigin, canonicalHeaderName } from "./utils";
+export {
+  getMimeType,
+  parseContentType,
+  lookupMimeType,
+  getMimeInfo,
+  isCompressible,
+  getExtension,
+  registerMimeType,
+  getFileExtension,
+} from "./mime-types";
+export { sniffMimeType, detectContentType } from "./sniff";
+export {
+  evaluatePreconditions,
+  parseETagList,
+  parseETag,
+  compareETags,
+} from "./conditional";
+export { CspBuilder, parseCsp } from "./csp";
+export { CorsPolicy, matchCorsOrigin } from "./cors";
+export { parseRange, evaluateRange, rangeBody } from "./range";
+export {
+  parseAccept,
+  negotiate,
+  negotiateContentType,
+  negotiateEncoding,
+  negotiateLanguage,
+} from "./negotiation";
+export {
+  serializeCacheControl,
+  mergeCacheControl,
+  validateCacheControl,
+  parseCacheControl,
+} from "./cache-control";
+export { parseHeaders, toHeadersRecord } from "./parse";
+export { serializeCookie, parseCookies } from "./cookies";
+export { generateETag, generateETagSync, weakETag } from "./etag";
+export { cacheStrategyFor } from "./cache-strategies";
+export { serveFile } from "./serve-file";
+export {
+  serializeReportingEndpoints,
+  serializeReportTo,
+  serializeNel,
+  parseReports,
+  readReports,
+  isReport,
+} from "./reporting";
+export { serializeHsts, serializePermissionsPolicy } from "./security";
+export { auditHeaders } from "./audit";
+export {
+  SfToken,
+  SfDecimal,
+  SfDisplayString,
+  serializeSfItem,
+  serializeSfList,
+  serializeSfDictionary,
+  serializeStructuredField,
+  parseSfItem,
+  parseSfList,
+  parseSfDictionary,
+  parseStructuredField,
+} from "./structured-fields";
+export { serializeLink, parseLinks } from "./link";
+export {
+  ServerTiming,
+  serializeServerTiming,
+  parseServerTiming,
+} from "./server-timing";
+export { serializeProblem } from "./problem";
+export {
+  withHeaders,
+  honoHeaders,
+  elysiaHeaders,
+  expressHeaders,
+  nodeHeaders,
+} from "./middleware";
@@ -0,0 +1,216 @@
+import type { HeadersLink, HeadersParsedLink } from "./types";
+
+/**
+ * RFC 9110 token characters, parameter values that can go unquoted
+ */
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Characters percent-encoded in a URI reference: anything outside
+ * printable ASCII and the delimiters that would end or confuse <...>
+ */
+const UNSAFE_URI_CHARS = /[^\x21-\x7e]|[<>"\\^`{|}]/gu;
+
+/**
+ * Relations browsers act on in a 103 Early Hints response
+ */
+const EARLY_HINT_RELS = ["preload", "modulepreload", "preconnect"];
+
+function escapeUri(href: string): string {
+  return href.replace(UNSAFE_URI_CHARS, (char) => encodeURIComponent(char));
+}
+
+function serializeParam(name: string, value: string | true): string {
+  if (!TOKEN.test(name)) {
+    throw new Error(`Link: Invalid parameter name "${name}".`);
+  }
+  if (value === true) {
+    return name;
+  }
+
+  // Non-ASCII titles use the RFC 8187 extended notation
+  if (name === "title" && /[^\x20-\x7e]/.test(value)) {
+    return `title*=UTF-8''${encodeURIComponent(value).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    )}`;
+  }
+  if (TOKEN.test(value)) {
+    return `${name}=${value}`;
+  }
+  if (/[^\x20-\x7e]/.test(value)) {
+    throw new Error(`Link: Invalid value for "${name}".`);
+  }
+  return `${name}="${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Serialize one Link header value (RFC 8288), escaping the URI and
+ * quoting parameters where needed
+ * Preloads are validated: "as" is required, fonts need crossorigin
+ * and image candidates need as: "image"
+ * @example
+ * serializeLink({ href: "/fonts/inter.woff2", rel: "preload", as: "font",
+ *   type: "font/woff2", crossorigin: true })
+ * // '</fonts/inter.woff2>; rel=preload; as=font; type="font/woff2"; crossorigin'
+ */
+export function serializeLink(link: HeadersLink): string {
+  const { href, rel, crossorigin, params = {}, ...attributes } = link;
+  const rels = (Array.isArray(rel) ? rel : [rel])
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  if (rels.length === 0) {
+    throw new Error(`Link: rel is required for "${href}".`);
+  }
+  if (rels.includes("preload")) {
+    if (!attributes.as) {
+      throw new Error(`Link: Preload of "${href}" requires "as".`);
+    }
+    if (attributes.as === "font" && !crossorigin) {
+      throw new Error(
+        `Link: Font preload of "${href}" requires crossorigin, or the ` +
+          "font is downloaded twice.",
+      );
+    }
+  }
+  if (
+    (attributes.imagesrcset || attributes.imagesizes) &&
+    attributes.as !== "image"
+  ) {
+    throw new Error(
+      `Link: imagesrcset and imagesizes on "${href}" require as: "image".`,
+    );
+  }
+
+  const parts = [
+    `<${escapeUri(href)}>`,
+    serializeParam("rel", rels.join(" ")),
+  ];
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      parts.push(serializeParam(name, value));
+    }
+  }
+  if (crossorigin) {
+    parts.push(
+      crossorigin === "use-credentials"
+        ? "crossorigin=use-credentials"
+        : "crossorigin"
+    );
+  }
+  for (const [name, value] of Object.entries(params)) {
+    parts.push(serializeParam(name.toLowerCase(), value));
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Split a Link header into link-values on commas outside <...> and quotes
+ */
+function splitLinks(value: string): string[] {
+  return (value.match(/(?:<[^>]*>|"(?:\\.|[^"\\])*"|[^,<"])+/g) ?? [])
+    .map((link) => link.trim())
+    .filter(Boolean);
+}
+
+function decodeExtValue(value: string): string | undefined {
+  const match = /^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/.exec(value);
+  if (!match || match[1].toLowerCase() !== "utf-8") {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(match[2]);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseLink(
+  link: string,
+  base?: string | URL
+): HeadersParsedLink | undefined {
+  const match = /^<([^>]*)>(.*)$/s.exec(link);
+  if (!match) {
+    return undefined;
+  }
+
+  let href = match[1].trim();
+  if (base !== undefined) {
+    try {
+      href = new URL(href, base).href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const params: Record<string, string | true> = {};
+  const extended = new Set<string>();
+  for (const [, rawName, rawValue] of match[2].matchAll(
+    /;\s*([^\s=;]+)\s*(?:=\s*("(?:\\.|[^"\\])*"|[^;]*))?/g
+  )) {
+    let name = rawName.toLowerCase();
+    let value: string | true =
+      rawValue === undefined
+        ? true
+        : rawValue.startsWith('"')
+          ? rawValue.slice(1, -1).replace(/\\(.)/g, "$1")
+          : rawValue.trim();
+
+    if (name.endsWith("*") && typeof value === "string") {
+      const decoded = decodeExtValue(value);
+      if (decoded === undefined) continue;
+      name = name.slice(0, -1);
+      value = decoded;
+      if (extended.has(name)) continue;
+      extended.add(name);
+    } else if (name in params) {
+      // Only the first occurrence of a parameter counts
+      continue;
+    }
+    params[name] = value;
+  }
+
+  const rel = params.rel;
+  delete params.rel;
+  return {
+    href,
+    rel:
+      typeof rel === "string"
+        ? rel.toLowerCase().split(/\s+/).filter(Boolean)
+        : [],
+    params,
+  };
+}
+
+/**
+ * Parse a Link header into its links, relative URIs are resolved
+ * when a base URL is given
+ * Malformed link-values are skipped
+ * @example
+ * const res = await fetch("https://api.example.com/items?page=2");
+ * const links = parseLinks(res.headers.get("Link") ?? "", res.url);
+ * links.find((link) => link.rel.includes("next"))?.href;
+ * // "https://api.example.com/items?page=3"
+ */
+export function parseLinks(
+  value: string,
+  base?: string | URL
+): HeadersParsedLink[] {
+  return splitLinks(value)
+    .map((link) => parseLink(link, base))
+    .filter((link): link is HeadersParsedLink => link !== undefined);
+}
+
+/**
+ * Keep the link-values browsers use in 103 Early Hints
+ * (preload, modulepreload and preconnect)
+ * @internal
+ */
+export function earlyHintLinks(value: string): string | undefined {
+  const links = splitLinks(value).filter((link) =>
+    parseLink(link)?.rel.some((rel) => EARLY_HINT_RELS.includes(rel))
+  );
+  return links.length > 0 ? links.join(", ") : undefined;
+}
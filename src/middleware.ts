@@ -0,0 +1,555 @@
+import { evaluatePreconditions } from "./conditional";
+import { HeadersBuilder, LIST_HEADERS } from "./headers-builder";
+import type {
+  HeadersConditionalResult,
+  HeadersElysiaContext,
+  HeadersExpressResponse,
+  HeadersHonoContext,
+  HeadersMiddlewareOptions,
+  HeadersNodeRequest,
+  HeadersNodeResponse,
+  HeadersPolicy,
+} from "./types";
+
+/**
+ * Read and replace all values of one header on a framework's response
+ */
+type HeaderTarget = {
+  get(name: string): string[];
+  set(name: string, values: string[]): void;
+};
+
+type Middleware = {
+  preflight(req: Request): Response | null;
+  apply(req: Request, target: HeaderTarget): void;
+  evaluate(
+    req: Request,
+    status: number,
+    headers: Headers
+  ): HeadersConditionalResult<Headers> | undefined;
+};
+
+function splitTokens(value: string): string[] {
+  return value
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Vary field names from values that aren't listed yet, compared
+ * case-insensitively
+ */
+function missingFields(existing: string[], values: string[]): string[] {
+  const present = existing
+    .flatMap(splitTokens)
+    .map((field) => field.toLowerCase());
+  const missing: string[] = [];
+  for (const field of values.flatMap(splitTokens)) {
+    if (!present.includes(field.toLowerCase())) {
+      present.push(field.toLowerCase());
+      missing.push(field);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Add base values to a header: single-value headers only when the
+ * handler didn't set them, list headers get the values they miss
+ */
+function mergeHeader(target: HeaderTarget, name: string, values: string[]) {
+  const key = name.toLowerCase();
+  const existing = target.get(name);
+
+  if (!LIST_HEADERS.includes(key)) {
+    if (existing.length === 0) {
+      target.set(name, values);
+    }
+    return;
+  }
+
+  // Vary compares field names, the other list headers whole values
+  if (key === "vary") {
+    const missing = missingFields(existing, values);
+    if (missing.length > 0) {
+      target.set(name, [[...existing, ...missing].join(", ")]);
+    }
+    return;
+  }
+
+  const missing = values.filter((value) => !existing.includes(value));
+  if (missing.length > 0) {
+    target.set(name, [...existing, ...missing]);
+  }
+}
+
+function createMiddleware(
+  base: HeadersBuilder | HeadersPolicy,
+  { cors, conditional = true }: HeadersMiddlewareOptions = {}
+): Middleware {
+  const builder =
+    base instanceof HeadersBuilder ? base : HeadersBuilder.fromPolicy(base);
+
+  return {
+    preflight: (req) => cors?.handle(req) ?? null,
+
+    apply(req, target) {
+      const entries = cors
+        ? builder.clone().corsFor(req, cors).buildEntries()
+        : builder.buildEntries();
+
+      const grouped = new Map<string, { name: string; values: string[] }>();
+      for (const [name, value] of entries) {
+        const group = grouped.get(name.toLowerCase());
+        if (group) {
+          group.values.push(value);
+        } else {
+          grouped.set(name.toLowerCase(), { name, values: [value] });
+        }
+      }
+      for (const { name, values } of grouped.values()) {
+        mergeHeader(target, name, values);
+      }
+    },
+
+    evaluate(req, status, headers) {
+      const method = req.method.toUpperCase();
+      const etag = headers.get("ETag") ?? undefined;
+      const lastModified = headers.get("Last-Modified") ?? undefined;
+      if (
+        !conditional ||
+        status !== 200 ||
+        (method !== "GET" && method !== "HEAD") ||
+        (!etag && !lastModified)
+      ) {
+        return undefined;
+      }
+
+      const result = evaluatePreconditions(
+        req,
+        { etag, lastModified },
+        headers
+      );
+      return result.verdict === "proceed" ? undefined : result;
+    },
+  };
+}
+
+function fetchTarget(headers: Headers): HeaderTarget {
+  return {
+    get(name) {
+      if (name.toLowerCase() === "set-cookie") {
+        return headers.getSetCookie();
+      }
+      const value = headers.get(name);
+      return value === null ? [] : [value];
+    },
+    set(name, values) {
+      headers.delete(name);
+      for (const value of values) {
+        headers.append(name, value);
+      }
+    },
+  };
+}
+
+function nodeTarget(res: HeadersNodeResponse): HeaderTarget {
+  return {
+    get(name) {
+      const value = res.getHeader(name);
+      if (value === undefined) return [];
+      return Array.isArray(value) ? value : [String(value)];
+    },
+    set(name, values) {
+      res.setHeader(name, values.length === 1 ? values[0] : values);
+    },
+  };
+}
+
+/**
+ * A fetch Request with the method and headers of a Node request,
+ * which is all CORS and conditional evaluation read
+ * Undefined for methods fetch rejects on Node (TRACE, CONNECT, TRACK)
+ */
+function toRequest(req: HeadersNodeRequest): Request | undefined {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+  try {
+    return new Request(new URL(req.url ?? "/", "http://localhost").href, {
+      method: req.method,
+      headers,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Set the headers passed to writeHead(status, [message], headers) on
+ * the response, as Node would, so they are seen before the response is
+ * prepared, and return the arguments left for writeHead
+ */
+function takeHeadHeaders(
+  res: HeadersNodeResponse,
+  args: unknown[]
+): unknown[] {
+  const index = typeof args[0] === "string" ? 1 : 0;
+  const headers = args[index];
+
+  if (Array.isArray(headers)) {
+    // A flat [name, value, name, value] list, repeated names add values
+    const grouped = new Map<string, { name: string; values: string[] }>();
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      const name = String(headers[i]);
+      const group = grouped.get(name.toLowerCase());
+      if (group) {
+        group.values.push(String(headers[i + 1]));
+      } else {
+        grouped.set(name.toLowerCase(), {
+          name,
+          values: [String(headers[i + 1])],
+        });
+      }
+    }
+    for (const { name, values } of grouped.values()) {
+      res.setHeader(name, values.length === 1 ? values[0] : values);
+    }
+  } else if (typeof headers === "object" && headers !== null) {
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      res.setHeader(
+        name,
+        Array.isArray(value) ? value.map(String) : String(value)
+      );
+    }
+  }
+
+  return args.slice(0, index);
+}
+
+/**
+ * Shared Node and Express handling: preflights are answered right away,
+ * everything else is applied when the handler sends its headers
+ */
+function handleNode(
+  middleware: Middleware,
+  req: HeadersNodeRequest,
+  res: HeadersNodeResponse,
+  target: HeaderTarget
+): boolean {
+  const request = toRequest(req);
+  if (!request) {
+    return false;
+  }
+
+  const preflight = middleware.preflight(request);
+  if (preflight) {
+    for (const [name, value] of preflight.headers) {
+      res.setHeader(name, value);
+    }
+    res.statusCode = preflight.status;
+    res.end();
+    return true;
+  }
+
+  const { writeHead, write, end } = res;
+  let prepared = false;
+  let skipBody = false;
+
+  const prepare = () => {
+    if (prepared) return;
+    prepared = true;
+    middleware.apply(request, target);
+
+    const current = new Headers();
+    for (const name of res.getHeaderNames()) {
+      for (const value of nodeTarget(res).get(name)) {
+        current.append(name, value);
+      }
+    }
+    const result = middleware.evaluate(request, res.statusCode, current);
+    if (result) {
+      const kept = [...result.headers.keys()];
+      for (const name of res.getHeaderNames()) {
+        if (!kept.includes(name.toLowerCase())) {
+          res.removeHeader(name);
+        }
+      }
+      res.statusCode = result.status;
+      skipBody = true;
+    }
+  };
+
+  res.writeHead = (statusCode, ...args) => {
+    res.statusCode = statusCode;
+    const message = takeHeadHeaders(res, args);
+    prepare();
+    return skipBody
+      ? writeHead.call(res, res.statusCode)
+      : writeHead.call(res, res.statusCode, ...message);
+  };
+  res.write = (chunk, ...args) => {
+    prepare();
+    // Like Node for bodiless responses: ignored and never flushed
+    return skipBody ? true : write.call(res, chunk, ...args);
+  };
+  res.end = (...args) => {
+    prepare();
+    return skipBody
+      ? end.call(res, args.find((arg) => typeof arg === "function"))
+      : end.apply(res, args);
+  };
+
+  return false;
+}
+
+/**
+ * Wrap a fetch handler (Bun.serve, Deno.serve, Elysia's app.fetch)
+ * so every response gets the base headers, preflights are answered
+ * and GET/HEAD with a matching ETag or Last-Modified get a 304
+ * Headers set by the handler win, list headers (Vary, Link,
+ * Server-Timing, Set-Cookie) are merged
+ * @example
+ * const base = buildHeaders().security().cache("NO_CACHE");
+ * const cors = buildCorsPolicy({ origins: ["https://app.example.com"] });
+ *
+ * Bun.serve({
+ *   fetch: withHeaders((req) => Response.json(data), base, { cors }),
+ * });
+ */
+export function withHeaders<
+  A extends unknown[],
+  R extends Response | undefined,
+>(
+  handler: (req: Request, ...args: A) => R | Promise<R>,
+  base: HeadersBuilder | HeadersPolicy,
+  options?: HeadersMiddlewareOptions
+): (req: Request, ...args: A) => Promise<R> {
+  const middleware = createMiddleware(base, options);
+
+  return async (req, ...args) => {
+    const preflight = middleware.preflight(req);
+    if (preflight) {
+      return preflight as R;
+    }
+
+    const response = await handler(req, ...args);
+    // Bun returns nothing once a request is upgraded to a WebSocket
+    if (!response) {
+      return response;
+    }
+
+    const result = new Response(response.body, response);
+    middleware.apply(req, fetchTarget(result.headers));
+
+    const conditional = middleware.evaluate(
+      req,
+      result.status,
+      result.headers
+    );
+    if (conditional?.response) {
+      await result.body?.cancel();
+      return conditional.response as R;
+    }
+    return result as R;
+  };
+}
+
+/**
+ * Hono middleware applying base headers with c.header(), answering
+ * preflights and turning matching GET/HEAD responses into 304s
+ * @example
+ * const app = new Hono();
+ * app.use(honoHeaders(buildHeaders().security(), { cors }));
+ */
+export function honoHeaders(
+  base: HeadersBuilder | HeadersPolicy,
+  options?: HeadersMiddlewareOptions
+): (
+  c: HeadersHonoContext,
+  next: () => Promise<void>
+) => Promise<Response | void> {
+  const middleware = createMiddleware(base, options);
+
+  return async (c, next) => {
+    const req = c.req.raw;
+    const preflight = middleware.preflight(req);
+    if (preflight) {
+      return preflight;
+    }
+
+    await next();
+    if (!c.res) {
+      return;
+    }
+
+    middleware.apply(req, {
+      // Read c.res each time, Hono replaces it when headers change
+      get: (name) => (c.res ? fetchTarget(c.res.headers).get(name) : []),
+      set(name, [first, ...rest]) {
+        c.header(name, first);
+        for (const value of rest) {
+          c.header(name, value, { append: true });
+        }
+      },
+    });
+
+    const { status, headers, body } = c.res;
+    const result = middleware.evaluate(req, status, headers);
+    if (result?.response) {
+      await body?.cancel();
+      // Cleared first so Hono doesn't copy the full response's headers
+      c.res = undefined;
+      c.res = result.response;
+    }
+  };
+}
+
+/**
+ * Elysia's set.status as a code, undefined for status names other than
+ * "OK" since only 200 responses are evaluated
+ */
+function elysiaStatus(status: number | string | undefined): number | undefined {
+  if (status === undefined || status === "OK") {
+    return 200;
+  }
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Elysia lifecycle hooks: onRequest answers preflights and writes the
+ * base headers to set.headers, where handlers can still override them,
+ * onAfterHandle turns matching GET/HEAD responses into 304s
+ * @example
+ * const hooks = elysiaHeaders(buildHeaders().security(), { cors });
+ *
+ * new Elysia()
+ *   .onRequest(hooks.onRequest)
+ *   .onAfterHandle(hooks.onAfterHandle)
+ *   .get("/", () => data);
+ */
+export function elysiaHeaders(
+  base: HeadersBuilder | HeadersPolicy,
+  options?: HeadersMiddlewareOptions
+): {
+  onRequest: (ctx: HeadersElysiaContext) => Response | undefined;
+  onAfterHandle: (ctx: HeadersElysiaContext) => Response | undefined;
+} {
+  const middleware = createMiddleware(base, options);
+
+  return {
+    onRequest({ request, set }) {
+      const preflight = middleware.preflight(request);
+      if (preflight) {
+        return preflight;
+      }
+
+      middleware.apply(request, {
+        get(name) {
+          const value = set.headers[name.toLowerCase()];
+          if (value === undefined) return [];
+          return Array.isArray(value) ? value.map(String) : [String(value)];
+        },
+        set(name, values) {
+          // Elysia sends Set-Cookie arrays as separate lines
+          set.headers[name.toLowerCase()] =
+            name.toLowerCase() === "set-cookie" ? values : values.join(", ");
+        },
+      });
+      return undefined;
+    },
+
+    onAfterHandle({ request, set, response }) {
+      const headers =
+        response instanceof Response
+          ? new Headers(response.headers)
+          : new Headers();
+      for (const [name, value] of Object.entries(set.headers)) {
+        if (!headers.has(name) && value !== undefined) {
+          headers.set(name, String(value));
+        }
+      }
+
+      const status =
+        response instanceof Response
+          ? response.status
+          : elysiaStatus(set.status);
+      const result =
+        status === undefined
+          ? undefined
+          : middleware.evaluate(request, status, headers);
+      if (!result?.response) {
+        return undefined;
+      }
+
+      // Elysia merges set.headers into the returned response
+      for (const name of Object.keys(set.headers)) {
+        delete set.headers[name];
+      }
+      return result.response;
+    },
+  };
+}
+
+/**
+ * Express middleware applying base headers with res.set(), answering
+ * preflights and turning matching GET/HEAD responses into 304s
+ * @example
+ * const app = express();
+ * app.use(expressHeaders(buildHeaders().security(), { cors }));
+ */
+export function expressHeaders(
+  base: HeadersBuilder | HeadersPolicy,
+  options?: HeadersMiddlewareOptions
+): (
+  req: HeadersNodeRequest,
+  res: HeadersExpressResponse,
+  next: (err?: unknown) => void
+) => void {
+  const middleware = createMiddleware(base, options);
+
+  return (req, res, next) => {
+    const target: HeaderTarget = {
+      get: (name) => nodeTarget(res).get(name),
+      set(name, values) {
+        res.set(name, values.length === 1 ? values[0] : values);
+      },
+    };
+
+    try {
+      if (!handleNode(middleware, req, res, target)) {
+        next();
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Node http handler applying base headers with res.setHeader(),
+ * answering preflights and turning matching GET/HEAD responses into 304s
+ * Returns true when the request was answered, e.g. a CORS preflight
+ * @example
+ * const applyHeaders = nodeHeaders(buildHeaders().security(), { cors });
+ *
+ * http.createServer((req, res) => {
+ *   if (applyHeaders(req, res)) return;
+ *   res.setHeader("Content-Type", "application/json");
+ *   res.end(JSON.stringify(data));
+ * });
+ */
+export function nodeHeaders(
+  base: HeadersBuilder | HeadersPolicy,
+  options?: HeadersMiddlewareOptions
+): (req: HeadersNodeRequest, res: HeadersNodeResponse) => boolean {
+  const middleware = createMiddleware(base, options);
+
+  return (req, res) => handleNode(middleware, req, res, nodeTarget(res));
+}
@@ -0,0 +1,195 @@
+import type { HeadersMimeEntry } from "./types";
+
+/**
+ * MIME type database (IANA registrations plus common unregistered types)
+ * The first extension of each entry is the preferred one for reverse lookups.
+ * When several types claim an extension, the first entry listed here wins.
+ */
+export const MIME_DB: Record<string, HeadersMimeEntry> = {
+  // Text
+  "text/html": { extensions: ["html", "htm", "shtml"], compressible: true, charset: "utf-8" },
+  "text/css": { extensions: ["css"], compressible: true, charset: "utf-8" },
+  "text/javascript": { extensions: ["js", "mjs", "cjs"], compressible: true, charset: "utf-8" },
+  "text/plain": { extensions: ["txt", "text", "conf", "def", "list", "log", "in", "ini"], compressible: true, charset: "utf-8" },
+  "text/csv": { extensions: ["csv"], compressible: true, charset: "utf-8" },
+  "text/tab-separated-values": { extensions: ["tsv"], compressible: true, charset: "utf-8" },
+  "text/markdown": { extensions: ["md", "markdown"], compressible: true, charset: "utf-8" },
+  "text/calendar": { extensions: ["ics", "ifb"], compressible: true, charset: "utf-8" },
+  "text/vcard": { extensions: ["vcf", "vcard"], compressible: true, charset: "utf-8" },
+  "text/vtt": { extensions: ["vtt"], compressible: true, charset: "utf-8" },
+  "text/xml": { extensions: ["xsl"], compressible: true, charset: "utf-8" },
+  "text/yaml": { extensions: ["yaml", "yml"], compressible: true, charset: "utf-8" },
+  "text/jsx": { extensions: ["jsx"], compressible: true, charset: "utf-8" },
+  "text/mdx": { extensions: ["mdx"], compressible: true, charset: "utf-8" },
+  // .ts and .mts are MPEG transport streams (HLS segments) on the web, see video/mp2t
+  "text/x-typescript": { extensions: ["tsx", "cts"], compressible: true, charset: "utf-8" },
+  "text/coffeescript": { extensions: ["coffee", "litcoffee"], compressible: true, charset: "utf-8" },
+  "text/x-scss": { extensions: ["scss"], compressible: true, charset: "utf-8" },
+  "text/x-sass": { extensions: ["sass"], compressible: true, charset: "utf-8" },
+  "text/less": { extensions: ["less"], compressible: true, charset: "utf-8" },
+  "text/x-handlebars-template": { extensions: ["hbs"], compressible: true, charset: "utf-8" },
+  "text/x-c": { extensions: ["c", "cc", "cpp", "cxx", "h", "hh", "dic"], compressible: true, charset: "utf-8" },
+  "text/x-java-source": { extensions: ["java"], compressible: true, charset: "utf-8" },
+  "text/x-python": { extensions: ["py"], compressible: true, charset: "utf-8" },
+  "text/x-sh": { extensions: ["sh"], compressible: true, charset: "utf-8" },
+  "text/x-sql": { extensions: ["sql"], compressible: true, charset: "utf-8" },
+  "text/x-toml": { extensions: ["toml"], compressible: true, charset: "utf-8" },
+  "text/richtext": { extensions: ["rtx"], compressible: true, charset: "utf-8" },
+  "text/uri-list": { extensions: ["uri", "uris", "urls"], compressible: true, charset: "utf-8" },
+  "text/cache-manifest": { extensions: ["appcache", "manifest"], compressible: true, charset: "utf-8" },
+  "text/n3": { extensions: ["n3"], compressible: true, charset: "utf-8" },
+  "text/turtle": { extensions: ["ttl"], compressible: true, charset: "utf-8" },
+  "text/x-component": { extensions: ["htc"], compressible: true, charset: "utf-8" },
+
+  // Application - structured data & code
+  "application/json": { extensions: ["json", "map"], compressible: true, charset: "utf-8" },
+  "application/json5": { extensions: ["json5"], compressible: true },
+  "application/ld+json": { extensions: ["jsonld"], compressible: true },
+  "application/geo+json": { extensions: ["geojson"], compressible: true },
+  "application/manifest+json": { extensions: ["webmanifest"], compressible: true },
+  "application/schema+json": { extensions: ["schema.json"], compressible: true },
+  "application/x-ndjson": { extensions: ["ndjson", "jsonl"], compressible: true },
+  "application/javascript": { extensions: ["js"], compressible: true, charset: "utf-8" },
+  "application/wasm": { extensions: ["wasm"], compressible: true },
+  "application/xml": { extensions: ["xml", "xsd", "rng"], compressible: true },
+  "application/xhtml+xml": { extensions: ["xhtml", "xht"], compressible: true },
+  "application/rss+xml": { extensions: ["rss"], compressible: true },
+  "application/atom+xml": { extensions: ["atom"], compressible: true },
+  "application/rdf+xml": { extensions: ["rdf", "owl"], compressible: true },
+  "application/mathml+xml": { extensions: ["mathml"], compressible: true },
+  "application/xslt+xml": { extensions: ["xslt"], compressible: true },
+  "application/graphql": { extensions: ["graphql", "gql"], compressible: true },
+  "application/sql": { extensions: [], compressible: true },
+  "application/x-httpd-php": { extensions: ["php"], compressible: true },
+  "application/x-sh": { extensions: [], compressible: true },
+  "application/x-web-app-manifest+json": { extensions: ["webapp"], compressible: true },
+  "application/problem+json": { extensions: [], compressible: true },
+  "application/problem+xml": { extensions: [], compressible: true },
+  "application/reports+json": { extensions: [], compressible: true },
+  "application/csp-report": { extensions: [], compressible: true },
+  "application/x-www-form-urlencoded": { extensions: [], compressible: true },
+  "application/vnd.api+json": { extensions: [], compressible: true },
+  "application/vnd.apple.mpegurl": { extensions: ["m3u8"], compressible: false },
+  "application/dash+xml": { extensions: ["mpd"], compressible: true },
+  "application/x-subrip": { extensions: ["srt"], compressible: false },
+  "application/pgp-signature": { extensions: ["sig", "asc"], compressible: false },
+  "application/pkcs7-mime": { extensions: ["p7m", "p7c"], compressible: false },
+  "application/pkix-cert": { extensions: ["cer"], compressible: false },
+  "application/x-x509-ca-cert": { extensions: ["crt", "der", "pem"], compressible: false },
+  "application/pkcs12": { extensions: ["p12", "pfx"], compressible: false },
+  "application/octet-stream": { extensions: ["bin", "dms", "lrf", "mar", "so", "dist", "distz", "pkg", "bpk", "dump", "elc", "deploy", "exe", "dll", "deb", "dmg", "iso", "img", "msi", "msp", "msm", "buffer"], compressible: false },
+
+  // Documents
+  "application/pdf": { extensions: ["pdf"], compressible: false },
+  "application/rtf": { extensions: ["rtf"], compressible: true },
+  "application/msword": { extensions: ["doc", "dot"], compressible: false },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": { extensions: ["docx"], compressible: false },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.template": { extensions: ["dotx"], compressible: false },
+  "application/vnd.ms-excel": { extensions: ["xls", "xlm", "xla", "xlc", "xlt", "xlw"], compressible: false },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": { extensions: ["xlsx"], compressible: false },
+  "application/vnd.ms-powerpoint": { extensions: ["ppt", "pps", "pot"], compressible: false },
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": { extensions: ["pptx"], compressible: false },
+  "application/vnd.oasis.opendocument.text": { extensions: ["odt"], compressible: false },
+  "application/vnd.oasis.opendocument.spreadsheet": { extensions: ["ods"], compressible: false },
+  "application/vnd.oasis.opendocument.presentation": { extensions: ["odp"], compressible: false },
+  "application/vnd.oasis.opendocument.graphics": { extensions: ["odg"], compressible: false },
+  "application/epub+zip": { extensions: ["epub"], compressible: false },
+  "application/vnd.amazon.ebook": { extensions: ["azw"], compressible: false },
+  "application/x-mobipocket-ebook": { extensions: ["prc", "mobi"], compressible: false },
+  "application/postscript": { extensions: ["ai", "eps", "ps"], compressible: true },
+  "application/vnd.visio": { extensions: ["vsd", "vst", "vss", "vsw"], compressible: false },
+  "application/vnd.google-earth.kml+xml": { extensions: ["kml"], compressible: true },
+  "application/vnd.google-earth.kmz": { extensions: ["kmz"], compressible: false },
+  "application/gpx+xml": { extensions: ["gpx"], compressible: true },
+  "application/vnd.sqlite3": { extensions: ["sqlite", "db"], compressible: false },
+
+  // Archives & compressed data
+  "application/zip": { extensions: ["zip"], compressible: false },
+  "application/gzip": { extensions: ["gz", "tgz", "tar.gz"], compressible: false },
+  "application/x-tar": { extensions: ["tar"], compressible: true },
+  "application/x-bzip": { extensions: ["bz"], compressible: false },
+  "application/x-bzip2": { extensions: ["bz2", "boz", "tar.bz2"], compressible: false },
+  "application/x-xz": { extensions: ["xz", "tar.xz"], compressible: false },
+  "application/zstd": { extensions: ["zst", "tar.zst"], compressible: false },
+  "application/x-7z-compressed": { extensions: ["7z"], compressible: false },
+  "application/vnd.rar": { extensions: ["rar"], compressible: false },
+  "application/x-lzh-compressed": { extensions: ["lzh", "lha"], compressible: false },
+  "application/java-archive": { extensions: ["jar", "war", "ear"], compressible: false },
+  "application/vnd.android.package-archive": { extensions: ["apk"], compressible: false },
+  "application/x-apple-diskimage": { extensions: ["dmg"], compressible: false },
+  "application/x-shockwave-flash": { extensions: ["swf"], compressible: false },
+  "application/x-bittorrent": { extensions: ["torrent"], compressible: false },
+  "application/vnd.ms-fontobject": { extensions: ["eot"], compressible: true },
+
+  // Images
+  "image/png": { extensions: ["png"], compressible: false },
+  "image/apng": { extensions: ["apng"], compressible: false },
+  "image/jpeg": { extensions: ["jpg", "jpeg", "jpe", "jfif", "pjpeg", "pjp"], compressible: false },
+  "image/gif": { extensions: ["gif"], compressible: false },
+  "image/webp": { extensions: ["webp"], compressible: false },
+  "image/avif": { extensions: ["avif"], compressible: false },
+  "image/avif-sequence": { extensions: ["avifs"], compressible: false },
+  "image/heic": { extensions: ["heic"], compressible: false },
+  "image/heif": { extensions: ["heif"], compressible: false },
+  "image/jxl": { extensions: ["jxl"], compressible: false },
+  "image/jp2": { extensions: ["jp2", "jpg2"], compressible: false },
+  "image/svg+xml": { extensions: ["svg", "svgz"], compressible: true },
+  "image/x-icon": { extensions: ["ico", "cur"], compressible: true },
+  "image/vnd.microsoft.icon": { extensions: [], compressible: true },
+  "image/bmp": { extensions: ["bmp", "dib"], compressible: true },
+  "image/tiff": { extensions: ["tif", "tiff"], compressible: false },
+  "image/vnd.adobe.photoshop": { extensions: ["psd"], compressible: true },
+  "image/x-xbitmap": { extensions: ["xbm"], compressible: false },
+  "image/x-portable-pixmap": { extensions: ["ppm"], compressible: false },
+  "image/x-tga": { extensions: ["tga"], compressible: false },
+  "image/ktx2": { extensions: ["ktx2"], compressible: false },
+
+  // Fonts
+  "font/woff": { extensions: ["woff"], compressible: false },
+  "font/woff2": { extensions: ["woff2"], compressible: false },
+  "font/ttf": { extensions: ["ttf"], compressible: true },
+  "font/otf": { extensions: ["otf"], compressible: true },
+  "font/collection": { extensions: ["ttc"], compressible: true },
+
+  // Audio
+  "audio/mpeg": { extensions: ["mp3", "mpga", "mp2", "mp2a", "m2a", "m3a"], compressible: false },
+  "audio/mp4": { extensions: ["m4a", "mp4a", "m4b"], compressible: false },
+  "audio/aac": { extensions: ["aac", "adts"], compressible: false },
+  "audio/ogg": { extensions: ["oga", "ogg", "spx", "opus"], compressible: false },
+  "audio/wav": { extensions: ["wav"], compressible: false },
+  "audio/webm": { extensions: ["weba"], compressible: false },
+  "audio/flac": { extensions: ["flac"], compressible: false },
+  "audio/midi": { extensions: ["mid", "midi", "kar", "rmi"], compressible: false },
+  "audio/x-aiff": { extensions: ["aif", "aiff", "aifc"], compressible: false },
+  "audio/x-ms-wma": { extensions: ["wma"], compressible: false },
+  "audio/amr": { extensions: ["amr"], compressible: false },
+  "audio/3gpp": { extensions: [], compressible: false },
+  "audio/x-mpegurl": { extensions: ["m3u"], compressible: false },
+
+  // Video
+  "video/mp4": { extensions: ["mp4", "mp4v", "mpg4", "m4v"], compressible: false },
+  "video/webm": { extensions: ["webm"], compressible: false },
+  "video/ogg": { extensions: ["ogv"], compressible: false },
+  "video/mpeg": { extensions: ["mpeg", "mpg", "mpe", "m1v", "m2v"], compressible: false },
+  "video/quicktime": { extensions: ["mov", "qt"], compressible: false },
+  "video/x-msvideo": { extensions: ["avi"], compressible: false },
+  "video/x-matroska": { extensions: ["mkv", "mk3d", "mks"], compressible: false },
+  "video/x-flv": { extensions: ["flv"], compressible: false },
+  "video/x-ms-wmv": { extensions: ["wmv"], compressible: false },
+  "video/mp2t": { extensions: ["ts", "m2t", "m2ts", "mts"], compressible: false },
+  "video/3gpp": { extensions: ["3gp", "3gpp"], compressible: false },
+  "video/3gpp2": { extensions: ["3g2"], compressible: false },
+  "video/h264": { extensions: ["h264"], compressible: false },
+
+  // Models
+  "model/gltf+json": { extensions: ["gltf"], compressible: true },
+  "model/gltf-binary": { extensions: ["glb"], compressible: true },
+  "model/obj": { extensions: ["obj"], compressible: true },
+  "model/stl": { extensions: ["stl"], compressible: true },
+  "model/vnd.usdz+zip": { extensions: ["usdz"], compressible: false },
+
+  // Multipart & messages
+  "multipart/form-data": { extensions: [], compressible: false },
+  "multipart/byteranges": { extensions: [], compressible: false },
+  "message/rfc822": { extensions: ["eml", "mime"], compressible: true },
+};
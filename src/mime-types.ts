@@ -1,4 +1,16 @@
-const MIME_TYPES = {
+import { MIME_DB } from "./mime-db";
+import type {
+  HeadersContentType,
+  HeadersMimeEntry,
+  HeadersMimeInfo,
+} from "./types";
+
+/**
+ * Content types for contentType() shorthands, kept literal for
+ * typed builders
+ * @internal
+ */
+export const MIME_TYPES = {
   // Text & Code
   html: "text/html; charset=utf-8",
   css: "text/css",
@@ -61,3 +73,219 @@ const MIME_TYPES = {
 export function getMimeType(extension: keyof typeof MIME_TYPES): string {
   return MIME_TYPES[extension] || "application/octet-stream";
 }
+
+/**
+ * Extension to MIME type index derived from the database,
+ * the first type listing an extension wins
+ */
+const EXTENSIONS = new Map<string, string>();
+for (const [mimeType, { extensions }] of Object.entries(MIME_DB)) {
+  for (const extension of extensions) {
+    if (!EXTENSIONS.has(extension)) {
+      EXTENSIONS.set(extension, mimeType);
+    }
+  }
+}
+
+/**
+ * Mappings added with registerMimeType(), checked before the database
+ */
+const customExtensions = new Map<string, string>();
+const customTypes = new Map<string, HeadersMimeEntry>();
+
+function essence(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Extension candidates for a path, longest compound extension first
+ * e.g. "dist/app.schema.json" gives ["schema.json", "json"]
+ * A name without dots or slashes is taken as a bare extension ("json"),
+ * dotfiles without a further dot (".env") have no extension
+ */
+function extensionCandidates(pathOrExtension: string): string[] {
+  if (!/[.\\/]/.test(pathOrExtension)) {
+    return pathOrExtension ? [pathOrExtension.toLowerCase()] : [];
+  }
+
+  const name = (pathOrExtension.split(/[\\/]/).pop() ?? "").toLowerCase();
+  const parts = name.replace(/^\.+/, "").split(".");
+
+  const candidates: string[] = [];
+  for (let i = 1; i < parts.length; i++) {
+    const candidate = parts.slice(i).join(".");
+    if (
+      candidate &&
+      !candidate.startsWith(".") &&
+      !candidate.endsWith(".")
+    ) {
+      candidates.push(candidate);
+    }
+  }
+  return candidates;
+}
+
+function isKnownExtension(extension: string): boolean {
+  return (
+    customExtensions.has(extension) ||
+    Object.hasOwn(MIME_TYPES, extension) ||
+    EXTENSIONS.has(extension)
+  );
+}
+
+/**
+ * File extension of a path, preferring known compound extensions
+ * @example
+ * getFileExtension("backup.tar.gz") // "tar.gz"
+ * getFileExtension("v1.2.3/notes.txt") // "txt"
+ * getFileExtension(".env") // undefined
+ * getFileExtension("Makefile") // undefined
+ */
+export function getFileExtension(path: string): string | undefined {
+  // Extensionless names are paths here, not bare extensions
+  const candidates = extensionCandidates(
+    path.includes(".") ? path : `/${path}`
+  );
+  return candidates.find(isKnownExtension) ?? candidates.at(-1);
+}
+
+/**
+ * Append the database's default charset to a MIME type
+ * @internal
+ */
+export function withCharset(mimeType: string): string {
+  const info = getMimeInfo(mimeType);
+  return info?.charset ? `${mimeType}; charset=${info.charset}` : mimeType;
+}
+
+/**
+ * Look up the Content-Type for a file path or extension, including the
+ * default charset for text types
+ * Returns undefined for unknown extensions
+ * @example
+ * lookupMimeType("app.mjs") // "text/javascript; charset=utf-8"
+ * lookupMimeType("wasm") // "application/wasm"
+ * lookupMimeType("site.webmanifest") // "application/manifest+json"
+ */
+export function lookupMimeType(pathOrExtension: string): string | undefined {
+  for (const extension of extensionCandidates(pathOrExtension)) {
+    const custom = customExtensions.get(extension);
+    if (custom) {
+      return withCharset(custom);
+    }
+    // Keep the established values for the original mappings
+    if (Object.hasOwn(MIME_TYPES, extension)) {
+      return MIME_TYPES[extension as keyof typeof MIME_TYPES];
+    }
+    const known = EXTENSIONS.get(extension);
+    if (known) {
+      return withCharset(known);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Database entry for a MIME type (parameters are ignored)
+ * @example
+ * getMimeInfo("image/svg+xml")
+ * // { mimeType: "image/svg+xml", extensions: ["svg", "svgz"], compressible: true }
+ */
+export function getMimeInfo(mimeType: string): HeadersMimeInfo | undefined {
+  const key = essence(mimeType);
+  const entry = customTypes.get(key) ?? MIME_DB[key];
+  return entry ? { mimeType: key, ...entry } : undefined;
+}
+
+/**
+ * Whether responses of this type benefit from compression
+ * Unknown types fall back to text/*, +json, +xml and +text being compressible
+ * @example
+ * isCompressible("application/json; charset=utf-8") // true
+ * isCompressible("image/png") // false
+ */
+export function isCompressible(mimeType: string): boolean {
+  const info = getMimeInfo(mimeType);
+  if (info) {
+    return info.compressible;
+  }
+  const key = essence(mimeType);
+  return key.startsWith("text/") || /\+(json|xml|text)$/.test(key);
+}
+
+/**
+ * Preferred file extension for a MIME type (parameters are ignored)
+ * @example
+ * getExtension("image/jpeg") // "jpg"
+ * getExtension("text/html; charset=utf-8") // "html"
+ */
+export function getExtension(mimeType: string): string | undefined {
+  return getMimeInfo(mimeType)?.extensions[0];
+}
+
+/**
+ * Register a custom extension mapping, taking precedence over the database
+ * @example
+ * registerMimeType("glsl", "text/x-glsl", { charset: "utf-8" });
+ * headers().filePath("shader.glsl").build()
+ * // Returns: { "Content-Type": "text/x-glsl; charset=utf-8" }
+ */
+export function registerMimeType(
+  extensions: string | string[],
+  mimeType: string,
+  options: { charset?: string; compressible?: boolean } = {}
+): void {
+  const key = essence(mimeType);
+  const added = (Array.isArray(extensions) ? extensions : [extensions]).map(
+    (extension) => extension.replace(/^\./, "").toLowerCase()
+  );
+
+  if (!key.includes("/") || added.some((extension) => !extension)) {
+    throw new Error(`MIME: Invalid mapping for "${mimeType}".`);
+  }
+
+  const existing = getMimeInfo(key);
+  customTypes.set(key, {
+    extensions: [
+      ...added,
+      ...(existing?.extensions ?? []).filter((ext) => !added.includes(ext)),
+    ],
+    charset: options.charset ?? existing?.charset,
+    compressible: options.compressible ?? isCompressible(key),
+  });
+
+  for (const extension of added) {
+    customExtensions.set(extension, key);
+  }
+}
+
+/**
+ * Parse a Content-Type value into its MIME type and parameters
+ * @example
+ * parseContentType("text/html; charset=UTF-8")
+ * // { mimeType: "text/html", type: "text", subtype: "html",
+ * //   params: { charset: "UTF-8" } }
+ */
+export function parseContentType(value: string): HeadersContentType {
+  const [mimeType, ...rawParams] = value.split(";");
+  const essence = mimeType.trim().toLowerCase();
+  const [type = "", subtype = ""] = essence.split("/");
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const index = param.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+    const key = param.slice(0, index).trim().toLowerCase();
+    const paramValue = param
+      .slice(index + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+    if (key) {
+      params[key] = paramValue;
+    }
+  }
+
+  return { mimeType: essence, type, subtype, params };
+}
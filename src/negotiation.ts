@@ -0,0 +1,235 @@
+import { getMimeType } from "./mime-types";
+import type {
+  HeadersAcceptEntry,
+  HeadersContentEncoding,
+  HeadersContentTypeInput,
+  HeadersNegotiationOptions,
+  HeadersNegotiationResult,
+} from "./types";
+
+/**
+ * Parse an Accept-style header into entries sorted by preference
+ * (q-value, then order of appearance). Entries with q=0 are kept so
+ * callers can tell "explicitly refused" from "not mentioned".
+ * @example
+ * parseAccept("text/html, application/json;q=0.8")
+ * // [{ value: "text/html", q: 1, params: {} },
+ * //  { value: "application/json", q: 0.8, params: {} }]
+ */
+export function parseAccept(header: string | null): HeadersAcceptEntry[] {
+  if (!header) {
+    return [];
+  }
+
+  const entries = header
+    .split(",")
+    .map((part, index) => {
+      const [value, ...rawParams] = part.split(";").map((p) => p.trim());
+      const params: Record<string, string> = {};
+      let q = 1;
+
+      for (const param of rawParams) {
+        const [key, rawValue = ""] = param.split("=").map((p) => p.trim());
+        if (key.toLowerCase() === "q") {
+          const parsed = Number(rawValue);
+          q = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+        } else if (key) {
+          params[key.toLowerCase()] = rawValue.replace(/^"|"$/g, "");
+        }
+      }
+
+      return { value: value.toLowerCase(), q, params, index };
+    })
+    .filter((entry) => entry.value);
+
+  return entries
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ index, ...entry }) => entry);
+}
+
+/**
+ * Quality of a MIME type against Accept entries, using the most
+ * specific matching range (type/subtype > type/* > *\/*)
+ */
+function mediaTypeQuality(
+  mimeType: string,
+  accepted: HeadersAcceptEntry[]
+): number {
+  const [type, subtype] = mimeType
+    .split(";")[0]
+    .trim()
+    .toLowerCase()
+    .split("/");
+  let best: { specificity: number; q: number } | undefined;
+
+  for (const entry of accepted) {
+    const [acceptType, acceptSubtype] = entry.value.split("/");
+    let specificity = -1;
+
+    if (acceptType === type && acceptSubtype === subtype) {
+      specificity = 2;
+    } else if (acceptType === type && acceptSubtype === "*") {
+      specificity = 1;
+    } else if (acceptType === "*" && acceptSubtype === "*") {
+      specificity = 0;
+    }
+
+    if (specificity >= 0 && (!best || specificity > best.specificity)) {
+      best = { specificity, q: entry.q };
+    }
+  }
+
+  return best?.q ?? 0;
+}
+
+/**
+ * Pick the best content type from the supported list
+ * Ties are broken by the order of the supported list (server preference)
+ * @example
+ * negotiateContentType("text/csv, application/json;q=0.5", ["json", "csv"])
+ * // "csv"
+ */
+export function negotiateContentType<T extends HeadersContentTypeInput>(
+  header: string | null,
+  supported: T[]
+): T | undefined {
+  if (!header) {
+    return supported[0];
+  }
+  const accepted = parseAccept(header);
+  return pickBest(supported, (type) =>
+    mediaTypeQuality(getMimeType(type), accepted)
+  );
+}
+
+/**
+ * Pick the best content coding from the supported list
+ * Returns "identity" when the content should be sent uncompressed,
+ * or undefined when even identity was refused
+ * @example
+ * negotiateEncoding("gzip, br;q=1", ["br", "gzip"]) // "br"
+ */
+export function negotiateEncoding(
+  header: string | null,
+  supported: HeadersContentEncoding[]
+): HeadersContentEncoding | "identity" | undefined {
+  if (header === null) {
+    return "identity";
+  }
+
+  const accepted = parseAccept(header);
+  const quality = (coding: string): number | undefined => {
+    const exact = accepted.find((entry) => entry.value === coding);
+    if (exact) return exact.q;
+    return accepted.find((entry) => entry.value === "*")?.q;
+  };
+
+  const best = pickBest(supported, (coding) => quality(coding) ?? 0);
+  if (best) {
+    return best;
+  }
+
+  // identity is acceptable unless refused explicitly or through "*;q=0"
+  return quality("identity") === 0 ? undefined : "identity";
+}
+
+/**
+ * Pick the best language using RFC 4647 basic filtering
+ * ("en" matches "en-US"), falling back to the first supported language
+ * @example
+ * negotiateLanguage("es-UY, en;q=0.5", ["en-US", "es"]) // "es"
+ */
+export function negotiateLanguage<T extends string>(
+  header: string | null,
+  supported: T[]
+): T | undefined {
+  if (!header) {
+    return supported[0];
+  }
+
+  const accepted = parseAccept(header);
+  const quality = (language: string): number => {
+    const tag = language.toLowerCase();
+    let best: { length: number; q: number } | undefined;
+
+    for (const entry of accepted) {
+      const matches =
+        entry.value === "*" ||
+        entry.value === tag ||
+        tag.startsWith(`${entry.value}-`) ||
+        entry.value.startsWith(`${tag}-`);
+      const length = entry.value === "*" ? 0 : entry.value.length;
+      if (matches && (!best || length > best.length)) {
+        best = { length, q: entry.q };
+      }
+    }
+
+    return best?.q ?? 0;
+  };
+
+  return pickBest(supported, quality) ?? supported[0];
+}
+
+function pickBest<T>(
+  candidates: T[],
+  quality: (candidate: T) => number
+): T | undefined {
+  let best: { candidate: T; q: number } | undefined;
+  for (const candidate of candidates) {
+    const q = quality(candidate);
+    if (q > 0 && (!best || q > best.q)) {
+      best = { candidate, q };
+    }
+  }
+  return best?.candidate;
+}
+
+/**
+ * Negotiate content type, encoding and language for a request
+ * @example
+ * const result = negotiate(req, {
+ *   types: ["json", "csv", "xml"],
+ *   encodings: ["br", "gzip"],
+ * });
+ * if (result.response) return result.response; // 406 Not Acceptable
+ */
+export function negotiate<T extends HeadersContentTypeInput>(
+  req: Request,
+  { types = [], encodings = [], languages = [] }: HeadersNegotiationOptions<T>
+): HeadersNegotiationResult<T> {
+  const vary: string[] = [];
+  if (types.length > 1) vary.push("Accept");
+  if (encodings.length > 0) vary.push("Accept-Encoding");
+  if (languages.length > 1) vary.push("Accept-Language");
+
+  const type =
+    types.length > 0
+      ? negotiateContentType(req.headers.get("Accept"), types)
+      : undefined;
+  const encoding =
+    encodings.length > 0
+      ? negotiateEncoding(req.headers.get("Accept-Encoding"), encodings)
+      : "identity";
+  const language =
+    languages.length > 0
+      ? negotiateLanguage(req.headers.get("Accept-Language"), languages)
+      : undefined;
+
+  const acceptable =
+    (types.length === 0 || type !== undefined) && encoding !== undefined;
+
+  return {
+    acceptable,
+    status: acceptable ? 200 : 406,
+    type,
+    encoding,
+    language,
+    vary,
+    response: acceptable
+      ? undefined
+      : new Response(null, {
+          status: 406,
+          headers: vary.length > 0 ? { Vary: vary.join(", ") } : {},
+        }),
+  };
+}
@@ -0,0 +1,107 @@
+import { parseCacheControl } from "./cache-control";
+import { parseETag } from "./conditional";
+import { parseCsp } from "./csp";
+import { parseLinks } from "./link";
+import { parseContentType } from "./mime-types";
+import type { HeadersCorsFields, HeadersInput, HeadersParsed } from "./types";
+import { canonicalHeaderName } from "./utils";
+
+/**
+ * Normalize any headers input into a plain record with canonical names
+ * @example
+ * toHeadersRecord(new Headers({ "content-type": "text/css" }))
+ * // { "Content-Type": "text/css" }
+ */
+export function toHeadersRecord(input: HeadersInput): Record<string, string> {
+  const headers = input instanceof Response ? input.headers : input;
+  const entries =
+    headers instanceof Headers
+      ? Array.from(headers.entries())
+      : Object.entries(headers);
+
+  const record: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    record[canonicalHeaderName(name)] = value;
+  }
+  return record;
+}
+
+function splitList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseCorsFields(raw: Record<string, string>): HeadersCorsFields {
+  const maxAge = Number(raw["Access-Control-Max-Age"]);
+  return {
+    allowOrigin: raw["Access-Control-Allow-Origin"],
+    allowMethods: splitList(raw["Access-Control-Allow-Methods"]),
+    allowHeaders: splitList(raw["Access-Control-Allow-Headers"]),
+    exposeHeaders: splitList(raw["Access-Control-Expose-Headers"]),
+    allowCredentials: raw["Access-Control-Allow-Credentials"] === "true",
+    allowPrivateNetwork:
+      raw["Access-Control-Allow-Private-Network"] === "true",
+    maxAge: Number.isNaN(maxAge) ? undefined : maxAge,
+  };
+}
+
+/**
+ * Parse headers from a Headers object, Response or plain record into
+ * a typed model
+ * @example
+ * const upstream = await fetch(url);
+ * const parsed = parseHeaders(upstream);
+ * parsed.cacheControl?.maxAge; // 3600
+ * parsed.etag?.weak; // false
+ * parsed.contentType?.params.charset; // "utf-8"
+ * parsed.links.find((link) => link.rel.includes("next"))?.href;
+ */
+export function parseHeaders(input: HeadersInput): HeadersParsed {
+  const raw = toHeadersRecord(input);
+
+  const cspValue =
+    raw["Content-Security-Policy"] ??
+    raw["Content-Security-Policy-Report-Only"];
+  const contentLength = Number(raw["Content-Length"]);
+
+  return {
+    raw,
+    cacheControl:
+      raw["Cache-Control"] !== undefined
+        ? parseCacheControl(raw["Cache-Control"])
+        : undefined,
+    etag: raw["ETag"] ? parseETag(raw["ETag"]) : undefined,
+    lastModified: parseDate(raw["Last-Modified"]),
+    expires: parseDate(raw["Expires"]),
+    contentType: raw["Content-Type"]
+      ? parseContentType(raw["Content-Type"])
+      : undefined,
+    contentLength:
+      raw["Content-Length"] !== undefined && !Number.isNaN(contentLength)
+        ? contentLength
+        : undefined,
+    vary: splitList(raw["Vary"]),
+    cors: parseCorsFields(raw),
+    csp:
+      cspValue !== undefined
+        ? {
+            reportOnly: raw["Content-Security-Policy"] === undefined,
+            directives: parseCsp(cspValue),
+          }
+        : undefined,
+    links: raw["Link"] ? parseLinks(raw["Link"]) : [],
+  };
+}
@@ -1,3 +1,4 @@
+import type { CspBuilder } from "./csp";
 import { buildHeaders } from "./factory";
 
 /**
@@ -94,10 +95,13 @@ export const commonHeaders = {
       .eTag(content),
 
   // Security-focused
-  secure: () =>
+  // Pass a CspBuilder (e.g. with nonces) to avoid the 'unsafe-inline' default
+  secure: (
+    csp: string | CspBuilder = "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'"
+  ) =>
     buildHeaders()
       .security({
-        csp: "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'",
+        csp,
         hsts: 31536000,
       })
       .custom("X-Powered-By", "Bun"),
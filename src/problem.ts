@@ -0,0 +1,161 @@
+import type { HeadersProblemDetails, HeadersProblemFormat } from "./types";
+
+/**
+ * Default titles for "about:blank" problems, the status' reason phrase
+ */
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  407: "Proxy Authentication Required",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  411: "Length Required",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  414: "URI Too Long",
+  415: "Unsupported Media Type",
+  416: "Range Not Satisfiable",
+  417: "Expectation Failed",
+  421: "Misdirected Request",
+  422: "Unprocessable Content",
+  423: "Locked",
+  424: "Failed Dependency",
+  425: "Too Early",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  451: "Unavailable For Legal Reasons",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+  505: "HTTP Version Not Supported",
+  507: "Insufficient Storage",
+  508: "Loop Detected",
+  511: "Network Authentication Required",
+};
+
+/**
+ * Problem document media types per format
+ * @internal
+ */
+export const PROBLEM_MIME_TYPES: Record<HeadersProblemFormat, string> = {
+  json: "application/problem+json",
+  xml: "application/problem+xml",
+};
+
+/**
+ * Valid XML element names, excluding the reserved "xml" prefix
+ */
+const XML_NAME = /^(?!xml)[A-Za-z_][\w.-]*$/i;
+
+const XML_ENTITIES: Record<string, string> = {
+  "<": "&lt;",
+  ">": "&gt;",
+  "&": "&amp;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (char) => XML_ENTITIES[char]);
+}
+
+/**
+ * Serialize one member as an element: arrays become <i> items and
+ * objects nested elements (RFC 9457 Appendix B)
+ */
+function xmlElement(name: string, value: unknown): string {
+  if (!XML_NAME.test(name)) {
+    throw new Error(`Problem: Invalid XML element name "${name}".`);
+  }
+  if (value === null || value === undefined) {
+    return `<${name}/>`;
+  }
+
+  let content: string;
+  if (Array.isArray(value)) {
+    content = value.map((item) => xmlElement("i", item)).join("");
+  } else if (value instanceof Date) {
+    content = value.toISOString();
+  } else if (typeof value === "object") {
+    content = Object.entries(value)
+      .filter(([, member]) => member !== undefined)
+      .map(([member, item]) => xmlElement(member, item))
+      .join("");
+  } else {
+    content = escapeXml(String(value));
+  }
+  return `<${name}>${content}</${name}>`;
+}
+
+/**
+ * Complete the standard members: the status is validated and "about:blank"
+ * problems get the status' reason phrase as title
+ */
+function normalizeProblem(
+  details: HeadersProblemDetails
+): Record<string, unknown> {
+  const { type, title, status = 500, detail, instance, ...extensions } =
+    details;
+
+  if (!Number.isInteger(status) || status < 400 || status > 599) {
+    throw new Error(
+      `Problem: Invalid status ${status}, problems use 4xx or 5xx statuses.`,
+    );
+  }
+
+  return {
+    type,
+    title:
+      title ??
+      (type === undefined || type === "about:blank"
+        ? STATUS_TITLES[status]
+        : undefined),
+    status,
+    detail,
+    instance,
+    ...extensions,
+  };
+}
+
+/**
+ * Serialize problem details (RFC 9457) as JSON or XML
+ * Members are written in the order type, title, status, detail,
+ * instance, then extensions, and undefined members are left out
+ * @example
+ * serializeProblem({ status: 404, detail: "No order 42" })
+ * // '{"title":"Not Found","status":404,"detail":"No order 42"}'
+ *
+ * serializeProblem({ status: 403, balance: 30 }, "xml")
+ * // <?xml version="1.0" encoding="UTF-8"?>
+ * // <problem xmlns="urn:ietf:rfc:7807"><title>Forbidden</title>
+ * // <status>403</status><balance>30</balance></problem>
+ * // (on one line)
+ */
+export function serializeProblem(
+  details: HeadersProblemDetails,
+  format: HeadersProblemFormat = "json"
+): string {
+  const problem = normalizeProblem(details);
+  if (format === "json") {
+    return JSON.stringify(problem);
+  }
+
+  const members = Object.entries(problem)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => xmlElement(name, value))
+    .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<problem xmlns="urn:ietf:rfc:7807">${members}</problem>`
+  );
+}
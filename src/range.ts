@@ -0,0 +1,288 @@
+import { compareETags, filterHeaders } from "./conditional";
+import type {
+  HeadersByteRange,
+  HeadersConditionalValidators,
+  HeadersFields,
+  HeadersRangePart,
+  HeadersRangeResult,
+} from "./types";
+
+/**
+ * Parse a Range header against the representation size
+ * Returns null when the header is absent, malformed or not in bytes
+ * (the range must then be ignored), and an empty array when no range
+ * is satisfiable (416)
+ * @example
+ * parseRange("bytes=0-99,-100", 1000)
+ * // [{ start: 0, end: 99 }, { start: 900, end: 999 }]
+ */
+export function parseRange(
+  header: string | null,
+  size: number
+): HeadersByteRange[] | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  const ranges: HeadersByteRange[] = [];
+  for (const spec of match[1].split(",")) {
+    const part = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!part || (part[1] === "" && part[2] === "")) {
+      return null;
+    }
+
+    if (part[1] === "") {
+      // Suffix range: last N bytes
+      const length = Number(part[2]);
+      if (length > 0 && size > 0) {
+        ranges.push({ start: Math.max(size - length, 0), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = Number(part[1]);
+    if (part[2] !== "" && Number(part[2]) < start) {
+      return null;
+    }
+    const end = part[2] === "" ? size - 1 : Number(part[2]);
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  return coalesceRanges(ranges);
+}
+
+/**
+ * Merge overlapping or adjacent ranges so a client can't request
+ * the same bytes many times over
+ */
+function coalesceRanges(ranges: HeadersByteRange[]): HeadersByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HeadersByteRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Check If-Range: an entity tag must match strongly, a date must equal
+ * Last-Modified exactly. A failed check means the full content is sent.
+ */
+function ifRangeMatches(
+  ifRange: string,
+  validators: HeadersConditionalValidators
+): boolean {
+  const value = ifRange.trim();
+
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return !!validators.etag && compareETags(value, validators.etag, false);
+  }
+
+  if (!validators.lastModified) {
+    return false;
+  }
+  const date = Date.parse(value);
+  const lastModified =
+    typeof validators.lastModified === "string"
+      ? Date.parse(validators.lastModified)
+      : validators.lastModified.getTime();
+  return (
+    !Number.isNaN(date) &&
+    Math.floor(date / 1000) === Math.floor(lastModified / 1000)
+  );
+}
+
+/**
+ * Copy header fields in the same shape, setting the given values
+ */
+function withFields<H extends HeadersFields>(
+  headers: H,
+  fields: Record<string, string>
+): H {
+  if (headers instanceof Headers) {
+    const result = new Headers(headers);
+    for (const [name, value] of Object.entries(fields)) {
+      result.set(name, value);
+    }
+    return result as H;
+  }
+  return { ...headers, ...fields };
+}
+
+function createBoundary(): string {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * Evaluate the request's Range and If-Range headers for a representation
+ * of the given size, producing 200/206/416 status and headers
+ * @example
+ * const result = evaluateRange(req, file.size, { etag }, headers);
+ * return new Response(rangeBody(file, result), {
+ *   status: result.status,
+ *   headers: result.headers,
+ * });
+ */
+export function evaluateRange(
+  req: Request,
+  size: number,
+  validators: HeadersConditionalValidators,
+  headers: Headers
+): HeadersRangeResult<Headers>;
+export function evaluateRange(
+  req: Request,
+  size: number,
+  validators?: HeadersConditionalValidators,
+  headers?: Record<string, string>
+): HeadersRangeResult;
+export function evaluateRange(
+  req: Request,
+  size: number,
+  validators: HeadersConditionalValidators = {},
+  headers: HeadersFields = {}
+): HeadersRangeResult<HeadersFields> {
+  const base = withFields(headers, { "Accept-Ranges": "bytes" });
+  const full: HeadersRangeResult<HeadersFields> = {
+    status: 200,
+    ranges: [],
+    headers: withFields(base, { "Content-Length": size.toString() }),
+  };
+
+  const method = req.method.toUpperCase();
+  if (method !== "GET" && method !== "HEAD") {
+    return full;
+  }
+
+  const ifRange = req.headers.get("If-Range");
+  if (ifRange !== null && !ifRangeMatches(ifRange, validators)) {
+    return full;
+  }
+
+  const ranges = parseRange(req.headers.get("Range"), size);
+  if (ranges === null) {
+    return full;
+  }
+
+  if (ranges.length === 0) {
+    // No representation is sent, so its type and length don't apply
+    const unsatisfiable = filterHeaders(
+      base,
+      (name) => name !== "content-type" && name !== "content-length"
+    );
+    return {
+      status: 416,
+      ranges: [],
+      headers: withFields(unsatisfiable, {
+        "Content-Length": "0",
+        "Content-Range": `bytes */${size}`,
+      }),
+    };
+  }
+
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    return {
+      status: 206,
+      ranges,
+      headers: withFields(base, {
+        "Content-Range": `bytes ${start}-${end}/${size}`,
+        "Content-Length": (end - start + 1).toString(),
+      }),
+    };
+  }
+
+  // Multiple ranges: multipart/byteranges with one part per range
+  const contentType =
+    base instanceof Headers
+      ? base.get("Content-Type")
+      : Object.entries(base).find(
+          ([name]) => name.toLowerCase() === "content-type"
+        )?.[1];
+  const boundary = createBoundary();
+  const encoder = new TextEncoder();
+
+  const parts: HeadersRangePart[] = ranges.map((range, index) => ({
+    range,
+    head:
+      (index === 0 ? "" : "\r\n") +
+      `--${boundary}\r\n` +
+      (contentType ? `Content-Type: ${contentType}\r\n` : "") +
+      `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`,
+  }));
+  const tail = `\r\n--${boundary}--\r\n`;
+
+  const length = parts.reduce(
+    (total, { head, range }) =>
+      total + encoder.encode(head).length + (range.end - range.start + 1),
+    encoder.encode(tail).length
+  );
+
+  return {
+    status: 206,
+    ranges,
+    headers: withFields(base, {
+      "Content-Type": `multipart/byteranges; boundary=${boundary}`,
+      "Content-Length": length.toString(),
+    }),
+    multipart: { boundary, parts, tail },
+  };
+}
+
+/**
+ * Slice a body according to a range result
+ * Single ranges return the slice, multiple ranges the full
+ * multipart/byteranges payload, 416 an empty body
+ * @example
+ * const file = Bun.file("./movie.mp4");
+ * const result = commonHeaders.video("movie.mp4").evaluateRange(req, file.size);
+ * return new Response(rangeBody(file, result), {
+ *   status: result.status,
+ *   headers: result.headers,
+ * });
+ */
+export function rangeBody(
+  body: Blob | ArrayBuffer | Uint8Array,
+  result: HeadersRangeResult<HeadersFields>
+): Blob {
+  // Bun's global Blob typings omit slice(), which every runtime implements
+  const blob = (body instanceof Blob ? body : new Blob([body])) as Blob & {
+    slice(start?: number, end?: number): Blob;
+  };
+
+  if (result.status === 416) {
+    return new Blob([]);
+  }
+  if (result.multipart) {
+    const { parts, tail } = result.multipart;
+    return new Blob([
+      ...parts.flatMap(({ head, range }) => [
+        head,
+        blob.slice(range.start, range.end + 1),
+      ]),
+      tail,
+    ]);
+  }
+  if (result.ranges.length === 1) {
+    const [{ start, end }] = result.ranges;
+    return blob.slice(start, end + 1);
+  }
+  return blob;
+}
@@ -0,0 +1,346 @@
+import type { HeaderStore } from "./header-store";
+import { serializeSfDictionary } from "./structured-fields";
+import type {
+  HeadersNelOptions,
+  HeadersReport,
+  HeadersReportBodies,
+  HeadersReportingGroups,
+  HeadersReportToGroup,
+} from "./types";
+
+/**
+ * Structured Field key syntax used for endpoint names
+ */
+const ENDPOINT_NAME = /^[a-z*][a-z0-9_\-.*]*$/;
+
+function validateEndpointUrl(name: string, url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Reporting: Invalid URL for endpoint "${name}".`);
+  }
+
+  // Browsers drop endpoints that aren't potentially trustworthy
+  const local = ["localhost", "127.0.0.1", "[::1]"].includes(parsed.hostname);
+  if (parsed.protocol !== "https:" && !(parsed.protocol === "http:" && local)) {
+    throw new Error(`Reporting: Endpoint "${name}" must use https.`);
+  }
+}
+
+function validateGroupName(name: string): void {
+  if (!ENDPOINT_NAME.test(name)) {
+    throw new Error(
+      `Reporting: Invalid endpoint name "${name}", use lowercase ` +
+        "letters, digits, _, - and .",
+    );
+  }
+}
+
+/**
+ * Serialize a Reporting-Endpoints value (Structured Field Dictionary)
+ * @example
+ * serializeReportingEndpoints({ "csp-endpoint": "https://example.com/csp" })
+ * // 'csp-endpoint="https://example.com/csp"'
+ */
+export function serializeReportingEndpoints(
+  endpoints: Record<string, string>
+): string {
+  for (const [name, url] of Object.entries(endpoints)) {
+    validateGroupName(name);
+    validateEndpointUrl(name, url);
+  }
+  return serializeSfDictionary(endpoints);
+}
+
+/**
+ * Serialize legacy Report-To groups (comma-separated JSON objects)
+ * Still required by Network Error Logging
+ * @example
+ * serializeReportTo([{ group: "nel", maxAge: 86400, endpoints: ["https://example.com/nel"] }])
+ * // '{"group":"nel","max_age":86400,"endpoints":[{"url":"https://example.com/nel"}]}'
+ */
+export function serializeReportTo(groups: HeadersReportToGroup[]): string {
+  return groups
+    .map(({ group = "default", maxAge, endpoints, includeSubdomains }) => {
+      validateGroupName(group);
+      if (!Number.isInteger(maxAge) || maxAge < 0) {
+        throw new Error(
+          `Reporting: max_age for group "${group}" must be a ` +
+            "non-negative integer.",
+        );
+      }
+      if (endpoints.length === 0) {
+        throw new Error(`Reporting: Group "${group}" has no endpoints.`);
+      }
+
+      return JSON.stringify({
+        group,
+        max_age: maxAge,
+        endpoints: endpoints.map((endpoint) => {
+          const { url, priority, weight } =
+            typeof endpoint === "string" ? { url: endpoint } : endpoint;
+          validateEndpointUrl(group, url);
+          return { url, priority, weight };
+        }),
+        include_subdomains: includeSubdomains || undefined,
+      });
+    })
+    .join(", ");
+}
+
+/**
+ * Serialize a NEL (Network Error Logging) policy
+ * @example
+ * serializeNel({ reportTo: "nel", maxAge: 86400, failureFraction: 1 })
+ * // '{"report_to":"nel","max_age":86400,"failure_fraction":1}'
+ */
+export function serializeNel(options: HeadersNelOptions): string {
+  const {
+    reportTo,
+    maxAge,
+    includeSubdomains,
+    successFraction,
+    failureFraction,
+    requestHeaders,
+    responseHeaders,
+  } = options;
+
+  validateGroupName(reportTo);
+  if (!Number.isInteger(maxAge) || maxAge < 0) {
+    throw new Error("NEL: max_age must be a non-negative integer.");
+  }
+  for (const [name, fraction] of [
+    ["success_fraction", successFraction],
+    ["failure_fraction", failureFraction],
+  ] as const) {
+    if (fraction !== undefined && !(fraction >= 0 && fraction <= 1)) {
+      throw new Error(`NEL: ${name} must be between 0 and 1.`);
+    }
+  }
+
+  return JSON.stringify({
+    report_to: reportTo,
+    max_age: maxAge,
+    include_subdomains: includeSubdomains || undefined,
+    success_fraction: successFraction,
+    failure_fraction: failureFraction,
+    request_headers: requestHeaders,
+    response_headers: responseHeaders,
+  });
+}
+
+/**
+ * Split a header value on commas outside quoted strings and parentheses
+ */
+function splitMembers(value: string): string[] {
+  return value.match(/(?:[^,"(]|"(?:\\.|[^"\\])*"|\([^)]*\))+/g) ?? [];
+}
+
+/**
+ * Point the headers set on a builder at their reporting groups,
+ * without overriding groups that were configured explicitly
+ * @internal
+ */
+export function applyReportingGroups(
+  headers: HeaderStore,
+  groups: HeadersReportingGroups
+): void {
+  if (groups.csp) {
+    for (const name of [
+      "Content-Security-Policy",
+      "Content-Security-Policy-Report-Only",
+    ]) {
+      const value = headers.get(name);
+      if (value && !/(^|;)\s*report-to\s/i.test(value)) {
+        const policy = value.replace(/;\s*$/, "");
+        headers.set(name, `${policy}; report-to ${groups.csp}`);
+      }
+    }
+  }
+
+  for (const [group, names] of [
+    [
+      groups.coop,
+      [
+        "Cross-Origin-Opener-Policy",
+        "Cross-Origin-Opener-Policy-Report-Only",
+      ],
+    ],
+    [
+      groups.coep,
+      [
+        "Cross-Origin-Embedder-Policy",
+        "Cross-Origin-Embedder-Policy-Report-Only",
+      ],
+    ],
+  ] as const) {
+    if (!group) continue;
+    for (const name of names) {
+      const value = headers.get(name);
+      if (value && !/;\s*report-to=/i.test(value)) {
+        headers.set(name, `${value}; report-to=${JSON.stringify(group)}`);
+      }
+    }
+  }
+
+  if (groups.permissionsPolicy) {
+    for (const name of [
+      "Permissions-Policy",
+      "Permissions-Policy-Report-Only",
+    ]) {
+      const value = headers.get(name);
+      if (!value) continue;
+      headers.set(
+        name,
+        splitMembers(value)
+          .map((member) => member.trim())
+          .map((member) =>
+            /;\s*report-to=/i.test(member)
+              ? member
+              : `${member};report-to=${groups.permissionsPolicy}`
+          )
+          .join(", ")
+      );
+    }
+  }
+}
+
+/**
+ * Legacy application/csp-report field names
+ */
+const CSP_REPORT_FIELDS: Record<string, string> = {
+  "document-uri": "documentURL",
+  referrer: "referrer",
+  "blocked-uri": "blockedURL",
+  "violated-directive": "violatedDirective",
+  "effective-directive": "effectiveDirective",
+  "original-policy": "originalPolicy",
+  disposition: "disposition",
+  "source-file": "sourceFile",
+  "line-number": "lineNumber",
+  "column-number": "columnNumber",
+  "status-code": "statusCode",
+  "script-sample": "sample",
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * NEL bodies use snake_case, CSP and the rest camelCase
+ */
+function camelCaseKeys(body: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    const name = key.replace(/_([a-z])/g, (_, char: string) =>
+      char.toUpperCase()
+    );
+    result[name] = value;
+  }
+  return result;
+}
+
+function fromCspReport(report: Record<string, unknown>): HeadersReport {
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(report)) {
+    const field = CSP_REPORT_FIELDS[key];
+    if (field) {
+      body[field] = value;
+    }
+  }
+  // Older browsers only send violated-directive
+  body.effectiveDirective ??= String(body.violatedDirective ?? "").split(
+    " "
+  )[0];
+  body.disposition ??= "enforce";
+  delete body.violatedDirective;
+
+  return {
+    type: "csp-violation",
+    url: String(body.documentURL ?? ""),
+    age: 0,
+    body,
+  };
+}
+
+function fromReport(entry: unknown): HeadersReport | undefined {
+  if (
+    !isObject(entry) ||
+    typeof entry.type !== "string" ||
+    typeof entry.url !== "string" ||
+    !isObject(entry.body)
+  ) {
+    return undefined;
+  }
+
+  return {
+    type: entry.type,
+    url: entry.url,
+    age: typeof entry.age === "number" ? entry.age : 0,
+    userAgent:
+      typeof entry.user_agent === "string" ? entry.user_agent : undefined,
+    body: camelCaseKeys(entry.body),
+  };
+}
+
+/**
+ * Parse a report delivery (application/reports+json) or a legacy CSP
+ * report (application/csp-report) into normalized reports
+ * Malformed payloads and entries are ignored
+ * @example
+ * parseReports(await req.text(), req.headers.get("Content-Type"))
+ * // [{ type: "csp-violation", url: "https://example.com/",
+ * //    age: 0, body: { effectiveDirective: "script-src-elem", ... } }]
+ */
+export function parseReports(
+  payload: string,
+  contentType?: string | null
+): HeadersReport[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return [];
+  }
+
+  // Legacy report-uri payloads, recognised by their wrapper key
+  if (isObject(data) && isObject(data["csp-report"])) {
+    return [fromCspReport(data["csp-report"])];
+  }
+  if (contentType?.toLowerCase().includes("csp-report")) {
+    return [];
+  }
+
+  const entries = Array.isArray(data) ? data : [data];
+  return entries
+    .map(fromReport)
+    .filter((report): report is HeadersReport => report !== undefined);
+}
+
+/**
+ * Read and parse the reports posted to a collector endpoint
+ * @example
+ * if (url.pathname === "/reports") {
+ *   for (const report of await readReports(req)) {
+ *     if (isReport(report, "csp-violation")) {
+ *       log(report.body.effectiveDirective, report.body.blockedURL);
+ *     }
+ *   }
+ *   return new Response(null, { status: 204 });
+ * }
+ */
+export async function readReports(req: Request): Promise<HeadersReport[]> {
+  return parseReports(await req.text(), req.headers.get("Content-Type"));
+}
+
+/**
+ * Narrow a report to a known type with a typed body
+ */
+export function isReport<T extends keyof HeadersReportBodies>(
+  report: HeadersReport,
+  type: T
+): report is HeadersReport & { type: T; body: HeadersReportBodies[T] } {
+  return report.type === type;
+}
@@ -0,0 +1,111 @@
+import { SfToken, serializeSfDictionary } from "./structured-fields";
+import type {
+  HeadersHstsOptions,
+  HeadersPermissionsAllowlist,
+  HeadersPermissionsPolicy,
+  HeadersSfMemberInput,
+} from "./types";
+
+/**
+ * Minimum max-age accepted by the HSTS preload list (one year)
+ */
+const HSTS_PRELOAD_MIN_AGE = 31536000;
+
+/**
+ * Structured Field key syntax, used for Permissions-Policy features
+ */
+const FEATURE_NAME = /^[a-z*][a-z0-9_\-.*]*$/;
+
+/**
+ * Serialize a Strict-Transport-Security value, validating preload-list
+ * eligibility (max-age of at least a year, includeSubDomains)
+ * @example
+ * serializeHsts({ maxAge: 63072000, preload: true })
+ * // "max-age=63072000; includeSubDomains; preload"
+ */
+export function serializeHsts(options: HeadersHstsOptions = {}): string {
+  const {
+    maxAge = HSTS_PRELOAD_MIN_AGE,
+    includeSubDomains = true,
+    preload = false,
+  } = options;
+
+  if (!Number.isInteger(maxAge) || maxAge < 0) {
+    throw new Error("HSTS: max-age must be a non-negative integer.");
+  }
+
+  if (preload) {
+    if (maxAge < HSTS_PRELOAD_MIN_AGE) {
+      throw new Error(
+        `HSTS: preload requires a max-age of at least ${HSTS_PRELOAD_MIN_AGE}.`,
+      );
+    }
+    if (!includeSubDomains) {
+      throw new Error("HSTS: preload requires includeSubDomains.");
+    }
+  }
+
+  const parts = [`max-age=${maxAge}`];
+  if (includeSubDomains) {
+    parts.push("includeSubDomains");
+  }
+  if (preload) {
+    parts.push("preload");
+  }
+  return parts.join("; ");
+}
+
+function toAllowlistMember(
+  feature: string,
+  allowlist: HeadersPermissionsAllowlist
+): HeadersSfMemberInput {
+  if (allowlist === "*" || allowlist === "self") {
+    return new SfToken(allowlist);
+  }
+  if (allowlist === "none") {
+    return [];
+  }
+
+  return allowlist.map((member) => {
+    if (member === "*" || member === "self" || member === "src") {
+      return new SfToken(member);
+    }
+
+    let origin: string;
+    try {
+      origin = new URL(member).origin;
+    } catch {
+      origin = "null";
+    }
+    if (origin === "null" || origin !== member.replace(/\/$/, "")) {
+      throw new Error(
+        `Permissions-Policy: "${member}" in "${feature}" is not an origin.`,
+      );
+    }
+    return origin;
+  });
+}
+
+/**
+ * Serialize a Permissions-Policy value (Structured Field Dictionary)
+ * @example
+ * serializePermissionsPolicy({
+ *   camera: "none",
+ *   geolocation: ["self", "https://maps.example.com"],
+ *   fullscreen: "*",
+ * })
+ * // 'camera=(), geolocation=(self "https://maps.example.com"), fullscreen=*'
+ */
+export function serializePermissionsPolicy(
+  policy: HeadersPermissionsPolicy
+): string {
+  const dictionary: Record<string, HeadersSfMemberInput> = {};
+  for (const [feature, allowlist] of Object.entries(policy)) {
+    if (allowlist === undefined) continue;
+    if (!FEATURE_NAME.test(feature)) {
+      throw new Error(`Permissions-Policy: Invalid feature "${feature}".`);
+    }
+    dictionary[feature] = toAllowlistMember(feature, allowlist);
+  }
+  return serializeSfDictionary(dictionary);
+}
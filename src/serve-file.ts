@@ -0,0 +1,170 @@
+import { cacheStrategyFor } from "./cache-strategies";
+import { generateETag } from "./etag";
+import { HeadersBuilder } from "./headers-builder";
+import { negotiateEncoding } from "./negotiation";
+import { rangeBody } from "./range";
+import type {
+  HeadersContentEncoding,
+  HeadersServeFileOptions,
+} from "./types";
+
+/**
+ * File suffixes of precompressed siblings
+ */
+const PRECOMPRESSED_SUFFIXES: Record<HeadersContentEncoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+  zstd: ".zst",
+  deflate: ".deflate",
+};
+
+type OpenedFile = { blob: Blob; size: number; mtime: number };
+
+/**
+ * Stat and open a regular file, with Bun.file on Bun and
+ * fs.openAsBlob elsewhere, so the body is streamed, never buffered
+ */
+async function openFile(path: string): Promise<OpenedFile | null> {
+  try {
+    const fs = await import("node:fs");
+    const stats = await fs.promises.stat(path);
+    if (!stats.isFile()) {
+      return null;
+    }
+
+    const blob =
+      typeof Bun !== "undefined" ? Bun.file(path) : await fs.openAsBlob(path);
+    return { blob, size: stats.size, mtime: stats.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the best precompressed sibling the client accepts,
+ * falling back to the next encoding when a sibling is missing
+ */
+async function openPrecompressed(
+  path: string,
+  acceptEncoding: string | null,
+  encodings: HeadersContentEncoding[]
+): Promise<{ file: OpenedFile; encoding: HeadersContentEncoding } | null> {
+  let remaining = [...encodings];
+
+  while (remaining.length > 0) {
+    const encoding = negotiateEncoding(acceptEncoding, remaining);
+    if (!encoding || encoding === "identity") {
+      return null;
+    }
+
+    const file = await openFile(path + PRECOMPRESSED_SUFFIXES[encoding]);
+    if (file) {
+      return { file, encoding };
+    }
+    remaining = remaining.filter((candidate) => candidate !== encoding);
+  }
+
+  return null;
+}
+
+/**
+ * Serve a static file as a complete Response: Content-Type and cache
+ * strategy from the path (hashed filenames get HASHED_ASSET),
+ * Last-Modified and ETag from the file, 304/412 for conditional
+ * requests, byte ranges, HEAD, and precompressed .br/.gz siblings
+ * @example
+ * Bun.serve({
+ *   fetch(req) {
+ *     const { pathname } = new URL(req.url);
+ *     return serveFile(req, `./public${pathname}`);
+ *   },
+ * });
+ *
+ * // With a base policy and an explicit strategy
+ * serveFile(req, "./public/report.pdf", {
+ *   cache: "DOCUMENT",
+ *   headers: { "X-Content-Type-Options": "nosniff" },
+ * });
+ */
+export async function serveFile(
+  req: Request,
+  path: string,
+  options: HeadersServeFileOptions = {}
+): Promise<Response> {
+  const {
+    cache = cacheStrategyFor(path),
+    precompressed = true,
+    etag = "weak",
+    ranges = true,
+    headers,
+    now,
+  } = options;
+
+  const method = req.method.toUpperCase();
+  if (method !== "GET" && method !== "HEAD") {
+    return new Response(null, {
+      status: 405,
+      headers: { Allow: "GET, HEAD" },
+    });
+  }
+
+  const original = await openFile(path);
+  if (!original) {
+    return new Response(null, { status: 404 });
+  }
+
+  const encodings: HeadersContentEncoding[] =
+    precompressed === true
+      ? ["br", "gzip"]
+      : precompressed === false
+        ? []
+        : precompressed;
+
+  const variant =
+    encodings.length > 0
+      ? await openPrecompressed(
+          path,
+          req.headers.get("Accept-Encoding"),
+          encodings
+        )
+      : null;
+  const file = variant?.file ?? original;
+
+  const builder = headers
+    ? HeadersBuilder.from(headers, { now })
+    : new HeadersBuilder({ now });
+
+  builder
+    .filePath(path)
+    .cache(cache)
+    .lastModified(new Date(file.mtime))
+    .compress(variant?.encoding);
+
+  if (encodings.length > 0) {
+    builder.vary("Accept-Encoding");
+  }
+
+  if (etag === "weak") {
+    builder.weakETag(file.size, file.mtime);
+  } else if (etag === "strong") {
+    builder.eTagValue(await generateETag(file.blob.stream()));
+  }
+
+  const conditional = builder.evaluateConditional(req);
+  if (conditional.response) {
+    return conditional.response;
+  }
+
+  if (!ranges) {
+    return new Response(method === "HEAD" ? null : file.blob, {
+      status: 200,
+      headers: builder.contentLength(file.size).buildHeaders(),
+    });
+  }
+
+  const result = builder.evaluateRange(req, file.size);
+  return new Response(
+    method === "HEAD" ? null : rangeBody(file.blob, result),
+    { status: result.status, headers: result.headers }
+  );
+}
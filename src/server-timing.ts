@@ -0,0 +1,250 @@
+import type {
+  HeadersServerTimingMetric,
+  HeadersServerTimingOptions,
+} from "./types";
+
+/**
+ * RFC 9110 token characters, used for metric names and unquoted values
+ */
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+function serializeDescription(desc: string): string {
+  if (TOKEN.test(desc)) {
+    return desc;
+  }
+  // Control characters are dropped and non-ASCII text percent-encoded,
+  // Headers only accept Latin-1
+  const escaped = desc
+    .replace(/[\x00-\x1f\x7f]/g, "")
+    .replace(/[^\x20-\x7e]+/gu, (text) => encodeURIComponent(text))
+    .replace(/["\\]/g, "\\$&");
+  return `"${escaped}"`;
+}
+
+/**
+ * Serialize metrics into a Server-Timing value
+ * Durations are rounded to two decimals and descriptions quoted and
+ * escaped when needed
+ * @example
+ * serializeServerTiming([
+ *   { name: "db", dur: 53.2, desc: "Primary DB" },
+ *   { name: "cache", desc: "hit" },
+ * ])
+ * // 'db;dur=53.2;desc="Primary DB", cache;desc=hit'
+ */
+export function serializeServerTiming(
+  metrics: HeadersServerTimingMetric[]
+): string {
+  return metrics
+    .map(({ name, dur, desc }) => {
+      if (!TOKEN.test(name)) {
+        throw new Error(`Server-Timing: Invalid metric name "${name}".`);
+      }
+      let metric = name;
+      if (dur !== undefined) {
+        if (!Number.isFinite(dur) || dur < 0) {
+          throw new Error(
+            `Server-Timing: Duration of "${name}" must be a non-negative number.`,
+          );
+        }
+        metric += `;dur=${Number(dur.toFixed(2))}`;
+      }
+      if (desc !== undefined) {
+        metric += `;desc=${serializeDescription(desc)}`;
+      }
+      return metric;
+    })
+    .join(", ");
+}
+
+/**
+ * Parse a Server-Timing value, e.g. from an upstream response
+ * Unknown parameters and malformed metrics are ignored
+ * @example
+ * parseServerTiming('db;dur=53.2;desc="Primary DB", cache;desc=hit')
+ * // [{ name: "db", dur: 53.2, desc: "Primary DB" },
+ * //  { name: "cache", desc: "hit" }]
+ */
+export function parseServerTiming(value: string): HeadersServerTimingMetric[] {
+  const metrics: HeadersServerTimingMetric[] = [];
+
+  for (const entry of value.match(/(?:"(?:\\.|[^"\\])*"|[^,"])+/g) ?? []) {
+    const [rawName, ...params] =
+      entry.match(/(?:"(?:\\.|[^"\\])*"|[^;"])+/g) ?? [];
+    const name = rawName?.trim() ?? "";
+    if (!TOKEN.test(name)) {
+      continue;
+    }
+
+    const metric: HeadersServerTimingMetric = { name };
+    for (const param of params) {
+      const [key = "", ...rest] = param.split("=");
+      const raw = rest.join("=").trim();
+      const paramValue = raw.startsWith('"')
+        ? raw.slice(1, -1).replace(/\\(.)/g, "$1")
+        : raw;
+
+      // Only the first occurrence of a parameter counts
+      const paramName = key.trim().toLowerCase();
+      if (paramName === "dur" && metric.dur === undefined) {
+        const dur = Number(paramValue);
+        metric.dur = Number.isFinite(dur) ? dur : 0;
+      } else if (paramName === "desc" && metric.desc === undefined) {
+        metric.desc = paramValue;
+      }
+    }
+    metrics.push(metric);
+  }
+
+  return metrics;
+}
+
+/**
+ * Compare secrets without leaking their common prefix through timing
+ */
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i % (b.length || 1));
+  }
+  return diff === 0;
+}
+
+/**
+ * Whether Server-Timing may be sent: always in development, and in
+ * production only when the request carries the trusted header
+ * @internal
+ */
+export function isServerTimingEnabled(
+  options: HeadersServerTimingOptions
+): boolean {
+  const isDev = process.env.NODE_ENV !== "production";
+  if (options.enabled ?? isDev) {
+    return true;
+  }
+
+  const { request, trustedHeader } = options;
+  if (!request || !trustedHeader) {
+    return false;
+  }
+  if (typeof trustedHeader === "string") {
+    return request.headers.has(trustedHeader);
+  }
+
+  const [name, secret] = trustedHeader;
+  const value = request.headers.get(name);
+  return value !== null && safeEqual(value, secret);
+}
+
+/**
+ * Collects Server-Timing metrics for one request: named timers,
+ * recorded metrics and metrics merged from nested handlers
+ * @example
+ * const timing = buildServerTiming();
+ *
+ * timing.start("db", "Primary DB");
+ * const rows = await db.query(sql);
+ * timing.end("db");
+ *
+ * const html = await timing.measure("render", () => render(rows));
+ * timing.record("cache", undefined, "miss");
+ *
+ * headers().serverTiming(timing, { request: req }).build()
+ * // Returns: { "Server-Timing": 'db;dur=12.4;desc="Primary DB", render;dur=3.1, cache;desc=miss' }
+ */
+export class ServerTiming {
+  private metrics: HeadersServerTimingMetric[] = [];
+  private timers = new Map<string, { start: number; desc?: string }>();
+  private clock: () => number;
+
+  /**
+   * @param clock Millisecond clock, performance.now() by default
+   */
+  constructor(clock: () => number = () => performance.now()) {
+    this.clock = clock;
+  }
+
+  /**
+   * Start a named timer, restarting it if it is already running
+   */
+  start(name: string, desc?: string): ServerTiming {
+    this.timers.set(name, { start: this.clock(), desc });
+    return this;
+  }
+
+  /**
+   * Stop a named timer and record its duration
+   */
+  end(name: string): ServerTiming {
+    const timer = this.timers.get(name);
+    if (!timer) {
+      throw new Error(`Server-Timing: Timer "${name}" was not started.`);
+    }
+    this.timers.delete(name);
+    return this.record(name, this.clock() - timer.start, timer.desc);
+  }
+
+  /**
+   * Time a sync or async function, recording its duration even when it throws
+   * Measures don't use the named timers, so concurrent measures with the
+   * same name each record their own metric
+   * @example
+   * const user = await timing.measure("auth", () => verify(token));
+   */
+  async measure<T>(
+    name: string,
+    fn: () => T | Promise<T>,
+    desc?: string
+  ): Promise<T> {
+    const start = this.clock();
+    try {
+      return await fn();
+    } finally {
+      this.record(name, this.clock() - start, desc);
+    }
+  }
+
+  /**
+   * Record a metric directly, with an optional duration and description
+   * @example
+   * timing.record("db", 53.2, "Primary DB").record("cache", undefined, "hit")
+   */
+  record(name: string, dur?: number, desc?: string): ServerTiming {
+    const metric: HeadersServerTimingMetric = { name };
+    if (dur !== undefined) metric.dur = dur;
+    if (desc !== undefined) metric.desc = desc;
+    this.metrics.push(metric);
+    return this;
+  }
+
+  /**
+   * Add the metrics of a nested handler, a metric list or an upstream
+   * Server-Timing value
+   * @example
+   * timing.merge(authTiming);
+   * timing.merge(upstream.headers.get("Server-Timing") ?? "");
+   */
+  merge(
+    other: ServerTiming | HeadersServerTimingMetric[] | string
+  ): ServerTiming {
+    const metrics =
+      other instanceof ServerTiming
+        ? other.getMetrics()
+        : typeof other === "string"
+          ? parseServerTiming(other)
+          : other;
+    this.metrics.push(...metrics.map((metric) => ({ ...metric })));
+    return this;
+  }
+
+  /**
+   * Recorded metrics in order, timers still running are left out
+   */
+  getMetrics(): HeadersServerTimingMetric[] {
+    return this.metrics.map((metric) => ({ ...metric }));
+  }
+
+  toString(): string {
+    return serializeServerTiming(this.metrics);
+  }
+}
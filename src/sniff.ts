@@ -0,0 +1,291 @@
+import { lookupMimeType, parseContentType, withCharset } from "./mime-types";
+import type { HeadersSniffResult } from "./types";
+
+type Signature = {
+  mimeType: string;
+  bytes: (number | null)[];
+  offset?: number;
+};
+
+/**
+ * Build a signature from a binary string, "?" matches any byte
+ */
+function sig(mimeType: string, pattern: string, offset?: number): Signature {
+  const bytes = [...pattern].map((char) =>
+    char === "?" ? null : char.charCodeAt(0)
+  );
+  return { mimeType, bytes, offset };
+}
+
+/**
+ * Magic numbers, checked in order. Text formats (HTML, XML, SVG, JSON)
+ * are never sniffed, so detection can't turn an upload into active content
+ */
+const SIGNATURES: Signature[] = [
+  // Images
+  sig("image/png", "\x89PNG\r\n\x1A\n"),
+  sig("image/jpeg", "\xFF\xD8\xFF"),
+  sig("image/gif", "GIF87a"),
+  sig("image/gif", "GIF89a"),
+  sig("image/webp", "RIFF????WEBP"),
+  sig("image/bmp", "BM????\x00\x00\x00\x00"),
+  sig("image/x-icon", "\x00\x00\x01\x00"),
+  sig("image/x-icon", "\x00\x00\x02\x00"),
+  sig("image/tiff", "II*\x00"),
+  sig("image/tiff", "MM\x00*"),
+  sig("image/jxl", "\xFF\x0A"),
+  sig("image/jxl", "\x00\x00\x00\x0CJXL \r\n\x87\n"),
+  sig("image/vnd.adobe.photoshop", "8BPS"),
+
+  // Fonts
+  sig("font/woff", "wOFF"),
+  sig("font/woff2", "wOF2"),
+  sig("font/ttf", "\x00\x01\x00\x00\x00"),
+  sig("font/otf", "OTTO"),
+  sig("font/collection", "ttcf"),
+
+  // Documents & data
+  sig("application/pdf", "%PDF-"),
+  sig("application/postscript", "%!PS"),
+  sig("application/rtf", "{\\rtf"),
+  sig("application/vnd.sqlite3", "SQLite format 3\x00"),
+  sig("application/wasm", "\x00asm"),
+
+  // Archives
+  sig("application/gzip", "\x1F\x8B\x08"),
+  sig("application/x-bzip2", "BZh"),
+  sig("application/x-xz", "\xFD7zXZ\x00"),
+  sig("application/zstd", "\x28\xB5\x2F\xFD"),
+  sig("application/x-7z-compressed", "7z\xBC\xAF\x27\x1C"),
+  sig("application/vnd.rar", "Rar!\x1A\x07"),
+  sig("application/x-tar", "ustar", 257),
+
+  // Audio
+  sig("audio/mpeg", "ID3"),
+  sig("audio/mpeg", "\xFF\xFB"),
+  sig("audio/mpeg", "\xFF\xF3"),
+  sig("audio/mpeg", "\xFF\xF2"),
+  sig("audio/aac", "\xFF\xF1"),
+  sig("audio/aac", "\xFF\xF9"),
+  sig("audio/flac", "fLaC"),
+  sig("audio/wav", "RIFF????WAVE"),
+  sig("audio/x-aiff", "FORM????AIFF"),
+  sig("audio/midi", "MThd"),
+  sig("audio/amr", "#!AMR"),
+
+  // Video
+  sig("video/x-msvideo", "RIFF????AVI "),
+  sig("video/x-flv", "FLV\x01"),
+  sig("video/mpeg", "\x00\x00\x01\xBA"),
+  sig("video/mpeg", "\x00\x00\x01\xB3"),
+
+  // Executables
+  sig("application/octet-stream", "\x7FELF"),
+];
+
+/**
+ * ISO base media file format brands (bytes 8-11 after "ftyp")
+ */
+const FTYP_BRANDS: Record<string, string> = {
+  avif: "image/avif",
+  avis: "image/avif",
+  heic: "image/heic",
+  heix: "image/heic",
+  mif1: "image/heif",
+  msf1: "image/heif",
+  "M4A ": "audio/mp4",
+  "M4B ": "audio/mp4",
+  "M4V ": "video/mp4",
+  "qt  ": "video/quicktime",
+  "3gp4": "video/3gpp",
+  "3gp5": "video/3gpp",
+  "3gp6": "video/3gpp",
+  "3g2a": "video/3gpp2",
+};
+
+/**
+ * Generic container types whose declared type may be more specific,
+ * e.g. a .docx is a ZIP archive and a .m4a is an MP4 container
+ */
+const CONTAINERS: Record<string, string[]> = {
+  "application/zip": [
+    "application/java-archive",
+    "application/vnd.android.package-archive",
+    "application/vnd.google-earth.kmz",
+    "model/vnd.usdz+zip",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.template",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/vnd.oasis.opendocument.text",
+    "application/vnd.oasis.opendocument.spreadsheet",
+    "application/vnd.oasis.opendocument.presentation",
+    "application/vnd.oasis.opendocument.graphics",
+  ],
+  "video/mp4": ["audio/mp4", "video/quicktime", "video/3gpp", "video/3gpp2"],
+  "image/heif": ["image/heic"],
+  "audio/ogg": ["video/ogg"],
+  "video/x-matroska": ["video/webm", "audio/webm"],
+  "audio/mpeg": ["audio/aac"],
+  "image/x-icon": ["image/vnd.microsoft.icon"],
+};
+
+function toBytes(body: ArrayBuffer | Uint8Array): Uint8Array {
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+function matches(bytes: Uint8Array, signature: Signature): boolean {
+  const offset = signature.offset ?? 0;
+  if (bytes.length < offset + signature.bytes.length) {
+    return false;
+  }
+  return signature.bytes.every(
+    (byte, index) => byte === null || bytes[offset + index] === byte
+  );
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * Whether a signature is specific enough to override a declared type:
+ * it has binary bytes or at least 5 fixed characters. Short ASCII
+ * signatures (ID3, BZh, OTTO, MThd, %!PS) are plausible text openings
+ */
+function isStrong(signature: Signature): boolean {
+  const fixed = signature.bytes.filter((byte) => byte !== null);
+  return (
+    fixed.length >= 5 || fixed.some((byte) => byte < 0x20 || byte > 0x7e)
+  );
+}
+
+function sniffContainer(bytes: Uint8Array): string | undefined {
+  // ISO base media (MP4, MOV, AVIF, HEIC, ...)
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    return FTYP_BRANDS[ascii(bytes, 8, 12)] ?? "video/mp4";
+  }
+
+  // ZIP, EPUB declares itself in an uncompressed "mimetype" first entry
+  if (ascii(bytes, 0, 4) === "PK\x03\x04") {
+    return ascii(bytes, 30, 58) === "mimetypeapplication/epub+zip"
+      ? "application/epub+zip"
+      : "application/zip";
+  }
+
+  // Ogg, the first packet identifies the codec
+  if (ascii(bytes, 0, 4) === "OggS") {
+    return ascii(bytes, 28, 35) === "\x80theora" ? "video/ogg" : "audio/ogg";
+  }
+
+  // EBML (Matroska), WebM declares its DocType in the header
+  if (ascii(bytes, 0, 4) === "\x1A\x45\xDF\xA3") {
+    return ascii(bytes, 0, 64).includes("webm")
+      ? "video/webm"
+      : "video/x-matroska";
+  }
+
+  // Windows executables, "MZ" alone is too common to trust
+  if (ascii(bytes, 0, 2) === "MZ" && bytes.length >= 64) {
+    const offset = new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength
+    ).getUint32(0x3c, true);
+    if (ascii(bytes, offset, offset + 4) === "PE\x00\x00") {
+      return "application/octet-stream";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Infer a MIME type from the leading bytes of a body using magic numbers
+ * Only binary formats are detected, returns undefined otherwise
+ * @example
+ * sniffMimeType(await file.arrayBuffer()) // "image/png"
+ */
+export function sniffMimeType(
+  body: ArrayBuffer | Uint8Array
+): string | undefined {
+  return sniff(toBytes(body))?.mimeType;
+}
+
+/**
+ * Sniffed type and whether its signature may override a declared type,
+ * container formats are checked structurally and always count as strong
+ */
+function sniff(
+  bytes: Uint8Array
+): { mimeType: string; strong: boolean } | undefined {
+  const container = sniffContainer(bytes);
+  if (container) {
+    return { mimeType: container, strong: true };
+  }
+
+  const signature = SIGNATURES.find((candidate) => matches(bytes, candidate));
+  return (
+    signature && { mimeType: signature.mimeType, strong: isStrong(signature) }
+  );
+}
+
+/**
+ * Whether a declared type is the sniffed type or a more specific
+ * format inside the same container
+ */
+function isCompatible(declared: string, sniffed: string): boolean {
+  return declared === sniffed || !!CONTAINERS[sniffed]?.includes(declared);
+}
+
+/**
+ * Detect the Content-Type of a file from its path and, when given,
+ * its bytes. Distinctive binary signatures win over the extension, so
+ * uploads with a wrong extension are served with their real type and
+ * stay safe to combine with X-Content-Type-Options: nosniff
+ * A declared text/* type is never replaced, and neither is any
+ * declared type by a short ASCII signature, those only report the
+ * mismatch
+ * @example
+ * detectContentType("avatar.png", bytes)
+ * // { contentType: "image/jpeg", declared: "image/png",
+ * //   sniffed: "image/jpeg", mismatch: true }
+ *
+ * detectContentType("data.csv", new TextEncoder().encode("ID3,name"))
+ * // { contentType: "text/csv", declared: "text/csv",
+ * //   sniffed: "audio/mpeg", mismatch: true }
+ */
+export function detectContentType(
+  path: string,
+  body?: ArrayBuffer | Uint8Array
+): HeadersSniffResult {
+  const declared = lookupMimeType(path);
+  const match = body ? sniff(toBytes(body)) : undefined;
+
+  if (!match) {
+    return {
+      contentType: declared ?? "application/octet-stream",
+      declared,
+      mismatch: false,
+    };
+  }
+
+  const sniffed = match.mimeType;
+  const declaredType = declared && parseContentType(declared).mimeType;
+  if (declaredType && isCompatible(declaredType, sniffed)) {
+    return { contentType: declared, declared, sniffed, mismatch: false };
+  }
+
+  // A generic binary extension (.bin) doesn't claim a specific type
+  const mismatch =
+    !!declaredType && declaredType !== "application/octet-stream";
+  const keepDeclared =
+    mismatch && (declaredType.startsWith("text/") || !match.strong);
+
+  return {
+    contentType: keepDeclared ? declared : withCharset(sniffed),
+    declared,
+    sniffed,
+    mismatch,
+  };
+}
@@ -0,0 +1,613 @@
+import type {
+  HeadersSfBareItem,
+  HeadersSfDictionary,
+  HeadersSfDictionaryInput,
+  HeadersSfInnerList,
+  HeadersSfItem,
+  HeadersSfItemInput,
+  HeadersSfList,
+  HeadersSfListInput,
+  HeadersSfMember,
+  HeadersSfMemberInput,
+  HeadersSfParameters,
+  HeadersSfType,
+} from "./types";
+
+const KEY = /^[a-z*][a-z0-9_\-.*]*$/;
+const TOKEN = /^[A-Za-z*][!#$%&'*+\-.^_`|~0-9A-Za-z:/]*$/;
+const TOKEN_CHAR = /[!#$%&'*+\-.^_`|~0-9A-Za-z:/]/;
+const KEY_CHAR = /[a-z0-9_\-.*]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Largest Integer (15 digits)
+ */
+const MAX_INTEGER = 999999999999999;
+
+/**
+ * Token bare item, e.g. the self in Permissions-Policy
+ * @example
+ * serializeSfList([new SfToken("self"), "https://example.com"])
+ * // 'self, "https://example.com"'
+ */
+export class SfToken {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Decimal bare item, only needed for whole values that must stay
+ * decimals (1.0 rather than 1), numbers with a fraction already are
+ */
+export class SfDecimal {
+  constructor(readonly value: number) {}
+
+  valueOf(): number {
+    return this.value;
+  }
+}
+
+/**
+ * Display String bare item (RFC 9651), for text outside printable ASCII
+ * @example
+ * serializeSfItem(new SfDisplayString("füü"))
+ * // '%"f%c3%bc%c3%bc"'
+ */
+export class SfDisplayString {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+function fail(message: string): never {
+  throw new Error(`Structured Fields: ${message}`);
+}
+
+function serializeKey(key: string): string {
+  if (!KEY.test(key)) {
+    fail(`Invalid key "${key}", use lowercase letters, digits, _, -, . and *.`);
+  }
+  return key;
+}
+
+function serializeInteger(value: number): string {
+  if (Math.abs(value) > MAX_INTEGER) {
+    fail(`Integer ${value} is out of range.`);
+  }
+  return String(value);
+}
+
+function serializeDecimal(value: number): string {
+  if (!Number.isFinite(value)) {
+    fail(`${value} is not a valid Decimal.`);
+  }
+
+  // Three fractional digits, rounding half to even
+  const scaled = value * 1000;
+  let rounded = Math.round(scaled);
+  if (Math.abs(scaled % 1) === 0.5 && rounded % 2 !== 0) {
+    rounded -= 1;
+  }
+  if (Math.abs(rounded) >= 1e15) {
+    fail(`Decimal ${value} has more than 12 integer digits.`);
+  }
+
+  return (rounded / 1000).toFixed(3).replace(/0{1,2}$/, "");
+}
+
+function serializeString(value: string): string {
+  let result = '"';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 0x20 || code > 0x7e) {
+      fail(
+        `String "${value}" contains characters outside printable ASCII, ` +
+          "use SfDisplayString.",
+      );
+    }
+    result += char === '"' || char === "\\" ? `\\${char}` : char;
+  }
+  return `${result}"`;
+}
+
+function serializeDisplayString(value: string): string {
+  let result = '%"';
+  for (const byte of new TextEncoder().encode(value)) {
+    result +=
+      byte === 0x25 || byte === 0x22 || byte < 0x20 || byte > 0x7e
+        ? `%${byte.toString(16).padStart(2, "0")}`
+        : String.fromCharCode(byte);
+  }
+  return `${result}"`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function serializeBareItem(value: HeadersSfBareItem): string {
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? serializeInteger(value)
+      : serializeDecimal(value);
+  }
+  if (typeof value === "string") {
+    return serializeString(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "?1" : "?0";
+  }
+  if (value instanceof SfToken) {
+    if (!TOKEN.test(value.value)) {
+      fail(`Invalid token "${value.value}".`);
+    }
+    return value.value;
+  }
+  if (value instanceof SfDecimal) {
+    return serializeDecimal(value.value);
+  }
+  if (value instanceof SfDisplayString) {
+    return serializeDisplayString(value.value);
+  }
+  if (value instanceof Uint8Array) {
+    return `:${toBase64(value)}:`;
+  }
+  if (value instanceof Date) {
+    const seconds = Math.floor(value.getTime() / 1000);
+    if (Number.isNaN(seconds)) {
+      fail("Invalid Date.");
+    }
+    return `@${serializeInteger(seconds)}`;
+  }
+  return fail(`Unsupported value ${String(value)}.`);
+}
+
+function serializeParameters(params: HeadersSfParameters): string {
+  return Object.entries(params)
+    .map(([key, value]) =>
+      value === true
+        ? `;${serializeKey(key)}`
+        : `;${serializeKey(key)}=${serializeBareItem(value)}`
+    )
+    .join("");
+}
+
+/**
+ * Whether an input is an explicit { value, params } member rather than
+ * a bare item or a dictionary
+ */
+function isWrapped(
+  input: unknown
+): input is { value: unknown; params?: HeadersSfParameters } {
+  if (typeof input !== "object" || input === null || !("value" in input)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(input);
+  return (
+    (proto === Object.prototype || proto === null) &&
+    Object.keys(input).every((key) => key === "value" || key === "params")
+  );
+}
+
+function toItem(input: HeadersSfItemInput): HeadersSfItem {
+  return isWrapped(input)
+    ? { value: input.value as HeadersSfBareItem, params: input.params ?? {} }
+    : { value: input as HeadersSfBareItem, params: {} };
+}
+
+function toMember(input: HeadersSfMemberInput): HeadersSfMember {
+  if (Array.isArray(input)) {
+    return { value: input.map(toItem), params: {} };
+  }
+  if (isWrapped(input) && Array.isArray(input.value)) {
+    return {
+      value: (input.value as HeadersSfItemInput[]).map(toItem),
+      params: input.params ?? {},
+    };
+  }
+  return toItem(input as HeadersSfItemInput);
+}
+
+function serializeMember(member: HeadersSfMember): string {
+  const value = Array.isArray(member.value)
+    ? `(${member.value.map(serializeItemMember).join(" ")})`
+    : serializeBareItem(member.value);
+  return value + serializeParameters(member.params);
+}
+
+function serializeItemMember(item: HeadersSfItem): string {
+  return serializeBareItem(item.value) + serializeParameters(item.params);
+}
+
+/**
+ * Serialize a Structured Field Item
+ * @example
+ * serializeSfItem(5) // "5"
+ * serializeSfItem({ value: new SfToken("miss"), params: { ttl: 30 } })
+ * // "miss;ttl=30"
+ */
+export function serializeSfItem(item: HeadersSfItemInput): string {
+  return serializeItemMember(toItem(item));
+}
+
+/**
+ * Serialize a Structured Field List, arrays become Inner Lists
+ * An empty list serializes to "" and the field should not be sent
+ * @example
+ * serializeSfList([new SfToken("sugar"), ["a", "b"], { value: 1, params: { q: 0.5 } }])
+ * // 'sugar, ("a" "b"), 1;q=0.5'
+ */
+export function serializeSfList(list: HeadersSfListInput): string {
+  return list.map((member) => serializeMember(toMember(member))).join(", ");
+}
+
+/**
+ * Serialize a Structured Field Dictionary, true values are written as
+ * bare keys
+ * @example
+ * serializeSfDictionary({ u: 1, i: true })
+ * // "u=1, i"
+ */
+export function serializeSfDictionary(
+  dictionary: HeadersSfDictionaryInput
+): string {
+  return Object.entries(dictionary)
+    .map(([key, input]) => {
+      const member = toMember(input);
+      return member.value === true
+        ? serializeKey(key) + serializeParameters(member.params)
+        : `${serializeKey(key)}=${serializeMember(member)}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Serialize any Structured Field, inferring the type when omitted:
+ * arrays are Lists, plain objects Dictionaries, everything else Items
+ * @example
+ * serializeStructuredField({ u: 3, i: false }) // "u=3, i=?0"
+ * serializeStructuredField([new SfToken("gzip"), new SfToken("br")]) // "gzip, br"
+ */
+export function serializeStructuredField(
+  value: HeadersSfItemInput | HeadersSfListInput | HeadersSfDictionaryInput,
+  type?: HeadersSfType
+): string {
+  const inferred =
+    type ??
+    (Array.isArray(value)
+      ? "list"
+      : isWrapped(value) ||
+          typeof value !== "object" ||
+          Object.getPrototypeOf(value) !== Object.prototype
+        ? "item"
+        : "dictionary");
+
+  switch (inferred) {
+    case "list":
+      return serializeSfList(value as HeadersSfListInput);
+    case "dictionary":
+      return serializeSfDictionary(value as HeadersSfDictionaryInput);
+    default:
+      return serializeSfItem(value as HeadersSfItemInput);
+  }
+}
+
+/**
+ * RFC 9651 parsing algorithms over a cursor, throwing on invalid input
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private input: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private peek(): string {
+    return this.input[this.pos] ?? "";
+  }
+
+  private consume(): string {
+    return this.input[this.pos++] ?? "";
+  }
+
+  private expect(char: string): void {
+    if (this.consume() !== char) {
+      fail(`Expected "${char}" at ${this.pos - 1}.`);
+    }
+  }
+
+  skipSpaces(): void {
+    while (this.peek() === " ") this.pos++;
+  }
+
+  private skipOws(): void {
+    while (this.peek() === " " || this.peek() === "\t") this.pos++;
+  }
+
+  list(): HeadersSfList {
+    const members: HeadersSfList = [];
+    while (!this.done) {
+      members.push(this.member());
+      this.skipOws();
+      if (this.done) break;
+      this.expect(",");
+      this.skipOws();
+      if (this.done) fail("Trailing comma.");
+    }
+    return members;
+  }
+
+  dictionary(): HeadersSfDictionary {
+    const dictionary: HeadersSfDictionary = {};
+    while (!this.done) {
+      const key = this.key();
+      if (this.peek() === "=") {
+        this.pos++;
+        dictionary[key] = this.member();
+      } else {
+        dictionary[key] = { value: true, params: this.parameters() };
+      }
+      this.skipOws();
+      if (this.done) break;
+      this.expect(",");
+      this.skipOws();
+      if (this.done) fail("Trailing comma.");
+    }
+    return dictionary;
+  }
+
+  item(): HeadersSfItem {
+    return { value: this.bareItem(), params: this.parameters() };
+  }
+
+  private member(): HeadersSfMember {
+    return this.peek() === "(" ? this.innerList() : this.item();
+  }
+
+  private innerList(): HeadersSfInnerList {
+    this.expect("(");
+    const items: HeadersSfItem[] = [];
+    while (!this.done) {
+      this.skipSpaces();
+      if (this.peek() === ")") {
+        this.pos++;
+        return { value: items, params: this.parameters() };
+      }
+      items.push(this.item());
+      if (this.peek() !== " " && this.peek() !== ")") {
+        fail(`Unexpected "${this.peek()}" in inner list.`);
+      }
+    }
+    return fail("Unterminated inner list.");
+  }
+
+  private parameters(): HeadersSfParameters {
+    const params: HeadersSfParameters = {};
+    while (this.peek() === ";") {
+      this.pos++;
+      this.skipSpaces();
+      const key = this.key();
+      let value: HeadersSfBareItem = true;
+      if (this.peek() === "=") {
+        this.pos++;
+        value = this.bareItem();
+      }
+      params[key] = value;
+    }
+    return params;
+  }
+
+  private key(): string {
+    if (!/[a-z*]/.test(this.peek())) {
+      fail(`Invalid key at ${this.pos}.`);
+    }
+    let key = "";
+    while (KEY_CHAR.test(this.peek())) key += this.consume();
+    return key;
+  }
+
+  private bareItem(): HeadersSfBareItem {
+    const char = this.peek();
+    if (char === "-" || DIGIT.test(char)) return this.number();
+    if (char === '"') return this.string();
+    if (char === "*" || /[A-Za-z]/.test(char)) return this.token();
+    if (char === ":") return this.byteSequence();
+    if (char === "?") return this.boolean();
+    if (char === "@") return this.date();
+    if (char === "%") return this.displayString();
+    return fail(`Unexpected "${char}" at ${this.pos}.`);
+  }
+
+  private number(): number | SfDecimal {
+    const sign = this.peek() === "-" ? -1 : 1;
+    if (sign === -1) this.pos++;
+    if (!DIGIT.test(this.peek())) {
+      fail(`Expected a digit at ${this.pos}.`);
+    }
+
+    let digits = "";
+    let decimal = false;
+    while (!this.done) {
+      const char = this.peek();
+      if (DIGIT.test(char)) {
+        digits += char;
+      } else if (!decimal && char === ".") {
+        if (digits.length > 12) fail("Decimal has too many integer digits.");
+        digits += char;
+        decimal = true;
+      } else {
+        break;
+      }
+      this.pos++;
+      if (digits.length > (decimal ? 16 : 15)) fail("Number is too long.");
+    }
+
+    if (!decimal) {
+      return sign * Number(digits) || 0;
+    }
+    const fraction = digits.length - digits.indexOf(".") - 1;
+    if (fraction === 0 || fraction > 3) {
+      fail(`Decimal "${digits}" must have 1 to 3 fractional digits.`);
+    }
+    const value = sign * Number(digits) || 0;
+    return Number.isInteger(value) ? new SfDecimal(value) : value;
+  }
+
+  private string(): string {
+    this.expect('"');
+    let result = "";
+    while (!this.done) {
+      const char = this.consume();
+      if (char === "\\") {
+        const escaped = this.consume();
+        if (escaped !== '"' && escaped !== "\\") {
+          fail("Invalid escape in string.");
+        }
+        result += escaped;
+      } else if (char === '"') {
+        return result;
+      } else {
+        const code = char.charCodeAt(0);
+        if (code < 0x20 || code > 0x7e) fail("Invalid character in string.");
+        result += char;
+      }
+    }
+    return fail("Unterminated string.");
+  }
+
+  private token(): SfToken {
+    let token = this.consume();
+    while (TOKEN_CHAR.test(this.peek())) token += this.consume();
+    return new SfToken(token);
+  }
+
+  private byteSequence(): Uint8Array {
+    this.expect(":");
+    const end = this.input.indexOf(":", this.pos);
+    if (end === -1) fail("Unterminated byte sequence.");
+    const encoded = this.input.slice(this.pos, end);
+    this.pos = end + 1;
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) {
+      fail("Invalid base64 in byte sequence.");
+    }
+    return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+  }
+
+  private boolean(): boolean {
+    this.expect("?");
+    const char = this.consume();
+    if (char !== "0" && char !== "1") fail("Invalid boolean.");
+    return char === "1";
+  }
+
+  private date(): Date {
+    this.expect("@");
+    const seconds = this.number();
+    if (typeof seconds !== "number" || !Number.isInteger(seconds)) {
+      fail("Dates must be integers.");
+    }
+    return new Date(seconds * 1000);
+  }
+
+  private displayString(): SfDisplayString {
+    this.expect("%");
+    this.expect('"');
+    const bytes: number[] = [];
+    while (!this.done) {
+      const char = this.consume();
+      const code = char.charCodeAt(0);
+      if (code < 0x20 || code > 0x7e) {
+        fail("Invalid character in display string.");
+      }
+      if (char === "%") {
+        const hex = this.input.slice(this.pos, this.pos + 2);
+        if (!/^[0-9a-f]{2}$/.test(hex)) fail("Invalid percent-encoding.");
+        bytes.push(parseInt(hex, 16));
+        this.pos += 2;
+      } else if (char === '"') {
+        const text = new TextDecoder("utf-8", { fatal: true }).decode(
+          new Uint8Array(bytes)
+        );
+        return new SfDisplayString(text);
+      } else {
+        bytes.push(code);
+      }
+    }
+    return fail("Unterminated display string.");
+  }
+}
+
+function parse<T>(value: string, read: (parser: Parser) => T): T | undefined {
+  try {
+    const parser = new Parser(value);
+    parser.skipSpaces();
+    const result = read(parser);
+    parser.skipSpaces();
+    return parser.done ? result : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a Structured Field Item, undefined when invalid
+ * @example
+ * parseSfItem("miss;ttl=30")
+ * // { value: SfToken { value: "miss" }, params: { ttl: 30 } }
+ */
+export function parseSfItem(value: string): HeadersSfItem | undefined {
+  return parse(value, (parser) => parser.item());
+}
+
+/**
+ * Parse a Structured Field List, undefined when invalid
+ * @example
+ * parseSfList('"a", ("b" "c");x')
+ * // [{ value: "a", params: {} },
+ * //  { value: [{ value: "b", params: {} }, { value: "c", params: {} }], params: { x: true } }]
+ */
+export function parseSfList(value: string): HeadersSfList | undefined {
+  return parse(value, (parser) => parser.list());
+}
+
+/**
+ * Parse a Structured Field Dictionary, undefined when invalid
+ * @example
+ * parseSfDictionary("u=1, i")
+ * // { u: { value: 1, params: {} }, i: { value: true, params: {} } }
+ */
+export function parseSfDictionary(
+  value: string
+): HeadersSfDictionary | undefined {
+  return parse(value, (parser) => parser.dictionary());
+}
+
+/**
+ * Parse a Structured Field of the given type, undefined when invalid
+ * @example
+ * parseStructuredField(req.headers.get("Priority") ?? "", "dictionary")
+ */
+export function parseStructuredField(
+  value: string,
+  type: HeadersSfType
+): HeadersSfItem | HeadersSfList | HeadersSfDictionary | undefined {
+  switch (type) {
+    case "list":
+      return parseSfList(value);
+    case "dictionary":
+      return parseSfDictionary(value);
+    default:
+      return parseSfItem(value);
+  }
+}
@@ -1,3 +1,9 @@
+import type { CorsPolicy } from "./cors";
+import type { CspBuilder } from "./csp";
+import type { HeadersBuilder } from "./headers-builder";
+import type { MIME_TYPES } from "./mime-types";
+import type { SfDecimal, SfDisplayString, SfToken } from "./structured-fields";
+
 export type HeadersCacheStrategy =
   // Generic time-based strategies
   | "NO_CACHE"
@@ -63,3 +69,1438 @@ export type HeadersContentTypeInput =
   | "zip"
   | "tar"
   | "gzip";
+
+export type HeadersConditionalVerdict =
+  | "proceed" // No precondition applied, send the full response
+  | "not-modified" // 304 - client copy is still valid
+  | "precondition-failed"; // 412 - a precondition evaluated to false
+
+export interface HeadersConditionalValidators {
+  etag?: string;
+  lastModified?: Date | string;
+  /**
+   * Whether a current representation exists, which is what "*" matches.
+   * Defaults to true when an etag or lastModified is given
+   */
+  exists?: boolean;
+}
+
+/**
+ * Header fields as a plain record, or a Headers object that keeps
+ * repeated fields such as Set-Cookie on separate lines
+ */
+export type HeadersFields = Record<string, string> | Headers;
+
+export interface HeadersConditionalResult<
+  H extends HeadersFields = Record<string, string>,
+> {
+  verdict: HeadersConditionalVerdict;
+  status: 200 | 304 | 412;
+  /** Headers to send with this status (a subset for 304/412) */
+  headers: H;
+  /** Ready-to-return response for 304/412, undefined when proceeding */
+  response?: Response;
+}
+
+export type HeadersCspDirective =
+  // Fetch directives
+  | "default-src"
+  | "script-src"
+  | "script-src-elem"
+  | "script-src-attr"
+  | "style-src"
+  | "style-src-elem"
+  | "style-src-attr"
+  | "img-src"
+  | "font-src"
+  | "connect-src"
+  | "media-src"
+  | "object-src"
+  | "frame-src"
+  | "child-src"
+  | "worker-src"
+  | "manifest-src"
+  | "prefetch-src"
+  | "fenced-frame-src"
+
+  // Document & navigation directives
+  | "base-uri"
+  | "form-action"
+  | "frame-ancestors"
+  | "sandbox"
+
+  // Reporting directives
+  | "report-to"
+  | "report-uri"
+
+  // Other directives
+  | "upgrade-insecure-requests"
+  | "block-all-mixed-content" // Deprecated, kept for older browsers
+  | "require-trusted-types-for"
+  | "trusted-types";
+
+export type HeadersCspKeyword =
+  | "'self'"
+  | "'none'"
+  | "'unsafe-inline'"
+  | "'unsafe-eval'"
+  | "'unsafe-hashes'"
+  | "'strict-dynamic'"
+  | "'report-sample'"
+  | "'wasm-unsafe-eval'"
+  | "'inline-speculation-rules'";
+
+// Keywords (quoted or bare), hosts, schemes, nonces and hashes
+export type HeadersCspSource =
+  | HeadersCspKeyword
+  | "self"
+  | "none"
+  | "unsafe-inline"
+  | "unsafe-eval"
+  | "strict-dynamic"
+  | (string & {});
+
+export type HeadersCspHashAlgorithm = "sha256" | "sha384" | "sha512";
+
+// Exact origin, wildcard pattern ("*.example.com", "http://localhost:*") or RegExp
+export type HeadersCorsOrigin = string | RegExp;
+
+export interface HeadersCorsPolicyOptions {
+  origins: "*" | HeadersCorsOrigin[] | ((origin: string) => boolean);
+  methods?: string[];
+  /** "*" echoes whatever the preflight requested */
+  allowedHeaders?: string[] | "*";
+  exposedHeaders?: string[];
+  credentials?: boolean;
+  maxAge?: number;
+  /** Answer Private Network Access preflights */
+  privateNetwork?: boolean;
+}
+
+export interface HeadersCorsPreflightResult {
+  allowed: boolean;
+  status: 204 | 403;
+  /** Why the preflight was rejected, for logging */
+  reason?: string;
+  headers: Record<string, string>;
+  response: Response;
+}
+
+// Inclusive byte range, as in Content-Range
+export interface HeadersByteRange {
+  start: number;
+  end: number;
+}
+
+export interface HeadersRangePart {
+  range: HeadersByteRange;
+  /** Boundary line and part headers written before the range bytes */
+  head: string;
+}
+
+export interface HeadersRangeResult<
+  H extends HeadersFields = Record<string, string>,
+> {
+  status: 200 | 206 | 416;
+  /** Satisfiable ranges, empty when sending the full content or on 416 */
+  ranges: HeadersByteRange[];
+  headers: H;
+  /** Present for multi-range responses (multipart/byteranges) */
+  multipart?: {
+    boundary: string;
+    parts: HeadersRangePart[];
+    tail: string;
+  };
+}
+
+export type HeadersContentEncoding = "gzip" | "br" | "deflate" | "zstd";
+
+export interface HeadersAcceptEntry {
+  value: string;
+  q: number;
+  params: Record<string, string>;
+}
+
+export interface HeadersNegotiationOptions<
+  T extends HeadersContentTypeInput = HeadersContentTypeInput,
+> {
+  /** Supported content types, in server preference order */
+  types?: T[];
+  /** Supported encodings, in server preference order */
+  encodings?: HeadersContentEncoding[];
+  /** Supported language tags, in server preference order */
+  languages?: string[];
+}
+
+export interface HeadersNegotiationResult<
+  T extends HeadersContentTypeInput = HeadersContentTypeInput,
+> {
+  /** False when no supported type (or encoding) is acceptable */
+  acceptable: boolean;
+  status: 200 | 406;
+  type?: T;
+  /** "identity" means send uncompressed */
+  encoding?: HeadersContentEncoding | "identity";
+  language?: string;
+  /** Request headers the choice depended on */
+  vary: string[];
+  /** Ready 406 response when nothing is acceptable */
+  response?: Response;
+}
+
+/**
+ * Structured Cache-Control directives (RFC 9111, RFC 5861)
+ * Field-name lists on private/no-cache produce the qualified form,
+ * e.g. private: ["Set-Cookie"] gives private="Set-Cookie"
+ */
+export interface HeadersCacheControl {
+  // Response directives
+  public?: boolean;
+  private?: boolean | string[];
+  noCache?: boolean | string[];
+  noStore?: boolean;
+  noTransform?: boolean;
+  maxAge?: number;
+  sMaxAge?: number;
+  mustRevalidate?: boolean;
+  proxyRevalidate?: boolean;
+  mustUnderstand?: boolean;
+  immutable?: boolean;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+
+  // Request directives
+  maxStale?: number;
+  minFresh?: number;
+  onlyIfCached?: boolean;
+}
+
+export type HeadersCacheControlTarget =
+  | "Cache-Control"
+  | "CDN-Cache-Control" // RFC 9213, targets CDNs only
+  | "Surrogate-Control"; // Edge/reverse proxy caches (Fastly, Akamai)
+
+/**
+ * How Expires is computed at build() time
+ * "past" marks the response as already expired (epoch),
+ * "max-age" derives the date from Cache-Control max-age
+ */
+export type HeadersExpiresMode = "past" | "max-age";
+
+export interface HeadersBuilderOptions {
+  /** Clock used for time-relative headers like Expires (for tests) */
+  now?: () => Date;
+}
+
+export type HeadersRedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+/** Anything the Response constructor accepts as a body */
+export type HeadersResponseBody = ConstructorParameters<typeof Response>[0];
+
+export interface HeadersResponseInit {
+  /** Overrides the builder's status */
+  status?: number;
+  statusText?: string;
+  /** The incoming request, HEAD requests get no body */
+  request?: Request;
+}
+
+/**
+ * RFC 9457 problem details, with extension members typed by E
+ * @example
+ * const details: HeadersProblemDetails<{ balance: number }> = {
+ *   type: "https://example.com/probs/out-of-credit",
+ *   status: 403,
+ *   balance: 30,
+ * };
+ */
+export type HeadersProblemDetails<
+  E extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  /** URI identifying the problem type, "about:blank" by default */
+  type?: string;
+  /** Short summary, the status' reason phrase for "about:blank" */
+  title?: string;
+  /** 4xx or 5xx, 500 by default */
+  status?: number;
+  detail?: string;
+  /** URI identifying this occurrence */
+  instance?: string;
+} & E;
+
+export type HeadersProblemFormat = "json" | "xml";
+
+export interface HeadersProblemInit
+  extends Omit<HeadersResponseInit, "status"> {
+  /** application/problem+json (default) or application/problem+xml */
+  format?: HeadersProblemFormat;
+}
+
+export interface HeadersETag {
+  /** The full tag as sent, e.g. W/"abc" */
+  tag: string;
+  /** The opaque value without quotes */
+  value: string;
+  weak: boolean;
+}
+
+export interface HeadersContentType {
+  /** Lowercased type/subtype without parameters */
+  mimeType: string;
+  type: string;
+  subtype: string;
+  params: Record<string, string>;
+}
+
+export interface HeadersCorsFields {
+  allowOrigin?: string;
+  allowMethods: string[];
+  allowHeaders: string[];
+  exposeHeaders: string[];
+  allowCredentials: boolean;
+  allowPrivateNetwork: boolean;
+  maxAge?: number;
+}
+
+export interface HeadersParsedCsp {
+  reportOnly: boolean;
+  directives: Record<string, string[]>;
+}
+
+export type HeadersInput = Headers | Response | Record<string, string>;
+
+export interface HeadersParsed {
+  /** All headers with canonical names, e.g. "Content-Type" */
+  raw: Record<string, string>;
+  cacheControl?: HeadersCacheControl;
+  etag?: HeadersETag;
+  lastModified?: Date;
+  expires?: Date;
+  contentType?: HeadersContentType;
+  contentLength?: number;
+  vary: string[];
+  cors: HeadersCorsFields;
+  csp?: HeadersParsedCsp;
+  links: HeadersParsedLink[];
+}
+
+export type HeadersCookieSameSite = "Strict" | "Lax" | "None";
+
+export interface HeadersCookieOptions {
+  /** Lifetime in seconds, 0 or negative expires the cookie immediately */
+  maxAge?: number;
+  expires?: Date;
+  domain?: string;
+  /** Default: "/" */
+  path?: string;
+  /** Default: true, forced for SameSite=None and Partitioned */
+  secure?: boolean;
+  /** Default: true */
+  httpOnly?: boolean;
+  /** Default: "Lax", false omits the attribute */
+  sameSite?: HeadersCookieSameSite | false;
+  /** CHIPS partitioned cookie, implies Secure */
+  partitioned?: boolean;
+  priority?: "Low" | "Medium" | "High";
+  /** Value encoder, default encodeURIComponent */
+  encode?: (value: string) => string;
+}
+
+export interface HeadersMimeEntry {
+  /** File extensions without the dot, preferred extension first */
+  extensions: string[];
+  /** Default charset appended to the Content-Type, e.g. "utf-8" */
+  charset?: string;
+  /** Whether the type benefits from gzip/br compression */
+  compressible: boolean;
+}
+
+export interface HeadersMimeInfo extends HeadersMimeEntry {
+  mimeType: string;
+}
+
+export interface HeadersSniffResult {
+  /** Content-Type to send, the sniffed type wins over the extension */
+  contentType: string;
+  /** Type from the file extension */
+  declared?: string;
+  /** Type from the body's magic number */
+  sniffed?: string;
+  /** The extension and the body disagree */
+  mismatch: boolean;
+}
+
+export type HeadersETagAlgorithm = "SHA-1" | "SHA-256";
+
+export type HeadersETagSource = string | ArrayBuffer | Uint8Array;
+
+export interface HeadersETagOptions {
+  /** Default: "SHA-1" */
+  algorithm?: HeadersETagAlgorithm;
+  /** Characters of the base64url digest kept, default 27 (all of SHA-1) */
+  length?: number;
+  /** Emit W/"..." for semantically equivalent, not byte-identical content */
+  weak?: boolean;
+}
+
+export interface HeadersServeFileOptions extends HeadersBuilderOptions {
+  /** Cache strategy, picked from the path by default */
+  cache?: HeadersCacheStrategy;
+  /** Precompressed siblings to serve, default true (["br", "gzip"]) */
+  precompressed?: boolean | HeadersContentEncoding[];
+  /** "weak" from size + mtime (default), "strong" hashes the file */
+  etag?: "weak" | "strong" | false;
+  /** Answer Range requests with 206/416, default true */
+  ranges?: boolean;
+  /** Base headers for every response, e.g. security or CORS headers */
+  headers?: HeadersInput;
+}
+
+export interface HeadersReportToGroup {
+  /** Default: "default" */
+  group?: string;
+  /** Seconds the browser remembers the group */
+  maxAge: number;
+  endpoints: (string | { url: string; priority?: number; weight?: number })[];
+  includeSubdomains?: boolean;
+}
+
+export interface HeadersNelOptions {
+  /** Report-To group receiving network error reports */
+  reportTo: string;
+  /** Seconds the browser keeps the policy, 0 removes it */
+  maxAge: number;
+  includeSubdomains?: boolean;
+  /** Share of successful requests reported, 0-1 (default 0) */
+  successFraction?: number;
+  /** Share of failed requests reported, 0-1 (default 1) */
+  failureFraction?: number;
+  requestHeaders?: string[];
+  responseHeaders?: string[];
+}
+
+/**
+ * Endpoint names each reporting-capable header reports to
+ */
+export interface HeadersReportingGroups {
+  csp?: string;
+  coop?: string;
+  coep?: string;
+  permissionsPolicy?: string;
+}
+
+export interface HeadersReportingOptions extends HeadersReportingGroups {
+  /** Reporting-Endpoints, endpoint name to URL */
+  endpoints: Record<string, string>;
+  /** Also send legacy Report-To groups with this max_age (seconds) */
+  legacy?: number;
+}
+
+export interface HeadersReport<
+  TBody extends object = Record<string, unknown>,
+> {
+  /** e.g. "csp-violation", "network-error", "deprecation" */
+  type: string;
+  /** Document (or request, for NEL) the report is about */
+  url: string;
+  /** Milliseconds between the report and its delivery */
+  age: number;
+  userAgent?: string;
+  /** Report body with camelCase keys */
+  body: TBody;
+}
+
+export interface HeadersCspViolation {
+  documentURL: string;
+  blockedURL?: string;
+  effectiveDirective: string;
+  originalPolicy: string;
+  disposition: "enforce" | "report";
+  referrer?: string;
+  statusCode?: number;
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  sample?: string;
+}
+
+export interface HeadersNetworkError {
+  samplingFraction: number;
+  elapsedTime: number;
+  phase: "dns" | "connection" | "application";
+  /** e.g. "ok", "dns.name_not_resolved", "tcp.timed_out", "http.error" */
+  type: string;
+  serverIp?: string;
+  protocol?: string;
+  referrer?: string;
+  method?: string;
+  statusCode?: number;
+}
+
+export interface HeadersPermissionsPolicyViolation {
+  featureId: string;
+  disposition: "enforce" | "report";
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  message?: string;
+}
+
+export interface HeadersCrossOriginViolation {
+  disposition: "enforce" | "reporting";
+  type: string;
+  blockedURL?: string;
+  destination?: string;
+  effectivePolicy?: string;
+}
+
+export interface HeadersDeprecationReport {
+  id: string;
+  message: string;
+  anticipatedRemoval?: string;
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+/**
+ * Body types of the known report types, see isReport()
+ */
+export interface HeadersReportBodies {
+  "csp-violation": HeadersCspViolation;
+  "network-error": HeadersNetworkError;
+  "permissions-policy-violation": HeadersPermissionsPolicyViolation;
+  coep: HeadersCrossOriginViolation;
+  coop: HeadersCrossOriginViolation;
+  deprecation: HeadersDeprecationReport;
+}
+
+export interface HeadersHstsOptions {
+  /** Seconds, default 31536000 (one year) */
+  maxAge?: number;
+  /** Default: true */
+  includeSubDomains?: boolean;
+  /** Opt in to the browsers' preload list, requires max-age >= 1 year and includeSubDomains */
+  preload?: boolean;
+}
+
+export type HeadersPermissionsFeature =
+  | "accelerometer"
+  | "ambient-light-sensor"
+  | "attribution-reporting"
+  | "autoplay"
+  | "bluetooth"
+  | "browsing-topics"
+  | "camera"
+  | "compute-pressure"
+  | "cross-origin-isolated"
+  | "display-capture"
+  | "encrypted-media"
+  | "fullscreen"
+  | "gamepad"
+  | "geolocation"
+  | "gyroscope"
+  | "hid"
+  | "identity-credentials-get"
+  | "idle-detection"
+  | "local-fonts"
+  | "magnetometer"
+  | "microphone"
+  | "midi"
+  | "otp-credentials"
+  | "payment"
+  | "picture-in-picture"
+  | "publickey-credentials-create"
+  | "publickey-credentials-get"
+  | "screen-wake-lock"
+  | "serial"
+  | "storage-access"
+  | "usb"
+  | "web-share"
+  | "window-management"
+  | "xr-spatial-tracking";
+
+/**
+ * "*" allows every origin, "self" the document's origin, "none" (or [])
+ * disables the feature; lists combine "self", "src" and origins
+ */
+export type HeadersPermissionsAllowlist =
+  | "*"
+  | "self"
+  | "none"
+  | ("*" | "self" | "src" | (string & {}))[];
+
+export type HeadersPermissionsPolicy = {
+  [F in HeadersPermissionsFeature]?: HeadersPermissionsAllowlist;
+} & Record<string, HeadersPermissionsAllowlist | undefined>;
+
+export type HeadersReferrerPolicy =
+  | "no-referrer"
+  | "no-referrer-when-downgrade"
+  | "origin"
+  | "origin-when-cross-origin"
+  | "same-origin"
+  | "strict-origin"
+  | "strict-origin-when-cross-origin"
+  | "unsafe-url";
+
+export type HeadersCoop =
+  | "same-origin"
+  | "same-origin-allow-popups"
+  | "noopener-allow-popups"
+  | "unsafe-none";
+
+export type HeadersCoep = "require-corp" | "credentialless" | "unsafe-none";
+
+export type HeadersCorp = "same-origin" | "same-site" | "cross-origin";
+
+export interface HeadersSecurityOptions {
+  csp?: string | CspBuilder;
+  /** true (default) for one year with includeSubDomains, a max-age, or full options */
+  hsts?: boolean | number | HeadersHstsOptions;
+  /** X-Content-Type-Options: nosniff, default true */
+  noSniff?: boolean;
+  /** X-Frame-Options, default "SAMEORIGIN" */
+  frameOptions?: "DENY" | "SAMEORIGIN" | (string & {}) | false;
+  /**
+   * @deprecated X-XSS-Protection is ignored by current browsers and the
+   * legacy XSS auditor could be abused, use a CSP instead. Default false
+   */
+  xssProtection?: boolean;
+  /** Cross-Origin-Opener-Policy */
+  coop?: HeadersCoop;
+  /** Cross-Origin-Embedder-Policy */
+  coep?: HeadersCoep;
+  /** Cross-Origin-Resource-Policy */
+  corp?: HeadersCorp;
+  /** Referrer-Policy, default "strict-origin-when-cross-origin" */
+  referrerPolicy?: HeadersReferrerPolicy | HeadersReferrerPolicy[] | false;
+  permissionsPolicy?: HeadersPermissionsPolicy;
+  /** X-Permitted-Cross-Domain-Policies (Flash/PDF clients) */
+  permittedCrossDomainPolicies?:
+    | "none"
+    | "master-only"
+    | "by-content-type"
+    | "by-ftp-filename"
+    | "all";
+  /** Origin-Agent-Cluster: ?1 requests an origin-keyed agent cluster */
+  originAgentCluster?: boolean;
+}
+
+export type HeadersAuditSeverity =
+  | "critical"
+  | "high"
+  | "medium"
+  | "low"
+  | "info";
+
+export type HeadersAuditGrade = "A+" | "A" | "B" | "C" | "D" | "E" | "F";
+
+export interface HeadersAuditFinding {
+  /** Stable identifier, e.g. "csp-unsafe-inline" */
+  id: string;
+  severity: HeadersAuditSeverity;
+  header: string;
+  message: string;
+  remediation: string;
+}
+
+export interface HeadersAuditOptions {
+  /**
+   * Whether the response is an HTML document, which expects CSP, framing
+   * and policy headers. Default: inferred from Content-Type, true without one
+   */
+  document?: boolean;
+  /** Whether the response is served over https, default true */
+  https?: boolean;
+  /** Finding ids to leave out, e.g. ["permissions-policy-missing"] */
+  ignore?: string[];
+  /** Reference time for Expires checks */
+  now?: Date;
+}
+
+export interface HeadersAuditResult {
+  /** 0 to 100 */
+  score: number;
+  grade: HeadersAuditGrade;
+  /** Sorted by severity, most severe first */
+  findings: HeadersAuditFinding[];
+}
+
+/**
+ * Structured Field bare item (RFC 9651): numbers are Integers when whole
+ * and Decimals otherwise, strings are Strings, Uint8Array is a Byte Sequence
+ */
+export type HeadersSfBareItem =
+  | number
+  | string
+  | boolean
+  | Uint8Array
+  | Date
+  | SfToken
+  | SfDecimal
+  | SfDisplayString;
+
+export type HeadersSfParameters = Record<string, HeadersSfBareItem>;
+
+export interface HeadersSfItem {
+  value: HeadersSfBareItem;
+  params: HeadersSfParameters;
+}
+
+export interface HeadersSfInnerList {
+  value: HeadersSfItem[];
+  params: HeadersSfParameters;
+}
+
+export type HeadersSfMember = HeadersSfItem | HeadersSfInnerList;
+
+export type HeadersSfList = HeadersSfMember[];
+
+export type HeadersSfDictionary = Record<string, HeadersSfMember>;
+
+/** An Item, written as a bare item when it has no parameters */
+export type HeadersSfItemInput =
+  | HeadersSfBareItem
+  | { value: HeadersSfBareItem; params?: HeadersSfParameters };
+
+/** An Item or Inner List, written as an array when it has no parameters */
+export type HeadersSfMemberInput =
+  | HeadersSfItemInput
+  | HeadersSfItemInput[]
+  | { value: HeadersSfItemInput[]; params?: HeadersSfParameters };
+
+export type HeadersSfListInput = HeadersSfMemberInput[];
+
+export type HeadersSfDictionaryInput = Record<string, HeadersSfMemberInput>;
+
+export type HeadersSfType = "item" | "list" | "dictionary";
+
+export type HeadersLinkRel =
+  | "preload"
+  | "modulepreload"
+  | "preconnect"
+  | "dns-prefetch"
+  | "prefetch"
+  | "stylesheet"
+  | "icon"
+  | "manifest"
+  | "canonical"
+  | "alternate"
+  | "next"
+  | "prev"
+  | "first"
+  | "last"
+  | (string & {});
+
+export type HeadersLinkAs =
+  | "audio"
+  | "document"
+  | "embed"
+  | "fetch"
+  | "font"
+  | "image"
+  | "object"
+  | "script"
+  | "style"
+  | "track"
+  | "video"
+  | "worker";
+
+export interface HeadersLink {
+  href: string;
+  rel: HeadersLinkRel | HeadersLinkRel[];
+  /** Request destination, required for preload */
+  as?: HeadersLinkAs;
+  /** MIME type, lets browsers skip formats they don't support */
+  type?: string;
+  /** true means anonymous, required when preloading fonts */
+  crossorigin?: true | "anonymous" | "use-credentials";
+  fetchpriority?: "high" | "low" | "auto";
+  /** Responsive image preloads, with as: "image" */
+  imagesrcset?: string;
+  imagesizes?: string;
+  integrity?: string;
+  media?: string;
+  referrerpolicy?: HeadersReferrerPolicy;
+  /** Non-ASCII titles are sent as title* (RFC 8187) */
+  title?: string;
+  hreflang?: string;
+  /** Any other target attribute, true for a bare parameter */
+  params?: Record<string, string | true>;
+}
+
+export interface HeadersParsedLink {
+  /** Resolved against the base URL when one is given */
+  href: string;
+  /** Lowercase relation types */
+  rel: string[];
+  /** Other parameters with lowercase names, title* decoded into title */
+  params: Record<string, string | true>;
+}
+
+export interface HeadersServerTimingMetric {
+  name: string;
+  /** Duration in milliseconds */
+  dur?: number;
+  desc?: string;
+}
+
+export interface HeadersServerTimingOptions {
+  /** Auto: true in development, false in production */
+  enabled?: boolean;
+  /** Incoming request, checked for the trusted header when disabled */
+  request?: Request;
+  /**
+   * Request header that turns output on when disabled: a name that only
+   * a trusted proxy sets, or a [name, secret] pair
+   */
+  trustedHeader?: string | [name: string, value: string];
+}
+
+/**
+ * How merge() resolves a header set by both builders:
+ * "override" keeps the incoming value, "append" keeps both,
+ * "error" throws when the values differ
+ */
+export type HeadersMergeStrategy = "override" | "append" | "error";
+
+export interface HeadersMergeOptions {
+  /**
+   * Default: "override". List headers (Vary, Link, Server-Timing,
+   * Set-Cookie) always append unless listed in headers
+   */
+  strategy?: HeadersMergeStrategy;
+  /** Per-header strategies, case-insensitive, e.g. { "Cache-Control": "error" } */
+  headers?: Record<string, HeadersMergeStrategy>;
+}
+
+/**
+ * Named, JSON-serializable header set created with definePolicy()
+ * or toPolicy()
+ */
+export interface HeadersPolicy {
+  readonly name: string;
+  /** Header values, arrays for headers with several values (Set-Cookie) */
+  readonly headers: Readonly<Record<string, string | readonly string[]>>;
+  /** Expires mode, or an ISO date for a fixed expiry */
+  readonly expires?: HeadersExpiresMode | false | string;
+  readonly reporting?: Readonly<HeadersReportingGroups>;
+  /** Headers build() requires, see requires() */
+  readonly required?: readonly string[];
+  /** Response status, see status() */
+  readonly status?: number;
+}
+
+/**
+ * Headers a typed builder is known to set, name to value
+ * Headers a method may or may not set are optional
+ */
+export type HeadersTracked = Record<string, string>;
+
+type HeadersSimplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Tracked names matching one of N, compared case-insensitively
+ */
+type HeadersKeyOf<T extends HeadersTracked, N extends string> = {
+  [K in keyof T & string]: Lowercase<K> extends Lowercase<N> ? K : never;
+}[keyof T & string];
+
+/**
+ * Names in N that aren't tracked yet, under any casing
+ */
+type HeadersNewNames<T extends HeadersTracked, N extends string> =
+  N extends unknown
+    ? Lowercase<N> extends Lowercase<keyof T & string>
+      ? never
+      : N
+    : never;
+
+/**
+ * Tracked headers with headers (re)set. A header already tracked keeps
+ * the casing it was first written with, like the runtime store
+ */
+type HeadersWith<
+  T extends HeadersTracked,
+  N extends string,
+  V extends string = string,
+> = HeadersSimplify<
+  Omit<T, HeadersKeyOf<T, N>> & {
+    [K in HeadersKeyOf<T, N> | HeadersNewNames<T, N>]: V;
+  }
+>;
+
+/**
+ * Tracked headers with headers a method may set: new ones are optional,
+ * tracked ones keep their optionality and widen to string
+ */
+type HeadersMaybe<T extends HeadersTracked, N extends string> = HeadersSimplify<
+  {
+    [K in keyof T]: K extends HeadersKeyOf<T, N> ? string : T[K];
+  } & { [K in HeadersNewNames<T, N>]?: string }
+>;
+
+/**
+ * Tracked headers without the headers matching N
+ */
+type HeadersWithout<
+  T extends HeadersTracked,
+  N extends string,
+> = HeadersSimplify<Omit<T, HeadersKeyOf<T, N>>>;
+
+/**
+ * Required headers that haven't been set yet. Headers a method may set
+ * count as set, build() still checks them at runtime
+ */
+export type HeadersMissing<
+  T extends HeadersTracked,
+  R extends string,
+> = HeadersNewNames<T, R>;
+
+/**
+ * Arguments of build() and the response methods: their usual arguments
+ * once every required header is set, otherwise the call fails to
+ * type-check and names the header
+ */
+type HeadersRequiredArgs<
+  T extends HeadersTracked,
+  R extends string,
+  A extends unknown[],
+> = [HeadersMissing<T, R>] extends [never]
+  ? A
+  : [missing: `Missing required header: ${HeadersMissing<T, R>}`];
+
+type HeadersBuildArgs<
+  T extends HeadersTracked,
+  R extends string,
+> = HeadersRequiredArgs<T, R, [content?: string | ArrayBuffer | Uint8Array]>;
+
+/**
+ * Methods that set a header only once, calling them again is a type error
+ */
+type HeadersOnce<T extends HeadersTracked, N extends string, F> = [
+  HeadersKeyOf<T, N>,
+] extends [never]
+  ? F
+  : (error: `${N} is already set, use custom() to replace it`) => never;
+
+type HeadersMimeTypeOf<K extends HeadersContentTypeInput> =
+  K extends keyof typeof MIME_TYPES ? (typeof MIME_TYPES)[K] : string;
+
+/**
+ * Tracked headers after expires(): "max-age" only adds Expires when
+ * Cache-Control has a max-age at build time
+ */
+type HeadersExpires<T extends HeadersTracked, V> = V extends false
+  ? HeadersWithout<T, "Expires">
+  : V extends "max-age"
+    ? HeadersMaybe<HeadersWithout<T, "Expires">, "Expires">
+    : HeadersWith<T, "Expires">;
+
+/**
+ * Whether a method sets a header
+ */
+type HeadersEffect = "yes" | "no" | "maybe";
+
+type HeadersCollapse<E extends HeadersEffect> = [E] extends ["yes"]
+  ? "yes"
+  : [E] extends ["no"]
+    ? "no"
+    : "maybe";
+
+type HeadersOption<O, K extends string> = K extends keyof O ? O[K] : undefined;
+
+/**
+ * Effect of an option that sets its header when truthy, D when left out
+ */
+type HeadersTruthy<V, D extends HeadersEffect = "no"> = HeadersCollapse<
+  V extends undefined ? D : V extends false | 0 | "" ? "no" : "yes"
+>;
+
+/**
+ * Effect of an option that sets its header whenever it is given
+ */
+type HeadersDefined<V> = HeadersCollapse<V extends undefined ? "no" : "yes">;
+
+/**
+ * Effect of a CSP on its header, a CspBuilder may be report-only
+ */
+type HeadersCspEffect<V, ReportOnly extends boolean> = HeadersCollapse<
+  V extends CspBuilder
+    ? "maybe"
+    : ReportOnly extends true
+      ? "no"
+      : V extends undefined | ""
+        ? "no"
+        : "yes"
+>;
+
+type HeadersEffectNames<E, S extends HeadersEffect> = {
+  [K in keyof E]: E[K] extends S ? K : never;
+}[keyof E] &
+  string;
+
+/**
+ * Tracked headers after a method with the given effects, header name
+ * to effect
+ */
+type HeadersApply<T extends HeadersTracked, E> = HeadersMaybe<
+  HeadersWith<T, HeadersEffectNames<E, "yes">>,
+  HeadersEffectNames<E, "maybe">
+>;
+
+type HeadersCspEffects<V> = {
+  "Content-Security-Policy": HeadersCspEffect<V, false>;
+  "Content-Security-Policy-Report-Only": HeadersCspEffect<V, true>;
+};
+
+type HeadersSecurityEffects<O> = HeadersCspEffects<HeadersOption<O, "csp">> & {
+  "Strict-Transport-Security": HeadersTruthy<HeadersOption<O, "hsts">, "yes">;
+  "X-Content-Type-Options": HeadersTruthy<HeadersOption<O, "noSniff">, "yes">;
+  "X-Frame-Options": HeadersTruthy<HeadersOption<O, "frameOptions">, "yes">;
+  "X-XSS-Protection": HeadersTruthy<HeadersOption<O, "xssProtection">>;
+  "Cross-Origin-Opener-Policy": HeadersTruthy<HeadersOption<O, "coop">>;
+  "Cross-Origin-Embedder-Policy": HeadersTruthy<HeadersOption<O, "coep">>;
+  "Cross-Origin-Resource-Policy": HeadersTruthy<HeadersOption<O, "corp">>;
+  "Referrer-Policy": HeadersTruthy<HeadersOption<O, "referrerPolicy">, "yes">;
+  "Permissions-Policy": HeadersTruthy<
+    HeadersOption<O, "permissionsPolicy">
+  >;
+  "X-Permitted-Cross-Domain-Policies": HeadersTruthy<
+    HeadersOption<O, "permittedCrossDomainPolicies">
+  >;
+  "Origin-Agent-Cluster": HeadersDefined<
+    HeadersOption<O, "originAgentCluster">
+  >;
+};
+
+/**
+ * cors() options with the origin and credentials kept literal
+ */
+type HeadersCorsOptions<O, C> = Omit<
+  NonNullable<Parameters<HeadersBuilder["cors"]>[0]>,
+  "origin" | "credentials"
+> & { origin?: O; credentials?: C };
+
+/**
+ * A null origin only adds Vary, credentials default to on for any
+ * origin but "*"
+ */
+type HeadersCorsEffects<O, C> = {
+  Vary: HeadersCollapse<O extends null ? "yes" : "no">;
+  "Access-Control-Allow-Origin": HeadersCollapse<O extends null ? "no" : "yes">;
+  "Access-Control-Allow-Methods": HeadersCollapse<
+    O extends null ? "no" : "yes"
+  >;
+  "Access-Control-Allow-Headers": HeadersCollapse<
+    O extends null ? "no" : "yes"
+  >;
+  "Access-Control-Max-Age": HeadersCollapse<O extends null ? "no" : "yes">;
+  "Access-Control-Allow-Credentials": HeadersCollapse<
+    O extends null
+      ? "no"
+      : C extends boolean
+        ? C extends true
+          ? "yes"
+          : "no"
+        : O extends "*"
+          ? "no"
+          : string extends O
+            ? "maybe"
+            : "yes"
+  >;
+};
+
+/**
+ * Headers a problem response sets, or drops and so no longer requires
+ */
+type HeadersProblemHeaders =
+  | "Content-Type"
+  | "Cache-Control"
+  | "Content-Length"
+  | "Content-Encoding"
+  | "Content-Language"
+  | "Content-Range"
+  | "Content-Disposition"
+  | "Content-Location"
+  | "ETag"
+  | "Last-Modified"
+  | "Location";
+
+/**
+ * Methods whose effect on the header set is tracked
+ */
+type HeadersTrackedMethods =
+  | "contentType"
+  | "filePath"
+  | "mimeType"
+  | "cache"
+  | "cacheControl"
+  | "expires"
+  | "eTag"
+  | "eTagValue"
+  | "weakETag"
+  | "lastModified"
+  | "contentLength"
+  | "redirect"
+  | "cookie"
+  | "clearCookie"
+  | "cors"
+  | "csp"
+  | "corsFor"
+  | "security"
+  | "hsts"
+  | "permissionsPolicy"
+  | "serverTiming"
+  | "timingAllowOrigin"
+  | "link"
+  | "crossOriginIsolated"
+  | "reportingEndpoints"
+  | "reportTo"
+  | "nel"
+  | "reporting"
+  | "custom"
+  | "structured"
+  | "append"
+  | "remove"
+  | "customHeaders"
+  | "vary"
+  | "compress"
+  | "requires"
+  | "build"
+  | "buildEntries"
+  | "buildHeaders"
+  | "response"
+  | "json"
+  | "text"
+  | "html"
+  | "stream"
+  | "noContent"
+  | "problem"
+  | "tooManyRequests"
+  | "methodNotAllowed";
+
+/**
+ * Every other builder method, still chainable but leaving the
+ * tracked headers unchanged
+ */
+type HeadersUntracked<T extends HeadersTracked, R extends string> = {
+  [K in Exclude<
+    keyof HeadersBuilder,
+    HeadersTrackedMethods
+  >]: HeadersBuilder[K] extends (...args: infer A) => HeadersBuilder
+    ? (...args: A) => HeadersTypedBuilder<T, R>
+    : HeadersBuilder[K];
+};
+
+/**
+ * HeadersBuilder whose type accumulates the headers it sets (with
+ * literal values where known) and the headers required before build()
+ * or a response method
+ * The runtime object is a plain HeadersBuilder, see typedHeaders()
+ */
+export type HeadersTypedBuilder<
+  T extends HeadersTracked = {},
+  R extends string = never,
+> = HeadersUntracked<T, R> & {
+  contentType: HeadersOnce<
+    T,
+    "Content-Type",
+    <K extends HeadersContentTypeInput>(
+      type: K
+    ) => HeadersTypedBuilder<
+      HeadersWith<T, "Content-Type", HeadersMimeTypeOf<K>>,
+      R
+    >
+  >;
+  filePath: HeadersOnce<
+    T,
+    "Content-Type",
+    (
+      path: string,
+      body?: ArrayBuffer | Uint8Array
+    ) => HeadersTypedBuilder<HeadersWith<T, "Content-Type">, R>
+  >;
+  mimeType: HeadersOnce<
+    T,
+    "Content-Type",
+    <M extends string>(
+      mimeType: M
+    ) => HeadersTypedBuilder<HeadersWith<T, "Content-Type", M>, R>
+  >;
+  /** Strategies pick their own Expires mode, so it may be missing */
+  cache(
+    strategy: HeadersCacheStrategy,
+    extension?: HeadersCacheControl
+  ): HeadersTypedBuilder<
+    HeadersMaybe<
+      HeadersWith<HeadersWithout<T, "Expires">, "Cache-Control">,
+      "Expires"
+    >,
+    R
+  >;
+  cacheControl<N extends HeadersCacheControlTarget = "Cache-Control">(
+    directives: HeadersCacheControl,
+    target?: N
+  ): HeadersTypedBuilder<HeadersWith<T, N>, R>;
+  expires<V extends HeadersExpiresMode | Date | false>(
+    value: V
+  ): HeadersTypedBuilder<HeadersExpires<T, V>, R>;
+  /** Skipped without content, so ETag is only known when it's given */
+  eTag(): HeadersTypedBuilder<T, R>;
+  eTag<C extends HeadersETagSource | undefined>(
+    content: C,
+    options?: HeadersETagOptions
+  ): HeadersTypedBuilder<HeadersApply<T, { ETag: HeadersTruthy<C> }>, R>;
+  eTagValue(tag: string): HeadersTypedBuilder<HeadersWith<T, "ETag">, R>;
+  weakETag(
+    size: number,
+    mtime: Date | number
+  ): HeadersTypedBuilder<HeadersWith<T, "ETag">, R>;
+  lastModified(
+    date: Date
+  ): HeadersTypedBuilder<HeadersWith<T, "Last-Modified">, R>;
+  contentLength(
+    bytes: number
+  ): HeadersTypedBuilder<HeadersWith<T, "Content-Length">, R>;
+  redirect<U extends string>(
+    url: U,
+    status?: HeadersRedirectStatus | boolean
+  ): HeadersTypedBuilder<HeadersWith<T, "Location", U>, R>;
+  cookie(
+    name: string,
+    value: string,
+    options?: HeadersCookieOptions
+  ): HeadersTypedBuilder<HeadersWith<T, "Set-Cookie">, R>;
+  clearCookie(
+    name: string,
+    options?: Pick<HeadersCookieOptions, "domain" | "path" | "secure">
+  ): HeadersTypedBuilder<HeadersWith<T, "Set-Cookie">, R>;
+  cors<
+    O extends string | null = "*",
+    C extends boolean | undefined = undefined,
+  >(
+    options?: HeadersCorsOptions<O, C>
+  ): HeadersTypedBuilder<HeadersApply<T, HeadersCorsEffects<O, C>>, R>;
+  csp<P extends string | CspBuilder>(
+    policy: P
+  ): HeadersTypedBuilder<HeadersApply<T, HeadersCspEffects<P>>, R>;
+  /** Sets CORS headers only for allowed origins, so they may be missing */
+  corsFor(
+    req: Request,
+    policy: CorsPolicy
+  ): HeadersTypedBuilder<
+    HeadersMaybe<
+      T,
+      | "Vary"
+      | "Access-Control-Allow-Origin"
+      | "Access-Control-Allow-Credentials"
+      | "Access-Control-Expose-Headers"
+    >,
+    R
+  >;
+  security<O extends HeadersSecurityOptions = {}>(
+    options?: O
+  ): HeadersTypedBuilder<HeadersApply<T, HeadersSecurityEffects<O>>, R>;
+  hsts(
+    options?: HeadersHstsOptions
+  ): HeadersTypedBuilder<HeadersWith<T, "Strict-Transport-Security">, R>;
+  permissionsPolicy(
+    policy: HeadersPermissionsPolicy
+  ): HeadersTypedBuilder<HeadersWith<T, "Permissions-Policy">, R>;
+  /** Only sent when enabled for the request, so it may be missing */
+  serverTiming(
+    ...args: Parameters<HeadersBuilder["serverTiming"]>
+  ): HeadersTypedBuilder<HeadersMaybe<T, "Server-Timing">, R>;
+  timingAllowOrigin(
+    ...origins: string[]
+  ): HeadersTypedBuilder<HeadersWith<T, "Timing-Allow-Origin">, R>;
+  link(
+    ...links: HeadersLink[]
+  ): HeadersTypedBuilder<HeadersWith<T, "Link">, R>;
+  crossOriginIsolated(
+    coep?: Exclude<HeadersCoep, "unsafe-none">
+  ): HeadersTypedBuilder<
+    HeadersWith<
+      T,
+      "Cross-Origin-Opener-Policy" | "Cross-Origin-Embedder-Policy"
+    >,
+    R
+  >;
+  reportingEndpoints(
+    endpoints: Record<string, string>
+  ): HeadersTypedBuilder<HeadersWith<T, "Reporting-Endpoints">, R>;
+  reportTo(
+    ...groups: HeadersReportToGroup[]
+  ): HeadersTypedBuilder<HeadersWith<T, "Report-To">, R>;
+  nel(
+    options: HeadersNelOptions
+  ): HeadersTypedBuilder<HeadersWith<T, "NEL">, R>;
+  reporting<O extends HeadersReportingOptions>(
+    options: O
+  ): HeadersTypedBuilder<
+    HeadersApply<
+      T,
+      {
+        "Reporting-Endpoints": "yes";
+        "Report-To": HeadersDefined<HeadersOption<O, "legacy">>;
+      }
+    >,
+    R
+  >;
+  custom<N extends string, V extends string>(
+    name: N,
+    value: V
+  ): HeadersTypedBuilder<HeadersWith<T, N, V>, R>;
+  structured<N extends string>(
+    name: N,
+    value: HeadersSfItemInput | HeadersSfListInput | HeadersSfDictionaryInput,
+    type?: HeadersSfType
+  ): HeadersTypedBuilder<HeadersWith<T, N>, R>;
+  append<N extends string>(
+    name: N,
+    value: string
+  ): HeadersTypedBuilder<HeadersWith<T, N>, R>;
+  remove<N extends string>(
+    name: N
+  ): HeadersTypedBuilder<HeadersWithout<T, N>, R>;
+  customHeaders<H extends Record<string, string>>(
+    headers: H
+  ): HeadersTypedBuilder<HeadersWith<T, keyof H & string>, R>;
+  vary(...fields: string[]): HeadersTypedBuilder<HeadersWith<T, "Vary">, R>;
+  compress(): HeadersTypedBuilder<T, R>;
+  compress<E extends HeadersContentEncoding | undefined>(
+    encoding: E
+  ): HeadersTypedBuilder<
+    HeadersApply<T, { "Content-Encoding": HeadersTruthy<E> }>,
+    R
+  >;
+  /** Require headers before build(), checked by the compiler and at runtime */
+  requires<N extends string>(...names: N[]): HeadersTypedBuilder<T, R | N>;
+  /** Content-Length is added when content is given */
+  build(
+    ...args: HeadersBuildArgs<T, R>
+  ): HeadersMaybe<T, "Content-Length">;
+  buildEntries(...args: HeadersBuildArgs<T, R>): [string, string][];
+  buildHeaders(...args: HeadersBuildArgs<T, R>): Headers;
+  response(
+    ...args: HeadersRequiredArgs<T, R, Parameters<HeadersBuilder["response"]>>
+  ): Response;
+  json(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, "Content-Type">,
+      R,
+      Parameters<HeadersBuilder["json"]>
+    >
+  ): Response;
+  text(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, "Content-Type">,
+      R,
+      Parameters<HeadersBuilder["text"]>
+    >
+  ): Response;
+  html(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, "Content-Type">,
+      R,
+      Parameters<HeadersBuilder["html"]>
+    >
+  ): Response;
+  stream(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, "Content-Type">,
+      R,
+      Parameters<HeadersBuilder["stream"]>
+    >
+  ): Response;
+  noContent(
+    ...args: HeadersRequiredArgs<T, R, Parameters<HeadersBuilder["noContent"]>>
+  ): Response;
+  problem<E extends Record<string, unknown> = {}>(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, HeadersProblemHeaders>,
+      R,
+      [details: HeadersProblemDetails<E>, init?: HeadersProblemInit]
+    >
+  ): Response;
+  tooManyRequests<E extends Record<string, unknown> = {}>(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, HeadersProblemHeaders | "Retry-After">,
+      R,
+      [
+        retryAfter: number | Date,
+        details?: HeadersProblemDetails<E>,
+        init?: HeadersProblemInit,
+      ]
+    >
+  ): Response;
+  methodNotAllowed<E extends Record<string, unknown> = {}>(
+    ...args: HeadersRequiredArgs<
+      HeadersWith<T, HeadersProblemHeaders | "Allow">,
+      R,
+      [
+        methods: string[],
+        details?: HeadersProblemDetails<E>,
+        init?: HeadersProblemInit,
+      ]
+    >
+  ): Response;
+};
+
+export interface HeadersMiddlewareOptions {
+  /** Answer preflights and add CORS headers to every response */
+  cors?: CorsPolicy;
+  /**
+   * Answer GET/HEAD with 304/412 from the response's ETag and
+   * Last-Modified, default true
+   */
+  conditional?: boolean;
+}
+
+/** The parts of Node's IncomingMessage the adapters read */
+export interface HeadersNodeRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** The parts of Node's ServerResponse the adapters use */
+export interface HeadersNodeResponse {
+  statusCode: number;
+  getHeader(name: string): number | string | string[] | undefined;
+  getHeaderNames(): string[];
+  setHeader(name: string, value: number | string | readonly string[]): unknown;
+  removeHeader(name: string): void;
+  writeHead(statusCode: number, ...args: unknown[]): unknown;
+  write(chunk: unknown, ...args: unknown[]): boolean;
+  end(...args: unknown[]): unknown;
+}
+
+/** Express' Response on top of ServerResponse */
+export interface HeadersExpressResponse extends HeadersNodeResponse {
+  set(field: string, value: string | string[]): unknown;
+}
+
+/** The parts of Hono's Context the adapter uses */
+export interface HeadersHonoContext {
+  req: { raw: Request };
+  res: Response | undefined;
+  header(
+    name: string,
+    value: string | undefined,
+    options?: { append?: boolean }
+  ): void;
+}
+
+/** The parts of Elysia's Context the adapter uses */
+export interface HeadersElysiaContext {
+  request: Request;
+  set: {
+    headers: Record<string, unknown>;
+    /** A status code or name such as "Created", 200 when unset */
+    status?: number | string;
+  };
+  response?: unknown;
+}
@@ -1,3 +1,6 @@
+import { matchCorsOrigin } from "./cors";
+import type { HeadersCorsOrigin } from "./types";
+
 /**
  * Hash function for ETags using Bun's built-in hashing
  */
@@ -15,6 +18,8 @@
  * Hash function for ETags using Bun's built-in hashing
  * in Bun, crypto in node, and a fallback
  * for environments without crypto
+ * @deprecated Results differ between runtimes, use generateETagSync()
+ * or generateETag() for ETags
  */
 export function hashContent(
   content: string | ArrayBuffer | Uint8Array
@@ -59,17 +64,18 @@ export function hashContent(
 /**
  * Internal utility for handling CORS origins with automatic dev mode detection
  * In development: allows ALL origins automatically
- * In production: strict matching only
+ * In production: matches exact origins, wildcard patterns and regexes
  * Empty array: returns the request origin (for full-stack apps on same domain)
+ * Returns null for disallowed origins so they are never echoed back
  * @internal
  */
 export function getCorsOrigin(
   req: Request,
-  allowedOrigins: string[],
+  allowedOrigins: HeadersCorsOrigin[],
   options?: {
     allowAll?: boolean; // Auto: true in dev, false in prod
   }
-): string {
+): string | null {
   const requestOrigin = req.headers.get("Origin");
 
   // Detect environment
@@ -87,16 +93,46 @@ export function getCorsOrigin(
     return requestOrigin || "*";
   }
 
-  // No Origin header (same-origin request)
+  // No Origin header (same-origin request), CORS headers are not needed
   if (!requestOrigin) {
-    return allowedOrigins[0];
+    return null;
   }
 
-  // Direct match - always allowed
-  if (allowedOrigins.includes(requestOrigin)) {
+  if (matchCorsOrigin(requestOrigin, allowedOrigins)) {
     return requestOrigin;
   }
 
-  // No match in production, return first allowed origin
-  return allowedOrigins[0];
+  // No match, never fall back to another allowed origin
+  return null;
+}
+
+/**
+ * Header names whose canonical casing isn't plain Title-Case
+ */
+const SPECIAL_HEADER_NAMES: Record<string, string> = {
+  etag: "ETag",
+  "www-authenticate": "WWW-Authenticate",
+  "x-xss-protection": "X-XSS-Protection",
+  "cdn-cache-control": "CDN-Cache-Control",
+  "content-md5": "Content-MD5",
+  nel: "NEL",
+  dnt: "DNT",
+  te: "TE",
+};
+
+/**
+ * Canonical casing for a header name, as HeadersBuilder writes it
+ * @example
+ * canonicalHeaderName("content-type") // "Content-Type"
+ * canonicalHeaderName("etag") // "ETag"
+ */
+export function canonicalHeaderName(name: string): string {
+  const lower = name.toLowerCase();
+  return (
+    SPECIAL_HEADER_NAMES[lower] ??
+    lower.replace(
+      /(^|-)([a-z])/g,
+      (_, dash: string, char: string) => dash + char.toUpperCase()
+    )
+  );
 }
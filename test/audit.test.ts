@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import { auditHeaders, buildHeaders, commonHeaders } from "../src/index";
+
+const ids = (...args: Parameters<typeof auditHeaders>) =>
+  auditHeaders(...args).findings.map((finding) => finding.id);
+
+describe("auditHeaders", () => {
+  test("grades a hardened page A+", () => {
+    const result = auditHeaders(
+      buildHeaders()
+        .contentType("html")
+        .security({
+          csp: "default-src 'self'; object-src 'none'; base-uri 'self'",
+          permissionsPolicy: { camera: "none" },
+        })
+        .build()
+    );
+
+    expect(result).toEqual({ score: 100, grade: "A+", findings: [] });
+  });
+
+  test("flags the weak secure preset, most severe first", () => {
+    const result = auditHeaders(commonHeaders.secure().build());
+    const found = result.findings.map((finding) => finding.id);
+
+    expect(found[0]).toBe("csp-unsafe-inline");
+    expect(found).toContain("csp-unsafe-inline-style");
+    expect(found).toContain("x-powered-by");
+    expect(result.score).toBeLessThan(90);
+    expect(result.findings[0]).toMatchObject({
+      severity: "high",
+      header: "Content-Security-Policy",
+    });
+  });
+
+  test("reports missing headers on documents only", () => {
+    expect(ids({}, { https: true })).toEqual([
+      "hsts-missing",
+      "csp-missing",
+      "frame-protection-missing",
+      "nosniff-missing",
+      "referrer-policy-missing",
+      "permissions-policy-missing",
+    ]);
+    expect(ids({ "Content-Type": "application/json" })).toEqual([
+      "hsts-missing",
+      "nosniff-missing",
+    ]);
+  });
+
+  test("checks CSP sources", () => {
+    const audit = (csp: string) =>
+      ids({ "Content-Security-Policy": csp }, { document: false });
+
+    expect(audit("script-src * 'unsafe-eval'; object-src 'none'")).toEqual(
+      expect.arrayContaining(["csp-wildcard-source", "csp-unsafe-eval"])
+    );
+    expect(
+      audit("script-src 'nonce-abc' 'unsafe-inline'; object-src 'none'")
+    ).not.toContain("csp-unsafe-inline");
+    expect(audit("img-src 'self'")).toContain("csp-no-script-src");
+  });
+
+  test("checks CORS configuration", () => {
+    expect(
+      ids({
+        "Access-Control-Allow-Origin": "null",
+        "Access-Control-Allow-Credentials": "true",
+      })
+    ).toContain("cors-null-origin");
+    expect(
+      ids({
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Credentials": "true",
+      })
+    ).toContain("cors-wildcard-credentials");
+    expect(
+      ids({ "Access-Control-Allow-Origin": "https://a.com" })
+    ).toContain("cors-vary-missing");
+    expect(
+      ids({
+        "Access-Control-Allow-Origin": "https://a.com",
+        Vary: "Origin",
+      })
+    ).not.toContain("cors-vary-missing");
+  });
+
+  test("checks contradictory caching", () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    const found = ids(
+      {
+        "Cache-Control": "no-store",
+        ETag: '"v1"',
+        Expires: "Wed, 01 Jan 2026 00:00:00 GMT",
+      },
+      { now, document: false }
+    );
+
+    expect(found).toContain("cache-no-store-validators");
+    expect(found).toContain("cache-no-store-expires");
+    expect(
+      ids({ "Cache-Control": "public, max-age=60", "Set-Cookie": "a=1" })
+    ).toContain("cache-public-set-cookie");
+  });
+
+  test("flags deprecated and leaking headers", () => {
+    const found = ids(
+      {
+        "X-XSS-Protection": "1; mode=block",
+        "Feature-Policy": "camera 'none'",
+        Server: "nginx/1.25.3",
+        "X-Powered-By": "Express",
+      },
+      { document: false }
+    );
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        "x-xss-protection",
+        "feature-policy",
+        "server-version",
+        "x-powered-by",
+      ])
+    );
+    expect(ids({ "X-XSS-Protection": "0" })).not.toContain("x-xss-protection");
+  });
+
+  test("honours ignore and https options", () => {
+    expect(
+      ids({ "Strict-Transport-Security": "max-age=60" }, { https: false })
+    ).toContain("hsts-insecure-transport");
+    expect(
+      ids({}, { document: false, ignore: ["hsts-missing"] })
+    ).toEqual(["nosniff-missing"]);
+  });
+
+  test("accepts Headers and Responses", () => {
+    const response = new Response(null, {
+      headers: { "X-Powered-By": "PHP" },
+    });
+
+    expect(ids(response)).toContain("x-powered-by");
+    expect(ids(new Headers({ "X-Powered-By": "PHP" }))).toContain(
+      "x-powered-by"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  mergeCacheControl,
+  serializeCacheControl,
+  validateCacheControl,
+} from "../src/index";
+
+describe("serializeCacheControl", () => {
+  test("serializes directives in a stable order", () => {
+    expect(
+      serializeCacheControl({
+        staleWhileRevalidate: 30,
+        maxAge: 60,
+        public: true,
+        noTransform: false,
+      })
+    ).toBe("public, max-age=60, stale-while-revalidate=30");
+  });
+
+  test("serializes qualified no-cache and private", () => {
+    expect(
+      serializeCacheControl({ private: ["Set-Cookie"], noCache: [] })
+    ).toBe('private="Set-Cookie", no-cache');
+  });
+});
+
+describe("validateCacheControl", () => {
+  test("rejects contradictory directives", () => {
+    expect(() => validateCacheControl({ public: true, private: true })).toThrow(
+      'Cache-Control: "public" cannot be combined with "private".'
+    );
+    expect(() => validateCacheControl({ noStore: true, maxAge: 60 })).toThrow(
+      'Cache-Control: "no-store" cannot be combined with "max-age".'
+    );
+  });
+
+  test("rejects negative and fractional values", () => {
+    expect(() => validateCacheControl({ maxAge: -1 })).toThrow();
+    expect(() => validateCacheControl({ sMaxAge: 1.5 })).toThrow();
+  });
+});
+
+describe("mergeCacheControl", () => {
+  test("lets public and private replace each other", () => {
+    expect(
+      mergeCacheControl({ public: true, maxAge: 86400 }, { private: true })
+    ).toEqual({ private: true, maxAge: 86400 });
+  });
+});
+
+const NOW = new Date("2025-01-01T00:00:00Z");
+const at = () => buildHeaders({ now: () => NOW });
+
+describe("builder cache", () => {
+  test("extends a strategy with extra directives", () => {
+    expect(
+      buildHeaders().cache("ONE_DAY", { staleWhileRevalidate: 60 }).build()[
+        "Cache-Control"
+      ]
+    ).toBe(
+      "public, max-age=86400, must-revalidate, stale-while-revalidate=60"
+    );
+  });
+
+  test("cacheControl() targets CDN headers", () => {
+    const headers = buildHeaders()
+      .cache("FIVE_MINUTES")
+      .cacheControl({ maxAge: 3600, staleIfError: 86400 }, "CDN-Cache-Control")
+      .build();
+    expect(headers["Cache-Control"]).toBe("public, max-age=300");
+    expect(headers["CDN-Cache-Control"]).toBe(
+      "max-age=3600, stale-if-error=86400"
+    );
+  });
+});
+
+describe("expires", () => {
+  test("derives Expires from max-age when building", () => {
+    expect(at().cache("ONE_YEAR").build()["Expires"]).toBe(
+      "Thu, 01 Jan 2026 00:00:00 GMT"
+    );
+    expect(at().cache("ONE_YEAR", { maxAge: 60 }).build()["Expires"]).toBe(
+      "Wed, 01 Jan 2025 00:01:00 GMT"
+    );
+  });
+
+  test("uses the clock at build time, not at cache()", () => {
+    let now = NOW;
+    const builder = buildHeaders({ now: () => now }).cache("IMMUTABLE");
+    now = new Date("2025-06-01T00:00:00Z");
+    expect(builder.build()["Expires"]).toBe("Mon, 01 Jun 2026 00:00:00 GMT");
+  });
+
+  test("sends a past date for non-cacheable strategies", () => {
+    expect(at().cache("NO_CACHE").build()["Expires"]).toBe(
+      "Thu, 01 Jan 1970 00:00:00 GMT"
+    );
+  });
+
+  test("can be derived, omitted or set explicitly", () => {
+    expect(at().cache("ONE_DAY").build()["Expires"]).toBeUndefined();
+    expect(at().cache("ONE_DAY").expires("max-age").build()["Expires"]).toBe(
+      "Thu, 02 Jan 2025 00:00:00 GMT"
+    );
+    expect(
+      at().cache("ONE_YEAR").expires(false).build()["Expires"]
+    ).toBeUndefined();
+    expect(
+      at().expires(new Date("2030-01-01T00:00:00Z")).build()["Expires"]
+    ).toBe("Tue, 01 Jan 2030 00:00:00 GMT");
+  });
+});
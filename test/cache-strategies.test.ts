@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { cacheStrategyFor } from "../src/index";
+
+describe("cacheStrategyFor", () => {
+  test("detects hashed filenames", () => {
+    expect(cacheStrategyFor("assets/app.3f9a1c.js")).toBe("HASHED_ASSET");
+    expect(cacheStrategyFor("assets/app.3f9a1c2b.js")).toBe("HASHED_ASSET");
+    expect(cacheStrategyFor("chunk-0a1b2c3d4e5f.css")).toBe("HASHED_ASSET");
+    expect(cacheStrategyFor("assets/index-BZx1a2Q3.css")).toBe(
+      "HASHED_ASSET"
+    );
+  });
+
+  test("doesn't mistake words or numbers for hashes", () => {
+    expect(cacheStrategyFor("app.js")).toBe("JAVASCRIPT");
+    expect(cacheStrategyFor("app.3f9a1.js")).toBe("JAVASCRIPT");
+    expect(cacheStrategyFor("facade.decade.js")).toBe("JAVASCRIPT");
+    expect(cacheStrategyFor("report-202401.css")).toBe("STYLESHEET");
+    expect(cacheStrategyFor("Photos12.png")).toBe("IMAGE");
+    expect(cacheStrategyFor("gallery-Photos12.png")).toBe("IMAGE");
+  });
+
+  test("never makes pages immutable", () => {
+    expect(cacheStrategyFor("index.3f9a1c2b.html")).toBe("HTML_PAGE");
+  });
+
+  test("matches the presets for each kind of file", () => {
+    expect(cacheStrategyFor("sw.js")).toBe("SERVICE_WORKER");
+    expect(cacheStrategyFor("favicon.ico")).toBe("FAVICON");
+    expect(cacheStrategyFor("site.webmanifest")).toBe("MANIFEST");
+    expect(cacheStrategyFor("sitemap.xml")).toBe("SITEMAP");
+    expect(cacheStrategyFor("fonts/inter.woff2")).toBe("FONT");
+    expect(cacheStrategyFor("feed.rss")).toBe("FEED");
+  });
+});
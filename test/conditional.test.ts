@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  compareETags,
+  evaluatePreconditions,
+  parseETagList,
+} from "../src/index";
+
+const UPDATED = new Date("2024-01-01T00:00:00Z");
+
+const request = (headers: Record<string, string>, method = "GET") =>
+  new Request("http://localhost/doc", { method, headers });
+
+describe("parseETagList", () => {
+  test("splits on commas outside quotes", () => {
+    expect(parseETagList('W/"a", "b,c" ,"d"')).toEqual([
+      'W/"a"',
+      '"b,c"',
+      '"d"',
+    ]);
+  });
+});
+
+describe("compareETags", () => {
+  test("weak comparison ignores W/", () => {
+    expect(compareETags('W/"a"', '"a"')).toBe(true);
+    expect(compareETags('"a"', '"b"')).toBe(false);
+  });
+
+  test("strong comparison rejects weak tags", () => {
+    expect(compareETags('"a"', '"a"', false)).toBe(true);
+    expect(compareETags('W/"a"', '"a"', false)).toBe(false);
+  });
+});
+
+describe("evaluatePreconditions", () => {
+  const validators = { etag: '"v1"', lastModified: UPDATED };
+  const headers = {
+    "Content-Type": "text/plain",
+    "Content-Length": "5",
+    "Cache-Control": "no-cache",
+    ETag: '"v1"',
+    "Access-Control-Allow-Origin": "*",
+  };
+
+  test("proceeds without conditional headers", () => {
+    const result = evaluatePreconditions(request({}), validators, headers);
+    expect(result.verdict).toBe("proceed");
+    expect(result.response).toBeUndefined();
+  });
+
+  test("answers a matching If-None-Match GET with a 304", () => {
+    const result = evaluatePreconditions(
+      request({ "If-None-Match": 'W/"v0", W/"v1"' }),
+      validators,
+      headers
+    );
+    expect(result.status).toBe(304);
+    expect(result.headers).toEqual({
+      "Cache-Control": "no-cache",
+      ETag: '"v1"',
+      "Access-Control-Allow-Origin": "*",
+    });
+    expect(result.response?.status).toBe(304);
+  });
+
+  test("fails a matching If-None-Match PUT with a 412", () => {
+    const result = evaluatePreconditions(
+      request({ "If-None-Match": '"v1"' }, "PUT"),
+      validators,
+      headers
+    );
+    expect(result.status).toBe(412);
+    expect(result.headers["Content-Type"]).toBeUndefined();
+    expect(result.headers["Cache-Control"]).toBe("no-cache");
+  });
+
+  test("uses strong comparison for If-Match", () => {
+    const put = (ifMatch: string) =>
+      evaluatePreconditions(request({ "If-Match": ifMatch }, "PUT"), {
+        etag: 'W/"v1"',
+      }).verdict;
+    expect(put('W/"v1"')).toBe("precondition-failed");
+    expect(put('"v1"')).toBe("precondition-failed");
+    expect(
+      evaluatePreconditions(request({ "If-Match": '"v1"' }, "PUT"), validators)
+        .verdict
+    ).toBe("proceed");
+  });
+
+  test("If-None-Match: * only matches an existing representation", () => {
+    const create = request({ "If-None-Match": "*" }, "PUT");
+    expect(evaluatePreconditions(create, {}).verdict).toBe("proceed");
+    expect(evaluatePreconditions(create, validators).status).toBe(412);
+    expect(evaluatePreconditions(create, { exists: true }).status).toBe(412);
+  });
+
+  test("If-Match: * fails for a missing representation", () => {
+    const update = request({ "If-Match": "*" }, "PUT");
+    expect(evaluatePreconditions(update, {}).status).toBe(412);
+    expect(evaluatePreconditions(update, validators).verdict).toBe("proceed");
+    expect(
+      evaluatePreconditions(update, { etag: '"v1"', exists: false }).status
+    ).toBe(412);
+  });
+
+  test("compares dates in whole seconds", () => {
+    const since = (header: string, value: Date) =>
+      evaluatePreconditions(
+        request({ [header]: value.toUTCString() }),
+        { lastModified: new Date(UPDATED.getTime() + 500) }
+      ).status;
+    expect(since("If-Modified-Since", UPDATED)).toBe(304);
+    expect(since("If-Modified-Since", new Date(0))).toBe(200);
+    expect(since("If-Unmodified-Since", new Date(0))).toBe(412);
+  });
+
+  test("ignores If-Modified-Since when If-None-Match is present", () => {
+    const result = evaluatePreconditions(
+      request({
+        "If-None-Match": '"v0"',
+        "If-Modified-Since": UPDATED.toUTCString(),
+      }),
+      validators
+    );
+    expect(result.verdict).toBe("proceed");
+  });
+});
+
+describe("evaluateConditional", () => {
+  test("uses the builder's ETag and Last-Modified", () => {
+    const builder = buildHeaders().eTagValue('"v1"').lastModified(UPDATED);
+    const req = request({ "If-None-Match": '"v1"' });
+    expect(builder.evaluateConditional(req).status).toBe(304);
+  });
+
+  test("lets create-only PUTs through without validators", () => {
+    const req = request({ "If-None-Match": "*" }, "PUT");
+    expect(buildHeaders().evaluateConditional(req).verdict).toBe("proceed");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { buildHeaders, parseCookies, serializeCookie } from "../src/index";
+
+describe("serializeCookie", () => {
+  test("applies secure defaults", () => {
+    expect(serializeCookie("session", "abc", { maxAge: 3600 })).toBe(
+      "session=abc; Max-Age=3600; Path=/; Secure; HttpOnly; SameSite=Lax"
+    );
+  });
+
+  test("encodes values and serializes every attribute", () => {
+    expect(
+      serializeCookie("pref", "a b", {
+        expires: new Date("2030-01-01T00:00:00Z"),
+        domain: "example.com",
+        path: "/app",
+        httpOnly: false,
+        sameSite: "Strict",
+        priority: "High",
+      })
+    ).toBe(
+      "pref=a%20b; Expires=Tue, 01 Jan 2030 00:00:00 GMT; " +
+        "Domain=example.com; Path=/app; Secure; SameSite=Strict; Priority=High"
+    );
+  });
+
+  test("forces Secure for SameSite=None and Partitioned", () => {
+    expect(
+      serializeCookie("embed", "1", {
+        secure: false,
+        sameSite: "None",
+        partitioned: true,
+      })
+    ).toBe("embed=1; Path=/; Secure; HttpOnly; SameSite=None; Partitioned");
+  });
+
+  test("validates names, values and attributes", () => {
+    expect(() => serializeCookie("bad name", "1")).toThrow(
+      'Cookie: Invalid cookie name "bad name".'
+    );
+    expect(() =>
+      serializeCookie("raw", "a;b", { encode: (value) => value })
+    ).toThrow('Cookie: Invalid value for cookie "raw".');
+    expect(() => serializeCookie("a", "1", { path: "/; Domain=evil" })).toThrow(
+      'Cookie: Invalid Path for cookie "a".'
+    );
+    expect(() => serializeCookie("a", "1", { maxAge: 1.5 })).toThrow();
+  });
+
+  test("enforces cookie prefixes", () => {
+    expect(() => serializeCookie("__Secure-id", "1", { secure: false })).toThrow(
+      "__Secure- prefix"
+    );
+    expect(() => serializeCookie("__Host-id", "1", { path: "/app" })).toThrow(
+      "__Host- prefix"
+    );
+    expect(() =>
+      serializeCookie("__Host-id", "1", { domain: "example.com" })
+    ).toThrow("__Host- prefix");
+    expect(serializeCookie("__Host-id", "1")).toStartWith("__Host-id=1;");
+  });
+});
+
+describe("parseCookies", () => {
+  test("decodes values and keeps the first occurrence", () => {
+    expect(
+      parseCookies('a=1; b=hello%20world; a=2; c="quoted"; broken; d=%E0')
+    ).toEqual({ a: "1", b: "hello world", c: "quoted", d: "%E0" });
+  });
+
+  test("reads requests and Headers", () => {
+    const req = new Request("http://localhost/", {
+      headers: { Cookie: "session=abc" },
+    });
+    expect(parseCookies(req)).toEqual({ session: "abc" });
+    expect(parseCookies(req.headers)).toEqual({ session: "abc" });
+    expect(parseCookies(null)).toEqual({});
+  });
+
+  test("parses into a prototype-free map", () => {
+    const cookies = parseCookies("__proto__=x; constructor=y; toString=z");
+    expect(Object.getPrototypeOf(cookies)).toBeNull();
+    expect(cookies["__proto__"]).toBe("x");
+    expect(cookies["constructor"]).toBe("y");
+    expect(Object.keys(cookies)).toEqual(["__proto__", "constructor", "toString"]);
+    expect(parseCookies("hasOwnProperty=1")["hasOwnProperty"]).toBe("1");
+  });
+});
+
+describe("builder cookies", () => {
+  test("adds one Set-Cookie line per cookie", () => {
+    const headers = buildHeaders()
+      .cookie("session", "abc")
+      .clearCookie("legacy", { path: "/old" })
+      .buildHeaders();
+    expect(headers.getSetCookie()).toEqual([
+      "session=abc; Path=/; Secure; HttpOnly; SameSite=Lax",
+      "legacy=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; " +
+        "Path=/old; Secure; HttpOnly; SameSite=Lax",
+    ]);
+  });
+});
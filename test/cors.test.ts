@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildCorsPolicy,
+  buildHeaders,
+  getCorsOrigin,
+  matchCorsOrigin,
+} from "../src/index";
+
+const ORIGIN = "https://app.example.com";
+
+const preflight = (headers: Record<string, string>) =>
+  new Request("http://localhost/items", {
+    method: "OPTIONS",
+    headers: { Origin: ORIGIN, ...headers },
+  });
+
+const withOrigin = (origin: string) =>
+  new Request("http://localhost/items", { headers: { Origin: origin } });
+
+describe("matchCorsOrigin", () => {
+  test("matches exact origins, wildcards and regexes", () => {
+    expect(matchCorsOrigin(ORIGIN, ["https://APP.example.com"])).toBe(true);
+    expect(matchCorsOrigin(ORIGIN, ["*.example.com"])).toBe(true);
+    expect(matchCorsOrigin("http://a.b.example.com", ["*.example.com"])).toBe(
+      true
+    );
+    expect(matchCorsOrigin(ORIGIN, ["http://*.example.com"])).toBe(false);
+    expect(
+      matchCorsOrigin("http://localhost:5173", ["http://localhost:*"])
+    ).toBe(true);
+    expect(matchCorsOrigin("https://pr-1.vercel.app", [/\.vercel\.app$/])).toBe(
+      true
+    );
+    expect(matchCorsOrigin("https://example.com.evil.com", ["*.example.com"]))
+      .toBe(false);
+  });
+});
+
+describe("CorsPolicy", () => {
+  const policy = buildCorsPolicy({
+    origins: ["*.example.com"],
+    credentials: true,
+    exposedHeaders: ["X-Request-ID"],
+  });
+
+  test("rejects credentials with a wildcard origin", () => {
+    expect(() => buildCorsPolicy({ origins: "*", credentials: true })).toThrow(
+      "CORS: Cannot use credentials"
+    );
+  });
+
+  test("allows preflights with the full header set", () => {
+    const result = policy.preflight(
+      preflight({
+        "Access-Control-Request-Method": "PUT",
+        "Access-Control-Request-Headers": "content-type",
+      })
+    );
+    expect(result.allowed).toBe(true);
+    expect(result.status).toBe(204);
+    expect(result.headers).toEqual({
+      Vary: "Origin, Access-Control-Request-Method, Access-Control-Request-Headers",
+      "Access-Control-Allow-Origin": ORIGIN,
+      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Max-Age": "86400",
+    });
+  });
+
+  test("rejects disallowed origins, methods and headers with a 403", () => {
+    const rejected = (headers: Record<string, string>) => {
+      const result = policy.preflight(preflight(headers));
+      expect(result.status).toBe(403);
+      expect(result.headers["Access-Control-Allow-Origin"]).toBeUndefined();
+      return result.reason;
+    };
+    expect(
+      rejected({
+        Origin: "https://evil.com",
+        "Access-Control-Request-Method": "GET",
+      })
+    ).toBe("Origin not allowed");
+    expect(rejected({ "Access-Control-Request-Method": "PATCH" })).toBe(
+      "Method PATCH not allowed"
+    );
+    expect(
+      rejected({
+        "Access-Control-Request-Method": "GET",
+        "Access-Control-Request-Headers": "X-Secret",
+      })
+    ).toBe("Header X-Secret not allowed");
+    expect(
+      rejected({
+        "Access-Control-Request-Method": "GET",
+        "Access-Control-Request-Private-Network": "true",
+      })
+    ).toBe("Private network access not allowed");
+  });
+
+  test("echoes requested headers and methods for wildcards", () => {
+    const open = buildCorsPolicy({
+      origins: [ORIGIN],
+      methods: ["*"],
+      allowedHeaders: "*",
+      privateNetwork: true,
+    });
+    const { headers } = open.preflight(
+      preflight({
+        "Access-Control-Request-Method": "PATCH",
+        "Access-Control-Request-Headers": "X-One, X-Two",
+        "Access-Control-Request-Private-Network": "true",
+      })
+    );
+    expect(headers["Access-Control-Allow-Methods"]).toBe("PATCH");
+    expect(headers["Access-Control-Allow-Headers"]).toBe("X-One, X-Two");
+    expect(headers["Access-Control-Allow-Private-Network"]).toBe("true");
+  });
+
+  test("computes headers for actual requests", () => {
+    expect(policy.headersFor(withOrigin(ORIGIN))).toEqual({
+      Vary: "Origin",
+      "Access-Control-Allow-Origin": ORIGIN,
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Expose-Headers": "X-Request-ID",
+    });
+    expect(policy.headersFor(withOrigin("https://evil.com"))).toEqual({
+      Vary: "Origin",
+    });
+  });
+
+  test("handle() only answers preflights", () => {
+    expect(policy.handle(withOrigin(ORIGIN))).toBeNull();
+    const response = policy.handle(
+      preflight({ "Access-Control-Request-Method": "GET" })
+    );
+    expect(response?.status).toBe(204);
+  });
+});
+
+describe("builder CORS", () => {
+  test("corsFor() merges Vary and sets the policy's headers", () => {
+    const policy = buildCorsPolicy({ origins: [ORIGIN] });
+    const headers = buildHeaders()
+      .vary("Accept-Encoding")
+      .corsFor(withOrigin(ORIGIN), policy)
+      .build();
+    expect(headers["Vary"]).toBe("Accept-Encoding, Origin");
+    expect(headers["Access-Control-Allow-Origin"]).toBe(ORIGIN);
+  });
+
+  test("cors({ origin: null }) never echoes an origin", () => {
+    const headers = buildHeaders().cors({ origin: null }).build();
+    expect(headers["Access-Control-Allow-Origin"]).toBeUndefined();
+    expect(headers["Vary"]).toBe("Origin");
+  });
+
+  test("getCorsOrigin() returns null for disallowed origins", () => {
+    const options = { allowAll: false };
+    expect(getCorsOrigin(withOrigin(ORIGIN), ["*.example.com"], options)).toBe(
+      ORIGIN
+    );
+    expect(
+      getCorsOrigin(withOrigin("https://evil.com"), [ORIGIN], options)
+    ).toBeNull();
+  });
+});
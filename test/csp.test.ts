@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import { buildCsp, buildHeaders } from "../src/index";
+
+describe("buildCsp", () => {
+  test("quotes keywords and merges sources", () => {
+    const csp = buildCsp()
+      .add("default-src", "self")
+      .add("script-src", "'self'", "https://cdn.example.com")
+      .add("script-src", "self", "https://cdn.example.com/js/")
+      .add("upgrade-insecure-requests");
+    expect(csp.toString()).toBe(
+      "default-src 'self'; " +
+        "script-src 'self' https://cdn.example.com https://cdn.example.com/js/; " +
+        "upgrade-insecure-requests"
+    );
+  });
+
+  test("set() replaces and remove() drops a directive", () => {
+    const csp = buildCsp()
+      .add("img-src", "self", "data:")
+      .set("img-src", "none")
+      .add("frame-src", "self")
+      .remove("frame-src");
+    expect(csp.toString()).toBe("img-src 'none'");
+  });
+
+  test("rejects unknown directives, 'none' mixes and flag values", () => {
+    expect(() => buildCsp().add("scripts-src" as never, "self")).toThrow(
+      'CSP: Unknown directive "scripts-src".'
+    );
+    expect(() => buildCsp().add("img-src", "none", "self")).toThrow();
+    expect(() =>
+      buildCsp().add("upgrade-insecure-requests", "self")
+    ).toThrow();
+  });
+
+  test("accepts every kind of source expression", () => {
+    const sources = [
+      "*",
+      "https:",
+      "data:",
+      "example.com",
+      "*.example.com",
+      "https://*.example.com:443",
+      "http://localhost:*",
+      "wss://example.com/socket",
+      "https://example.com/a%3Bb/",
+      "'nonce-abc123+/='",
+      "'sha384-OLBgp1GsljhM2TJ+sbHjaiH9txEUvgdDTAzHv2P24donTt6'",
+      "'strict-dynamic'",
+    ];
+    expect(buildCsp().add("script-src", ...sources).toString()).toBe(
+      `script-src ${sources.join(" ")}`
+    );
+  });
+
+  test("rejects sources that inject directives", () => {
+    for (const source of [
+      "https://a.com; script-src *",
+      "https://a.com,https://b.com",
+      "https://a.com https://b.com",
+      "'unsafe-everything'",
+      "https://a.com/\nscript-src",
+      "'nonce-abc",
+    ]) {
+      expect(() => buildCsp().add("script-src", source)).toThrow(
+        "CSP: Invalid source"
+      );
+    }
+    expect(() => buildCsp().reportTo("csp; script-src *")).toThrow();
+    expect(() => buildCsp().reportUri("/csp, /other")).toThrow();
+  });
+
+  test("hashes inline content with each algorithm", () => {
+    expect(buildCsp().hash("script-src", "").toString()).toBe(
+      "script-src 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU='"
+    );
+    expect(buildCsp().hash("style-src", "", "sha384").toString()).toBe(
+      "style-src 'sha384-OLBgp1GsljhM2TJ+sbHjaiH9txEUvgdDTAzHv2P24donTt6/" +
+        "529l+9Ua0vFImLlb'"
+    );
+    expect(buildCsp().hash("script-src", "abc", "sha512").toString()).toBe(
+      "script-src 'sha512-3a81oZNherrMQXNJriBBMRLm+k6JqX6iCp7u5ktV05ohkpkqJ0/" +
+        "BqDa6PCOj/uu9RU1EI2Q86A4qmslPpUyknw=='"
+    );
+  });
+
+  test("reuses one nonce across directives", () => {
+    const csp = buildCsp().nonce("script-src", "style-src");
+    const nonce = csp.getNonce();
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(csp.toString()).toBe(
+      `script-src 'nonce-${nonce}'; style-src 'nonce-${nonce}'`
+    );
+  });
+
+  test("merges policies and serializes report-only", () => {
+    const csp = buildCsp()
+      .add("default-src", "self")
+      .merge(buildCsp().add("default-src", "https://cdn.example.com"))
+      .reportTo("csp-endpoint")
+      .reportOnly();
+    expect(csp.build()).toEqual({
+      "Content-Security-Policy-Report-Only":
+        "default-src 'self' https://cdn.example.com; report-to csp-endpoint",
+    });
+  });
+});
+
+describe("csp()", () => {
+  test("sets the header from a builder or a string", () => {
+    const policy = buildCsp().add("default-src", "self");
+    expect(buildHeaders().csp(policy).build()).toEqual({
+      "Content-Security-Policy": "default-src 'self'",
+    });
+    expect(buildHeaders().csp("default-src 'none'").build()).toEqual({
+      "Content-Security-Policy": "default-src 'none'",
+    });
+  });
+});
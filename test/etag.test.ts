@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  generateETag,
+  generateETagSync,
+  weakETag,
+} from "../src/index";
+
+/**
+ * FIPS 180 test vectors as full-length base64url ETags
+ */
+const tag = (hex: string) =>
+  `"${Buffer.from(hex, "hex").toString("base64url")}"`;
+
+const VECTORS = [
+  {
+    input: "abc",
+    "SHA-1": "a9993e364706816aba3e25717850c26c9cd0d89d",
+    "SHA-256":
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  },
+  {
+    input: "",
+    "SHA-1": "da39a3ee5e6b4b0d3255bfef95601890afd80709",
+    "SHA-256":
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+  },
+  {
+    input: "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+    "SHA-1": "84983e441c3bd26ebaae4aa1f95129e5e54670f1",
+    "SHA-256":
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+  },
+  {
+    input: "a".repeat(1_000_000),
+    "SHA-1": "34aa973cd4c4daa4f61eeb2bdbad27316534016f",
+    "SHA-256":
+      "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0",
+  },
+] as const;
+
+const ALGORITHMS = [
+  { algorithm: "SHA-1", length: 27 },
+  { algorithm: "SHA-256", length: 43 },
+] as const;
+
+/**
+ * Stream in uneven chunks so blocks straddle chunk boundaries
+ */
+function chunked(input: string): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(input);
+  let offset = 0;
+  let size = 1;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.subarray(offset, offset + size));
+      offset += size;
+      size = (size * 7) % 1021 || 1;
+    },
+  });
+}
+
+describe("generateETag", () => {
+  for (const options of ALGORITHMS) {
+    test(`matches the ${options.algorithm} test vectors`, async () => {
+      for (const vector of VECTORS) {
+        const expected = tag(vector[options.algorithm]);
+        expect(generateETagSync(vector.input, options)).toBe(expected);
+        expect(await generateETag(vector.input, options)).toBe(expected);
+        expect(await generateETag(new Blob([vector.input]), options)).toBe(
+          expected
+        );
+        // Streams go through the incremental digest
+        expect(await generateETag(chunked(vector.input), options)).toBe(
+          expected
+        );
+      }
+    });
+  }
+
+  test("truncates and marks weak tags", () => {
+    expect(generateETagSync("hello")).toBe('"qvTGHdzF6KLavt4PO0gs2a6pQ00"');
+    expect(generateETagSync("hello", { length: 8, weak: true })).toBe(
+      'W/"qvTGHdzF"'
+    );
+    expect(() => generateETagSync("hello", { length: 4 })).toThrow(
+      "ETag: length must be an integer of at least 8."
+    );
+  });
+});
+
+describe("weakETag", () => {
+  test("combines size and modification time", () => {
+    expect(weakETag(500, 1700000000000)).toBe('W/"1f4-18bcfe56800"');
+    expect(weakETag(500, new Date(1700000000000))).toBe(
+      'W/"1f4-18bcfe56800"'
+    );
+    expect(() => weakETag(-1, 0)).toThrow();
+  });
+});
+
+describe("builder ETags", () => {
+  test("eTag() always hashes its content", () => {
+    expect(buildHeaders().eTag('"v1"').build()["ETag"]).toBe(
+      generateETagSync('"v1"')
+    );
+    expect(buildHeaders().eTag(undefined).build()).toEqual({});
+  });
+
+  test("eTagValue() quotes and validates precomputed tags", () => {
+    expect(buildHeaders().eTagValue("v42").build()["ETag"]).toBe('"v42"');
+    expect(buildHeaders().eTagValue('W/"v42"').build()["ETag"]).toBe(
+      'W/"v42"'
+    );
+    expect(() => buildHeaders().eTagValue("two words")).toThrow(
+      'ETag: Invalid entity tag "two words".'
+    );
+  });
+
+  test("weakETag() sets a size and mtime tag", () => {
+    expect(buildHeaders().weakETag(500, 1700000000000).build()["ETag"]).toBe(
+      'W/"1f4-18bcfe56800"'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { buildHeaders, HeadersBuilder } from "../src/index";
+
+const cookies = () =>
+  buildHeaders()
+    .eTagValue('"v1"')
+    .contentType("text")
+    .append("Set-Cookie", "theme=dark; Path=/")
+    .append("Set-Cookie", "lang=en; Path=/");
+
+const request = (headers: Record<string, string>, method = "GET") =>
+  new Request("http://localhost/page", { method, headers });
+
+describe("case-insensitive storage", () => {
+  test("replaces values regardless of casing, keeping the first name", () => {
+    const headers = buildHeaders()
+      .contentType("json")
+      .custom("content-type", "text/csv")
+      .custom("x-request-id", "1")
+      .custom("X-Request-ID", "2")
+      .build();
+    expect(headers).toEqual({
+      "Content-Type": "text/csv",
+      "x-request-id": "2",
+    });
+  });
+
+  test("vary() skips fields already listed", () => {
+    expect(
+      buildHeaders().vary("Accept").vary("accept", "Origin").build()["Vary"]
+    ).toBe("Accept, Origin");
+  });
+
+  test("remove() deletes a header", () => {
+    expect(
+      HeadersBuilder.from({ "X-Powered-By": "php" }).remove("x-powered-by")
+        .build()
+    ).toEqual({});
+  });
+});
+
+describe("multi-value headers", () => {
+  test("comma-joins list headers and keeps Set-Cookie lines apart", () => {
+    const builder = cookies()
+      .append("Link", "</app.css>; rel=preload; as=style")
+      .append("Link", "</app.js>; rel=preload; as=script");
+    expect(builder.build()["Link"]).toBe(
+      "</app.css>; rel=preload; as=style, </app.js>; rel=preload; as=script"
+    );
+    expect(
+      builder.buildEntries().filter(([name]) => name === "Set-Cookie")
+    ).toEqual([
+      ["Set-Cookie", "theme=dark; Path=/"],
+      ["Set-Cookie", "lang=en; Path=/"],
+    ]);
+    expect(builder.buildHeaders().getSetCookie()).toEqual([
+      "theme=dark; Path=/",
+      "lang=en; Path=/",
+    ]);
+  });
+
+  test("throws when appending to a single-value header", () => {
+    expect(() => cookies().append("ETag", '"v2"')).toThrow(
+      'Headers: "ETag" cannot have multiple values, use set instead.'
+    );
+  });
+
+  test("from() keeps each Set-Cookie of a Headers object", () => {
+    const upstream = new Headers();
+    upstream.append("Set-Cookie", "a=1");
+    upstream.append("Set-Cookie", "b=2");
+    expect(HeadersBuilder.from(upstream).buildHeaders().getSetCookie()).toEqual(
+      ["a=1", "b=2"]
+    );
+  });
+});
+
+describe("Set-Cookie on generated responses", () => {
+  const setCookies = ["theme=dark; Path=/", "lang=en; Path=/"];
+
+  test("412 responses keep every Set-Cookie line", () => {
+    const result = cookies().evaluateConditional(
+      request({ "If-Match": '"v0"' }, "PUT")
+    );
+    expect(result.status).toBe(412);
+    expect(result.headers.getSetCookie()).toEqual(setCookies);
+    expect(result.response?.headers.getSetCookie()).toEqual(setCookies);
+    expect(result.headers.get("Content-Type")).toBeNull();
+  });
+
+  test("304 responses drop Set-Cookie with other fields", () => {
+    const result = cookies().evaluateConditional(
+      request({ "If-None-Match": '"v1"' })
+    );
+    expect(result.status).toBe(304);
+    expect(result.headers.getSetCookie()).toEqual([]);
+    expect(result.headers.get("ETag")).toBe('"v1"');
+  });
+
+  test("206 and 416 results keep every Set-Cookie line", () => {
+    const partial = cookies().evaluateRange(request({ Range: "bytes=0-1" }), 10);
+    expect(partial.status).toBe(206);
+    expect(partial.headers.getSetCookie()).toEqual(setCookies);
+    expect(partial.headers.get("Content-Range")).toBe("bytes 0-1/10");
+
+    const unsatisfiable = cookies().evaluateRange(
+      request({ Range: "bytes=20-" }),
+      10
+    );
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.getSetCookie()).toEqual(setCookies);
+    expect(unsatisfiable.headers.get("Content-Length")).toBe("0");
+    expect(unsatisfiable.headers.get("Content-Type")).toBeNull();
+  });
+
+  test("406 responses keep every Set-Cookie line", () => {
+    const result = cookies().negotiate(request({ Accept: "image/png" }), {
+      types: ["json"],
+    });
+    expect(result.response?.headers.getSetCookie()).toEqual(setCookies);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  parseHeaders,
+  parseLinks,
+  serializeLink,
+} from "../src/index";
+
+describe("serializeLink", () => {
+  test("serializes typed resource hints", () => {
+    expect(
+      serializeLink({
+        href: "/fonts/inter.woff2",
+        rel: "preload",
+        as: "font",
+        type: "font/woff2",
+        crossorigin: true,
+      })
+    ).toBe(
+      '</fonts/inter.woff2>; rel=preload; as=font; type="font/woff2"; ' +
+        "crossorigin"
+    );
+    expect(
+      serializeLink({
+        href: "/hero.jpg",
+        rel: "preload",
+        as: "image",
+        fetchpriority: "high",
+        imagesrcset: "/hero-1x.jpg 1x, /hero-2x.jpg 2x",
+      })
+    ).toBe(
+      "</hero.jpg>; rel=preload; as=image; fetchpriority=high; " +
+        'imagesrcset="/hero-1x.jpg 1x, /hero-2x.jpg 2x"'
+    );
+    expect(
+      serializeLink({
+        href: "https://cdn.example.com",
+        rel: ["preconnect", "dns-prefetch"],
+        crossorigin: "use-credentials",
+      })
+    ).toBe(
+      '<https://cdn.example.com>; rel="preconnect dns-prefetch"; ' +
+        "crossorigin=use-credentials"
+    );
+  });
+
+  test("escapes URIs and encodes non-ASCII titles", () => {
+    expect(
+      serializeLink({ href: "/a b>c", rel: "next", title: "Café" })
+    ).toBe("</a%20b%3Ec>; rel=next; title*=UTF-8''Caf%C3%A9");
+    expect(
+      serializeLink({ href: "/x", rel: "alternate", params: { Foo: true } })
+    ).toBe("</x>; rel=alternate; foo");
+  });
+
+  test("validates preloads", () => {
+    expect(() => serializeLink({ href: "/a.js", rel: "preload" })).toThrow(
+      'requires "as"'
+    );
+    expect(() =>
+      serializeLink({ href: "/f.woff2", rel: "preload", as: "font" })
+    ).toThrow("requires crossorigin");
+    expect(() =>
+      serializeLink({
+        href: "/a.jpg",
+        rel: "prefetch",
+        imagesrcset: "/a.jpg 1x",
+      })
+    ).toThrow('require as: "image"');
+    expect(() => serializeLink({ href: "/a", rel: [] })).toThrow(
+      "rel is required"
+    );
+  });
+});
+
+describe("parseLinks", () => {
+  test("parses pagination links against a base URL", () => {
+    const links = parseLinks(
+      '<?page=3>; rel="next", <?page=1>; rel="prev first"; title="A, B"',
+      "https://api.example.com/items?page=2"
+    );
+
+    expect(links).toEqual([
+      {
+        href: "https://api.example.com/items?page=3",
+        rel: ["next"],
+        params: {},
+      },
+      {
+        href: "https://api.example.com/items?page=1",
+        rel: ["prev", "first"],
+        params: { title: "A, B" },
+      },
+    ]);
+  });
+
+  test("decodes title*, keeps the first parameter and skips junk", () => {
+    expect(
+      parseLinks(
+        "</a>; REL=Next; title*=UTF-8''Caf%C3%A9; title=Cafe; as=x; as=y, " +
+          "junk, </b>; crossorigin"
+      )
+    ).toEqual([
+      { href: "/a", rel: ["next"], params: { title: "Café", as: "x" } },
+      { href: "/b", rel: [], params: { crossorigin: true } },
+    ]);
+  });
+
+  test("is exposed through parseHeaders", () => {
+    const parsed = parseHeaders({ Link: '</p2>; rel="next"' });
+    expect(parsed.links[0]?.href).toBe("/p2");
+    expect(parseHeaders({}).links).toEqual([]);
+  });
+});
+
+describe("link()", () => {
+  test("combines links with existing ones", () => {
+    const result = buildHeaders()
+      .custom("Link", '</old>; rel="canonical"')
+      .link(
+        { href: "/app.css", rel: "preload", as: "style" },
+        { href: "/app.js", rel: "modulepreload" }
+      )
+      .build();
+
+    expect(result.Link).toBe(
+      '</old>; rel="canonical", </app.css>; rel=preload; as=style, ' +
+        "</app.js>; rel=modulepreload"
+    );
+    expect(parseLinks(result.Link!)).toHaveLength(3);
+  });
+
+  test("builds 103 Early Hints from the same declarations", () => {
+    const page = buildHeaders()
+      .contentType("html")
+      .link(
+        { href: "https://cdn.example.com", rel: "preconnect" },
+        { href: "/app.css", rel: "preload", as: "style" },
+        { href: "/next", rel: "prefetch" },
+        { href: "/icon.png", rel: "icon" }
+      );
+
+    expect(page.buildEarlyHints()).toEqual({
+      Link:
+        "<https://cdn.example.com>; rel=preconnect, " +
+        "</app.css>; rel=preload; as=style",
+    });
+    expect(buildHeaders().buildEarlyHints()).toEqual({});
+  });
+});
@@ -0,0 +1,287 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Elysia } from "elysia";
+import express from "express";
+import { Hono } from "hono";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  buildCorsPolicy,
+  buildHeaders,
+  elysiaHeaders,
+  expressHeaders,
+  honoHeaders,
+  nodeHeaders,
+  withHeaders,
+} from "../src/index";
+
+const ORIGIN = "https://app.example.com";
+
+const base = buildHeaders()
+  .custom("X-Content-Type-Options", "nosniff")
+  .cache("NO_CACHE")
+  .vary("Accept-Encoding");
+const cors = buildCorsPolicy({ origins: [ORIGIN] });
+const NO_CACHE = base.build()["Cache-Control"];
+
+const preflight = () =>
+  new Request("http://localhost/items", {
+    method: "OPTIONS",
+    headers: { Origin: ORIGIN, "Access-Control-Request-Method": "PUT" },
+  });
+
+const conditionalGet = (etag = '"v1"') =>
+  new Request("http://localhost/items", {
+    headers: { Origin: ORIGIN, "If-None-Match": etag },
+  });
+
+describe("withHeaders", () => {
+  const handler = withHeaders(
+    () =>
+      new Response("items", {
+        headers: {
+          "Cache-Control": "max-age=60",
+          ETag: '"v1"',
+          Vary: "origin",
+        },
+      }),
+    base,
+    { cors }
+  );
+
+  test("adds base headers, keeping the handler's", async () => {
+    const res = await handler(new Request("http://localhost/items"));
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(res.headers.get("Cache-Control")).toBe("max-age=60");
+    expect(res.headers.get("Vary")).toBe("origin, Accept-Encoding");
+    expect(await res.text()).toBe("items");
+  });
+
+  test("answers preflights", async () => {
+    const res = await handler(preflight());
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(ORIGIN);
+  });
+
+  test("turns matching GETs into 304s", async () => {
+    const res = await handler(conditionalGet());
+    expect(res.status).toBe(304);
+    expect(res.headers.get("ETag")).toBe('"v1"');
+    expect((await handler(conditionalGet('"v2"'))).status).toBe(200);
+  });
+
+  test("passes upgraded requests through", async () => {
+    const upgrade = withHeaders(() => undefined, base);
+    expect(await upgrade(new Request("http://localhost/ws"))).toBeUndefined();
+  });
+});
+
+describe("honoHeaders", () => {
+  const app = new Hono();
+  app.use(honoHeaders(base, { cors }));
+  app.get("/items", (c) => {
+    c.header("ETag", '"v1"');
+    return c.text("items");
+  });
+  app.post("/items", (c) => c.json({ created: true }, 201));
+
+  test("adds base and CORS headers", async () => {
+    const res = await app.request("/items", { headers: { Origin: ORIGIN } });
+    expect(res.headers.get("Cache-Control")).toBe(NO_CACHE);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(ORIGIN);
+    expect(res.headers.get("Vary")).toContain("Origin");
+    expect(await res.text()).toBe("items");
+  });
+
+  test("answers preflights", async () => {
+    const res = await app.request(preflight());
+    expect(res.status).toBe(204);
+  });
+
+  test("turns matching GETs into 304s", async () => {
+    const res = await app.request(conditionalGet());
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+  });
+
+  test("keeps the handler's status", async () => {
+    const res = await app.request("/items", { method: "POST" });
+    expect(res.status).toBe(201);
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+});
+
+describe("elysiaHeaders", () => {
+  const hooks = elysiaHeaders(base, { cors });
+  const app = new Elysia()
+    .onRequest(hooks.onRequest)
+    .onAfterHandle(hooks.onAfterHandle)
+    .get("/items", ({ set }) => {
+      set.headers["etag"] = '"v1"';
+      return "items";
+    })
+    .get("/created", ({ set }) => {
+      set.status = 201;
+      set.headers["etag"] = '"v1"';
+      return "created";
+    });
+
+  test("adds base and CORS headers", async () => {
+    const res = await app.handle(
+      new Request("http://localhost/items", { headers: { Origin: ORIGIN } })
+    );
+    expect(res.headers.get("Cache-Control")).toBe(NO_CACHE);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(ORIGIN);
+    expect(await res.text()).toBe("items");
+  });
+
+  test("answers preflights", async () => {
+    const res = await app.handle(preflight());
+    expect(res.status).toBe(204);
+  });
+
+  test("turns matching GETs into 304s", async () => {
+    const res = await app.handle(conditionalGet());
+    expect(res.status).toBe(304);
+  });
+
+  test("only evaluates 200 responses, using set.status", async () => {
+    const res = await app.handle(
+      new Request("http://localhost/created", {
+        headers: { "If-None-Match": '"v1"' },
+      })
+    );
+    expect(res.status).toBe(201);
+    expect(await res.text()).toBe("created");
+  });
+});
+
+describe("Node adapters", () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  const listen = async (app: Parameters<typeof createServer>[1]) => {
+    server = createServer(app);
+    await new Promise<void>((resolve) => server!.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return (req: Request) =>
+      fetch(new URL(new URL(req.url).pathname, `http://localhost:${port}`), {
+        method: req.method,
+        headers: req.headers,
+      });
+  };
+
+  test("nodeHeaders adds headers, answers preflights and 304s", async () => {
+    const applyHeaders = nodeHeaders(base, { cors });
+    const send = await listen((req, res) => {
+      if (applyHeaders(req, res)) return;
+      res.setHeader("ETag", '"v1"');
+      res.setHeader("Vary", "Origin");
+      res.end("items");
+    });
+
+    const res = await send(new Request("http://localhost/items"));
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(res.headers.get("Vary")).toBe("Origin, Accept-Encoding");
+    expect(await res.text()).toBe("items");
+
+    expect((await send(preflight())).status).toBe(204);
+
+    const notModified = await send(conditionalGet());
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get("X-Content-Type-Options")).toBeNull();
+  });
+
+  test("nodeHeaders sees headers passed to writeHead", async () => {
+    const applyHeaders = nodeHeaders(base, { cors });
+    const send = await listen((req, res) => {
+      if (applyHeaders(req, res)) return;
+      res.setHeader("Cache-Control", "max-age=60");
+      res
+        .writeHead(200, "OK", ["ETag", '"v1"', "Vary", "Origin"])
+        .end("items");
+    });
+
+    const res = await send(new Request("http://localhost/items"));
+    expect(res.headers.get("ETag")).toBe('"v1"');
+    expect(res.headers.get("Vary")).toBe("Origin, Accept-Encoding");
+    expect(await res.text()).toBe("items");
+
+    const notModified = await send(conditionalGet());
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get("ETag")).toBe('"v1"');
+    expect(notModified.headers.get("Cache-Control")).toBe("max-age=60");
+    expect(await notModified.text()).toBe("");
+  });
+
+  test("nodeHeaders passes TRACE through", async () => {
+    // Node's fetch rejects TRACE, CONNECT and TRACK in new Request()
+    const NativeRequest = globalThis.Request;
+    globalThis.Request = class extends NativeRequest {
+      constructor(...args: ConstructorParameters<typeof Request>) {
+        const method = args[1]?.method ?? "";
+        if (/^(trace|connect|track)$/i.test(method)) {
+          throw new TypeError(`'${method}' HTTP method is unsupported.`);
+        }
+        super(...args);
+      }
+    } as typeof Request;
+
+    try {
+      const applyHeaders = nodeHeaders(base, { cors });
+      await listen((req, res) => {
+        if (applyHeaders(req, res)) return;
+        res.setHeader("Content-Type", "message/http");
+        res.end(`${req.method} ${req.url}`);
+      });
+      const { port } = server!.address() as AddressInfo;
+
+      const body = await new Promise<string>((resolve, reject) => {
+        request({ port, path: "/items", method: "TRACE" }, (res) => {
+          let data = "";
+          res.on("data", (chunk) => (data += chunk));
+          res.on("end", () => resolve(data));
+        })
+          .on("error", reject)
+          .end();
+      });
+      expect(body).toBe("TRACE /items");
+    } finally {
+      globalThis.Request = NativeRequest;
+    }
+  });
+
+  test("expressHeaders adds headers, answers preflights and 304s", async () => {
+    const app = express();
+    app.set("etag", false);
+    app.use(expressHeaders(base, { cors }));
+    app.get("/items", (_req, res) => {
+      res.set("ETag", '"v1"').type("text").send("items");
+    });
+    app.post("/items", (_req, res) => {
+      res.status(201).set("ETag", '"v1"').json({ created: true });
+    });
+    const send = await listen(app);
+
+    const res = await send(
+      new Request("http://localhost/items", { headers: { Origin: ORIGIN } })
+    );
+    expect(res.headers.get("Cache-Control")).toBe(NO_CACHE);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(ORIGIN);
+    expect(await res.text()).toBe("items");
+
+    expect((await send(preflight())).status).toBe(204);
+    expect((await send(conditionalGet())).status).toBe(304);
+
+    const created = await send(
+      new Request("http://localhost/items", {
+        method: "POST",
+        headers: { "If-None-Match": '"v1"' },
+      })
+    );
+    expect(created.status).toBe(201);
+  });
+});
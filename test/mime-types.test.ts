@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  getExtension,
+  getMimeInfo,
+  isCompressible,
+  lookupMimeType,
+  registerMimeType,
+} from "../src/index";
+
+describe("lookupMimeType", () => {
+  test("looks up paths and bare extensions with charsets", () => {
+    expect(lookupMimeType("app.mjs")).toBe("text/javascript; charset=utf-8");
+    expect(lookupMimeType("wasm")).toBe("application/wasm");
+    expect(lookupMimeType("/static/README.MD")).toBe(
+      "text/markdown; charset=utf-8"
+    );
+    expect(lookupMimeType("unknown")).toBeUndefined();
+  });
+
+  test("prefers the longest compound extension", () => {
+    expect(lookupMimeType("site.webmanifest")).toBe(
+      "application/manifest+json"
+    );
+    expect(lookupMimeType("dist/app.schema.json")).toBe(
+      "application/schema+json"
+    );
+  });
+
+  test("maps .ts and .mts to MPEG transport streams", () => {
+    expect(lookupMimeType("segment0.ts")).toBe("video/mp2t");
+    expect(lookupMimeType("mts")).toBe("video/mp2t");
+  });
+});
+
+describe("MIME metadata", () => {
+  test("reads database entries, ignoring parameters", () => {
+    expect(getMimeInfo("image/svg+xml")).toEqual({
+      mimeType: "image/svg+xml",
+      extensions: ["svg", "svgz"],
+      compressible: true,
+    });
+    expect(getExtension("text/html; charset=utf-8")).toBe("html");
+    expect(getExtension("image/jpeg")).toBe("jpg");
+  });
+
+  test("knows which types compress", () => {
+    expect(isCompressible("application/json; charset=utf-8")).toBe(true);
+    expect(isCompressible("image/png")).toBe(false);
+    expect(isCompressible("application/x-unknown+json")).toBe(true);
+    expect(isCompressible("application/x-unknown")).toBe(false);
+  });
+});
+
+describe("registerMimeType", () => {
+  test("adds mappings used by filePath()", () => {
+    registerMimeType(".glsl", "text/x-glsl", { charset: "utf-8" });
+    expect(buildHeaders().filePath("shader.glsl").build()).toEqual({
+      "Content-Type": "text/x-glsl; charset=utf-8",
+    });
+    expect(getMimeInfo("text/x-glsl")?.compressible).toBe(true);
+  });
+
+  test("rejects invalid mappings", () => {
+    expect(() => registerMimeType("x", "not-a-type")).toThrow(
+      'MIME: Invalid mapping for "not-a-type".'
+    );
+  });
+
+  test("falls back to octet-stream for unknown files", () => {
+    expect(buildHeaders().filePath("data.unknownext").build()).toEqual({
+      "Content-Type": "application/octet-stream",
+    });
+  });
+});
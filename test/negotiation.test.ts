@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  negotiate,
+  negotiateContentType,
+  negotiateEncoding,
+  negotiateLanguage,
+  parseAccept,
+} from "../src/index";
+
+const request = (headers: Record<string, string>) =>
+  new Request("http://localhost/report", { headers });
+
+describe("parseAccept", () => {
+  test("sorts by q-value, then order, keeping q=0 entries", () => {
+    expect(
+      parseAccept('text/html;level=1, application/json;q=0.8, */*;q=0')
+    ).toEqual([
+      { value: "text/html", q: 1, params: { level: "1" } },
+      { value: "application/json", q: 0.8, params: {} },
+      { value: "*/*", q: 0, params: {} },
+    ]);
+    expect(parseAccept(null)).toEqual([]);
+  });
+});
+
+describe("negotiateContentType", () => {
+  test("uses the most specific matching range", () => {
+    expect(
+      negotiateContentType("text/csv, application/json;q=0.5", ["json", "csv"])
+    ).toBe("csv");
+    expect(
+      negotiateContentType("application/*;q=0.2, application/json", [
+        "xml",
+        "json",
+      ])
+    ).toBe("json");
+  });
+
+  test("breaks ties with the server's order", () => {
+    expect(negotiateContentType("*/*", ["json", "csv"])).toBe("json");
+    expect(negotiateContentType(null, ["csv", "json"])).toBe("csv");
+  });
+
+  test("returns undefined when nothing is acceptable", () => {
+    expect(negotiateContentType("image/png", ["json"])).toBeUndefined();
+  });
+});
+
+describe("negotiateEncoding", () => {
+  test("picks the best supported coding", () => {
+    expect(negotiateEncoding("gzip, br;q=1", ["br", "gzip"])).toBe("br");
+    expect(negotiateEncoding("gzip;q=0.5, br;q=0.9", ["gzip", "br"])).toBe(
+      "br"
+    );
+  });
+
+  test("falls back to identity unless it was refused", () => {
+    expect(negotiateEncoding(null, ["br"])).toBe("identity");
+    expect(negotiateEncoding("deflate", ["br"])).toBe("identity");
+    expect(negotiateEncoding("br;q=0, *;q=0", ["br"])).toBeUndefined();
+    expect(negotiateEncoding("identity;q=0", ["br"])).toBeUndefined();
+  });
+});
+
+describe("negotiateLanguage", () => {
+  test("matches language prefixes", () => {
+    expect(negotiateLanguage("es-UY, en;q=0.5", ["en-US", "es"])).toBe("es");
+    expect(negotiateLanguage("en", ["fr", "en-GB"])).toBe("en-GB");
+  });
+
+  test("falls back to the first supported language", () => {
+    expect(negotiateLanguage("de", ["en", "es"])).toBe("en");
+  });
+});
+
+describe("negotiate", () => {
+  const options = {
+    types: ["json" as const, "csv" as const],
+    encodings: ["br" as const, "gzip" as const],
+    languages: ["en", "es"],
+  };
+
+  test("negotiates every dimension and reports Vary", () => {
+    const result = negotiate(
+      request({
+        Accept: "text/csv",
+        "Accept-Encoding": "gzip",
+        "Accept-Language": "es",
+      }),
+      options
+    );
+    expect(result).toMatchObject({
+      acceptable: true,
+      status: 200,
+      type: "csv",
+      encoding: "gzip",
+      language: "es",
+      vary: ["Accept", "Accept-Encoding", "Accept-Language"],
+    });
+    expect(result.response).toBeUndefined();
+  });
+
+  test("answers unacceptable requests with a 406", () => {
+    const result = negotiate(request({ Accept: "image/png" }), options);
+    expect(result.acceptable).toBe(false);
+    expect(result.response?.status).toBe(406);
+    expect(result.response?.headers.get("Vary")).toBe(
+      "Accept, Accept-Encoding, Accept-Language"
+    );
+  });
+});
+
+describe("builder negotiate", () => {
+  test("sets the chosen type, encoding, language and Vary", () => {
+    const builder = buildHeaders();
+    builder.negotiate(
+      request({ Accept: "text/csv", "Accept-Encoding": "br" }),
+      { types: ["json", "csv"], encodings: ["br"], languages: ["en"] }
+    );
+    const headers = builder.build();
+    expect(headers["Content-Type"]).toStartWith("text/csv");
+    expect(headers["Content-Encoding"]).toBe("br");
+    expect(headers["Content-Language"]).toBe("en");
+    expect(headers["Vary"]).toBe("Accept, Accept-Encoding");
+  });
+
+  test("returns a 406 with the builder's headers", () => {
+    const result = buildHeaders()
+      .custom("X-Request-ID", "1")
+      .negotiate(request({ Accept: "image/png" }), { types: ["json"] });
+    expect(result.response?.status).toBe(406);
+    expect(result.response?.headers.get("X-Request-ID")).toBe("1");
+    expect(result.response?.headers.get("Content-Type")).toBeNull();
+  });
+});
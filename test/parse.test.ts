@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+  canonicalHeaderName,
+  CspBuilder,
+  HeadersBuilder,
+  parseCacheControl,
+  parseContentType,
+  parseCsp,
+  parseETag,
+  parseHeaders,
+  toHeadersRecord,
+} from "../src/index";
+
+describe("canonicalHeaderName", () => {
+  test("title-cases names, with special cases", () => {
+    expect(canonicalHeaderName("content-type")).toBe("Content-Type");
+    expect(canonicalHeaderName("ETAG")).toBe("ETag");
+    expect(canonicalHeaderName("www-authenticate")).toBe("WWW-Authenticate");
+  });
+});
+
+describe("field parsers", () => {
+  test("parseCacheControl reads values and qualified lists", () => {
+    expect(
+      parseCacheControl(
+        'private="Set-Cookie, Authorization", max-age=60, no-transform, x-custom'
+      )
+    ).toEqual({
+      private: ["Set-Cookie", "Authorization"],
+      maxAge: 60,
+      noTransform: true,
+    });
+    expect(parseCacheControl("max-stale").maxStale).toBe(
+      Number.MAX_SAFE_INTEGER
+    );
+    expect(parseCacheControl("max-age=-1").maxAge).toBeUndefined();
+  });
+
+  test("parseETag reads weakness and rejects malformed tags", () => {
+    expect(parseETag('W/"abc"')).toEqual({
+      tag: 'W/"abc"',
+      value: "abc",
+      weak: true,
+    });
+    expect(parseETag("abc")).toBeUndefined();
+  });
+
+  test("parseContentType reads the essence and parameters", () => {
+    expect(parseContentType('Text/HTML; charset="UTF-8"')).toEqual({
+      mimeType: "text/html",
+      type: "text",
+      subtype: "html",
+      params: { charset: "UTF-8" },
+    });
+  });
+
+  test("parseCsp keeps the first occurrence of a directive", () => {
+    expect(
+      parseCsp("default-src 'self'; IMG-SRC https:; img-src *; ")
+    ).toEqual({ "default-src": ["'self'"], "img-src": ["https:"] });
+  });
+});
+
+describe("parseHeaders", () => {
+  test("parses a response into a typed model", () => {
+    const parsed = parseHeaders(
+      new Response(null, {
+        headers: {
+          "cache-control": "public, max-age=3600",
+          etag: '"v1"',
+          "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT",
+          "content-type": "application/json; charset=utf-8",
+          "content-length": "42",
+          vary: "Accept, Origin",
+          "access-control-allow-origin": "https://app.example.com",
+          "access-control-allow-credentials": "true",
+          "content-security-policy-report-only": "default-src 'self'",
+        },
+      })
+    );
+
+    expect(parsed.raw["Cache-Control"]).toBe("public, max-age=3600");
+    expect(parsed.cacheControl).toEqual({ public: true, maxAge: 3600 });
+    expect(parsed.etag?.weak).toBe(false);
+    expect(parsed.lastModified?.toISOString()).toBe(
+      "2024-01-01T00:00:00.000Z"
+    );
+    expect(parsed.contentType?.params.charset).toBe("utf-8");
+    expect(parsed.contentLength).toBe(42);
+    expect(parsed.vary).toEqual(["Accept", "Origin"]);
+    expect(parsed.cors.allowOrigin).toBe("https://app.example.com");
+    expect(parsed.cors.allowCredentials).toBe(true);
+    expect(parsed.csp).toEqual({
+      reportOnly: true,
+      directives: { "default-src": ["'self'"] },
+    });
+  });
+
+  test("leaves missing and invalid fields undefined", () => {
+    const parsed = parseHeaders({ "Content-Length": "many", Expires: "soon" });
+    expect(parsed.contentLength).toBeUndefined();
+    expect(parsed.expires).toBeUndefined();
+    expect(parsed.cacheControl).toBeUndefined();
+  });
+});
+
+describe("from()", () => {
+  test("seeds a builder with canonical header names", () => {
+    expect(toHeadersRecord(new Headers({ "x-proxy": "edge" }))).toEqual({
+      "X-Proxy": "edge",
+    });
+
+    const headers = HeadersBuilder.from({
+      "content-type": "text/css",
+      "cache-control": "no-store",
+    })
+      .cache("FIVE_MINUTES")
+      .build();
+    expect(headers).toEqual({
+      "Content-Type": "text/css",
+      "Cache-Control": "public, max-age=300",
+    });
+  });
+
+  test("CspBuilder.from() round-trips a policy", () => {
+    const csp = CspBuilder.from("default-src 'self'; img-src https:").add(
+      "img-src",
+      "https://cdn.example.com"
+    );
+    expect(csp.toString()).toBe(
+      "default-src 'self'; img-src https: https://cdn.example.com"
+    );
+  });
+});
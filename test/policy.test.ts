@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  commonHeaders,
+  definePolicy,
+  HeadersBuilder,
+} from "../src/index";
+
+describe("clone() and extend()", () => {
+  test("derive builders without touching the base", () => {
+    const base = buildHeaders().security().custom("Server", "edge");
+    const api = base.clone().contentType("json");
+    const page = base.extend(commonHeaders.html());
+
+    expect(base.build()["Content-Type"]).toBeUndefined();
+    expect(api.build()["Content-Type"]).toBe("application/json");
+    expect(page.build()["Content-Type"]).toStartWith("text/html");
+    expect(page.build().Server).toBe("edge");
+  });
+
+  test("clone() keeps cookies, Expires modes and reporting groups", () => {
+    const base = buildHeaders({ now: () => new Date(0) })
+      .cookie("a", "1")
+      .cookie("b", "2")
+      .cache("ONE_HOUR")
+      .expires("max-age")
+      .security({ csp: "default-src 'self'" })
+      .reporting({ endpoints: { csp: "https://example.com/r" }, csp: "csp" });
+    const copy = base.clone();
+
+    expect(copy.buildHeaders().getSetCookie()).toHaveLength(2);
+    expect(copy.build().Expires).toBe(new Date(3600000).toUTCString());
+    expect(copy.build()["Content-Security-Policy"]).toContain("report-to csp");
+  });
+});
+
+describe("merge()", () => {
+  test("overrides by default and keeps one-sided headers", () => {
+    const result = buildHeaders()
+      .custom("Server", "a")
+      .custom("X-Base", "1")
+      .merge(buildHeaders().custom("Server", "b"))
+      .build();
+
+    expect(result).toEqual({ Server: "b", "X-Base": "1" });
+  });
+
+  test("appends list headers, Vary by field name", () => {
+    const result = buildHeaders()
+      .vary("Accept-Encoding", "Origin")
+      .cookie("a", "1")
+      .merge(buildHeaders().vary("origin", "Accept").cookie("b", "2"));
+
+    expect(result.build().Vary).toBe("Accept-Encoding, Origin, Accept");
+    expect(result.buildHeaders().getSetCookie()).toHaveLength(2);
+  });
+
+  test("honours append and error strategies", () => {
+    const merged = buildHeaders()
+      .custom("X-Tag", "a")
+      .merge(buildHeaders().custom("X-Tag", "b"), { strategy: "append" })
+      .build();
+    expect(merged["X-Tag"]).toBe("a, b");
+
+    expect(() =>
+      buildHeaders()
+        .cache("ONE_DAY")
+        .merge(buildHeaders().cache("NO_CACHE"), {
+          headers: { "cache-control": "error" },
+        })
+    ).toThrow('"Cache-Control" is set by both builders');
+
+    // Identical values are not a conflict
+    expect(() =>
+      buildHeaders()
+        .custom("Server", "edge")
+        .merge(buildHeaders().custom("Server", "edge"), { strategy: "error" })
+    ).not.toThrow();
+  });
+
+  test("refuses to append single-value headers", () => {
+    expect(() =>
+      buildHeaders()
+        .contentType("json")
+        .merge(buildHeaders().contentType("html"), { strategy: "append" })
+    ).toThrow('"Content-Type" is set by both builders and has a single value');
+  });
+
+  test("replaces all CORS headers with an overriding origin", () => {
+    const result = buildHeaders()
+      .cors({ origin: "https://a.com", credentials: true })
+      .merge(buildHeaders().cors({ origin: "*" }))
+      .build();
+
+    expect(result["Access-Control-Allow-Origin"]).toBe("*");
+    expect(result["Access-Control-Allow-Credentials"]).toBeUndefined();
+  });
+});
+
+describe("policies", () => {
+  test("definePolicy() creates frozen, JSON-serializable policies", () => {
+    const policy = definePolicy("base", (h) =>
+      h.custom("Server", "edge").cookie("a", "1").cookie("b", "2")
+    );
+
+    expect(Object.isFrozen(policy)).toBe(true);
+    expect(policy.name).toBe("base");
+    expect(policy.headers.Server).toBe("edge");
+    expect(policy.headers["Set-Cookie"]).toHaveLength(2);
+
+    const loaded = HeadersBuilder.fromPolicy(
+      JSON.parse(JSON.stringify(policy))
+    );
+    expect(loaded.build().Server).toBe("edge");
+    expect(loaded.buildHeaders().getSetCookie()).toHaveLength(2);
+  });
+
+  test("keeps Expires as a mode", () => {
+    const policy = buildHeaders()
+      .cache("ONE_HOUR")
+      .expires("max-age")
+      .toPolicy("cached");
+    const now = new Date("2025-01-01T00:00:00Z");
+
+    expect(policy.expires).toBe("max-age");
+    expect(
+      HeadersBuilder.fromPolicy(policy, { now: () => now }).build().Expires
+    ).toBe(new Date(now.getTime() + 3600000).toUTCString());
+  });
+
+  test("layers presets and policies in either order", () => {
+    const base = definePolicy("base", (h) =>
+      h.custom("Server", "edge").cache("NO_CACHE")
+    );
+
+    expect(
+      HeadersBuilder.fromPolicy(base).merge(commonHeaders.api()).build()[
+        "Cache-Control"
+      ]
+    ).not.toBe(base.headers["Cache-Control"]);
+    expect(
+      commonHeaders.api().merge(base).build()["Cache-Control"]
+    ).toBe(base.headers["Cache-Control"] as string);
+  });
+
+  test("rejects invalid policies", () => {
+    expect(() =>
+      HeadersBuilder.fromPolicy({ name: "bad", headers: { A: 1 as never } })
+    ).toThrow('Policy "bad": Invalid value for "A"');
+    expect(() =>
+      HeadersBuilder.fromPolicy({ name: "bad", headers: {}, expires: "soon" })
+    ).toThrow('Invalid expires "soon"');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import { buildHeaders, serializeProblem, typedHeaders } from "../src/index";
+
+describe("serializeProblem", () => {
+  test("orders the standard members and adds the reason phrase", () => {
+    expect(
+      serializeProblem({ detail: "No order 42", status: 404, extra: 1 })
+    ).toBe('{"title":"Not Found","status":404,"detail":"No order 42","extra":1}');
+  });
+
+  test("keeps the title for typed problems", () => {
+    const body = JSON.parse(
+      serializeProblem({ type: "https://example.com/probs/credit", status: 403 })
+    );
+    expect(body).toEqual({
+      type: "https://example.com/probs/credit",
+      status: 403,
+    });
+  });
+
+  test("serializes XML with escaped values and array items", () => {
+    expect(
+      serializeProblem({ status: 400, detail: "a < b", tags: ["x", "y"] }, "xml")
+    ).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+        '<problem xmlns="urn:ietf:rfc:7807"><title>Bad Request</title>' +
+        "<status>400</status><detail>a &lt; b</detail>" +
+        "<tags><i>x</i><i>y</i></tags></problem>"
+    );
+  });
+
+  test("rejects non-error statuses and invalid XML names", () => {
+    expect(() => serializeProblem({ status: 200 })).toThrow("Invalid status");
+    expect(() => serializeProblem({ status: 400, "a b": 1 }, "xml")).toThrow(
+      "Invalid XML element name"
+    );
+  });
+});
+
+describe("problem()", () => {
+  test("answers with problem+json and no-store", async () => {
+    const res = buildHeaders().problem({ status: 404 });
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(res.headers.get("Cache-Control")).toContain("no-store");
+    expect(await res.json()).toEqual({ title: "Not Found", status: 404 });
+  });
+
+  test("answers with problem+xml", async () => {
+    const res = buildHeaders().problem({ status: 410 }, { format: "xml" });
+
+    expect(res.headers.get("Content-Type")).toBe("application/problem+xml");
+    expect(await res.text()).toContain("<status>410</status>");
+  });
+
+  test("defaults the status to the builder's error status, or 500", () => {
+    expect(buildHeaders().problem({}).status).toBe(500);
+    expect(buildHeaders().status(201).problem({}).status).toBe(500);
+    expect(buildHeaders().status(404).problem({}).status).toBe(404);
+    expect(buildHeaders().status(404).problem({ status: 409 }).status).toBe(
+      409
+    );
+  });
+
+  test("keeps CORS headers and drops representation headers", () => {
+    const res = buildHeaders()
+      .custom("Access-Control-Allow-Origin", "https://app.example.com")
+      .eTag('"v1"')
+      .custom("Last-Modified", new Date(0).toUTCString())
+      .custom("Content-Encoding", "br")
+      .problem({ status: 400 });
+
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+    expect(res.headers.get("ETag")).toBeNull();
+    expect(res.headers.get("Last-Modified")).toBeNull();
+    expect(res.headers.get("Content-Encoding")).toBeNull();
+  });
+
+  test("does not require dropped headers", () => {
+    const base = buildHeaders().requires("ETag").eTag('"v1"');
+    expect(base.problem({ status: 400 }).status).toBe(400);
+    expect(() => base.requires("X-Request-Id").problem({})).toThrow(
+      "X-Request-Id"
+    );
+  });
+
+  test("is typed with the tracked requirements", () => {
+    const res = typedHeaders().requires("ETag").problem({ status: 400 });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("tooManyRequests() and methodNotAllowed()", () => {
+  test("sets Retry-After in seconds or as a date", async () => {
+    const res = buildHeaders().tooManyRequests(29.2, { detail: "Slow down" });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(await res.json()).toMatchObject({ status: 429, detail: "Slow down" });
+
+    const date = new Date(Date.UTC(2030, 0, 1));
+    expect(
+      buildHeaders().tooManyRequests(date).headers.get("Retry-After")
+    ).toBe(date.toUTCString());
+    expect(() => buildHeaders().tooManyRequests(-1)).toThrow(
+      "Invalid Retry-After"
+    );
+  });
+
+  test("sets Allow with normalized, unique methods", () => {
+    const res = buildHeaders().methodNotAllowed(["get", "HEAD", "GET "]);
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET, HEAD");
+    expect(() => buildHeaders().methodNotAllowed(["GE T"])).toThrow(
+      "Invalid method"
+    );
+  });
+
+  test("ignore the builder's status", () => {
+    expect(buildHeaders().status(404).tooManyRequests(1).status).toBe(429);
+    expect(buildHeaders().status(404).methodNotAllowed(["GET"]).status).toBe(
+      405
+    );
+  });
+});
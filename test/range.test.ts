@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { buildHeaders, evaluateRange, parseRange, rangeBody } from "../src/index";
+
+const BODY = "0123456789";
+
+const request = (headers: Record<string, string>, method = "GET") =>
+  new Request("http://localhost/file", { method, headers });
+
+describe("parseRange", () => {
+  test("parses bounded, open and suffix ranges", () => {
+    expect(parseRange("bytes=0-99,-100", 1000)).toEqual([
+      { start: 0, end: 99 },
+      { start: 900, end: 999 },
+    ]);
+    expect(parseRange("bytes=500-", 1000)).toEqual([{ start: 500, end: 999 }]);
+    expect(parseRange("bytes=900-2000", 1000)).toEqual([
+      { start: 900, end: 999 },
+    ]);
+  });
+
+  test("coalesces overlapping and adjacent ranges", () => {
+    expect(parseRange("bytes=10-19,0-9,5-12", 100)).toEqual([
+      { start: 0, end: 19 },
+    ]);
+  });
+
+  test("returns null for absent or malformed headers", () => {
+    expect(parseRange(null, 100)).toBeNull();
+    expect(parseRange("items=0-1", 100)).toBeNull();
+    expect(parseRange("bytes=5-1", 100)).toBeNull();
+    expect(parseRange("bytes=-", 100)).toBeNull();
+  });
+
+  test("returns no ranges when none is satisfiable", () => {
+    expect(parseRange("bytes=100-200", 100)).toEqual([]);
+    expect(parseRange("bytes=-0", 100)).toEqual([]);
+  });
+});
+
+describe("evaluateRange", () => {
+  const headers = { "Content-Type": "text/plain" };
+
+  test("sends the full content without a Range header", () => {
+    const result = evaluateRange(request({}), BODY.length, {}, headers);
+    expect(result.status).toBe(200);
+    expect(result.headers["Accept-Ranges"]).toBe("bytes");
+    expect(result.headers["Content-Length"]).toBe("10");
+  });
+
+  test("answers a single range with a 206", async () => {
+    const result = evaluateRange(
+      request({ Range: "bytes=2-4" }),
+      BODY.length,
+      {},
+      headers
+    );
+    expect(result.status).toBe(206);
+    expect(result.headers["Content-Range"]).toBe("bytes 2-4/10");
+    expect(result.headers["Content-Length"]).toBe("3");
+    expect(await rangeBody(new TextEncoder().encode(BODY), result).text()).toBe(
+      "234"
+    );
+  });
+
+  test("answers unsatisfiable ranges with an empty 416", async () => {
+    const result = evaluateRange(
+      request({ Range: "bytes=20-30" }),
+      BODY.length,
+      {},
+      { ...headers, "Content-Length": "10" }
+    );
+    expect(result.status).toBe(416);
+    expect(result.headers["Content-Range"]).toBe("bytes */10");
+    expect(result.headers["Content-Length"]).toBe("0");
+    expect(result.headers["Content-Type"]).toBeUndefined();
+    expect(await rangeBody(new Blob([BODY]), result).text()).toBe("");
+  });
+
+  test("builds multipart/byteranges for several ranges", async () => {
+    const result = evaluateRange(
+      request({ Range: "bytes=0-1,8-9" }),
+      BODY.length,
+      {},
+      headers
+    );
+    const boundary = result.multipart?.boundary;
+    expect(result.headers["Content-Type"]).toBe(
+      `multipart/byteranges; boundary=${boundary}`
+    );
+
+    const body = await rangeBody(new Blob([BODY]), result).text();
+    expect(body).toBe(
+      `--${boundary}\r\nContent-Type: text/plain\r\n` +
+        "Content-Range: bytes 0-1/10\r\n\r\n01" +
+        `\r\n--${boundary}\r\nContent-Type: text/plain\r\n` +
+        "Content-Range: bytes 8-9/10\r\n\r\n89" +
+        `\r\n--${boundary}--\r\n`
+    );
+    expect(result.headers["Content-Length"]).toBe(
+      new TextEncoder().encode(body).length.toString()
+    );
+  });
+
+  test("ignores ranges on other methods", () => {
+    const result = evaluateRange(
+      request({ Range: "bytes=0-1" }, "POST"),
+      BODY.length
+    );
+    expect(result.status).toBe(200);
+  });
+
+  test("sends the full content when If-Range doesn't match", () => {
+    const range = (ifRange: string) =>
+      evaluateRange(
+        request({ Range: "bytes=0-1", "If-Range": ifRange }),
+        BODY.length,
+        { etag: '"v1"', lastModified: new Date("2024-01-01T00:00:00Z") }
+      ).status;
+    expect(range('"v1"')).toBe(206);
+    expect(range('W/"v1"')).toBe(200);
+    expect(range('"v2"')).toBe(200);
+    expect(range("Mon, 01 Jan 2024 00:00:00 GMT")).toBe(206);
+    expect(range("Tue, 02 Jan 2024 00:00:00 GMT")).toBe(200);
+  });
+});
+
+describe("builder evaluateRange", () => {
+  test("checks If-Range against the builder's ETag", () => {
+    const builder = buildHeaders().contentType("text").eTagValue('"v1"');
+    const result = builder.evaluateRange(
+      request({ Range: "bytes=0-4", "If-Range": '"v1"' }),
+      BODY.length
+    );
+    expect(result.status).toBe(206);
+    expect(result.headers.get("ETag")).toBe('"v1"');
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  isReport,
+  parseReports,
+  readReports,
+  serializeNel,
+  serializeReportingEndpoints,
+  serializeReportTo,
+} from "../src/index";
+
+describe("serializers", () => {
+  test("serializes Reporting-Endpoints as a dictionary", () => {
+    expect(
+      serializeReportingEndpoints({
+        "csp-endpoint": "https://example.com/csp",
+        default: "http://localhost:3000/reports",
+      })
+    ).toBe(
+      'csp-endpoint="https://example.com/csp", ' +
+        'default="http://localhost:3000/reports"'
+    );
+  });
+
+  test("rejects bad endpoint names and insecure URLs", () => {
+    expect(() =>
+      serializeReportingEndpoints({ CSP: "https://example.com" })
+    ).toThrow('Invalid endpoint name "CSP"');
+    expect(() =>
+      serializeReportingEndpoints({ csp: "http://example.com" })
+    ).toThrow("must use https");
+    expect(() => serializeReportingEndpoints({ csp: "nope" })).toThrow(
+      "Invalid URL"
+    );
+  });
+
+  test("serializes legacy Report-To groups", () => {
+    expect(
+      serializeReportTo([
+        {
+          group: "nel",
+          maxAge: 86400,
+          endpoints: ["https://example.com/nel"],
+          includeSubdomains: true,
+        },
+      ])
+    ).toBe(
+      '{"group":"nel","max_age":86400,' +
+        '"endpoints":[{"url":"https://example.com/nel"}],' +
+        '"include_subdomains":true}'
+    );
+    expect(() =>
+      serializeReportTo([{ group: "nel", maxAge: 1, endpoints: [] }])
+    ).toThrow("has no endpoints");
+    expect(() =>
+      serializeReportTo([
+        { maxAge: -1, endpoints: ["https://example.com/r"] },
+      ])
+    ).toThrow("non-negative integer");
+  });
+
+  test("serializes NEL policies", () => {
+    expect(
+      serializeNel({ reportTo: "nel", maxAge: 86400, failureFraction: 1 })
+    ).toBe('{"report_to":"nel","max_age":86400,"failure_fraction":1}');
+    expect(() =>
+      serializeNel({ reportTo: "nel", maxAge: 1, successFraction: 2 })
+    ).toThrow("success_fraction must be between 0 and 1");
+  });
+});
+
+describe("reporting()", () => {
+  test("points CSP, COOP and Permissions-Policy at their groups", () => {
+    const result = buildHeaders()
+      .security({ csp: "default-src 'self';" })
+      .custom("Cross-Origin-Opener-Policy", "same-origin")
+      .custom("Permissions-Policy", "camera=(), geolocation=(self)")
+      .reporting({
+        endpoints: { csp: "https://example.com/csp" },
+        csp: "csp",
+        coop: "csp",
+        permissionsPolicy: "csp",
+      })
+      .build();
+
+    expect(result["Reporting-Endpoints"]).toBe(
+      'csp="https://example.com/csp"'
+    );
+    expect(result["Content-Security-Policy"]).toBe(
+      "default-src 'self'; report-to csp"
+    );
+    expect(result["Cross-Origin-Opener-Policy"]).toBe(
+      'same-origin; report-to="csp"'
+    );
+    expect(result["Permissions-Policy"]).toBe(
+      "camera=();report-to=csp, geolocation=(self);report-to=csp"
+    );
+  });
+
+  test("keeps a report-to configured explicitly", () => {
+    const result = buildHeaders()
+      .security({ csp: "default-src 'self'; report-to other" })
+      .reporting({ endpoints: { csp: "https://example.com/csp" }, csp: "csp" })
+      .build();
+
+    expect(result["Content-Security-Policy"]).toBe(
+      "default-src 'self'; report-to other"
+    );
+  });
+
+  test("adds legacy groups and rejects unknown groups", () => {
+    const result = buildHeaders()
+      .reporting({ endpoints: { nel: "https://example.com/nel" }, legacy: 60 })
+      .nel({ reportTo: "nel", maxAge: 60 })
+      .build();
+
+    expect(JSON.parse(result["Report-To"]!)).toEqual({
+      group: "nel",
+      max_age: 60,
+      endpoints: [{ url: "https://example.com/nel" }],
+    });
+    expect(result.NEL).toBe('{"report_to":"nel","max_age":60}');
+    expect(() =>
+      buildHeaders().reporting({
+        endpoints: { nel: "https://example.com/nel" },
+        csp: "csp",
+      })
+    ).toThrow('reports to "csp", which is not an endpoint');
+  });
+});
+
+describe("parseReports", () => {
+  test("parses application/reports+json deliveries", () => {
+    const reports = parseReports(
+      JSON.stringify([
+        {
+          type: "network-error",
+          url: "https://example.com/",
+          age: 10,
+          user_agent: "UA",
+          body: { elapsed_time: 5, type: "tcp.timed_out" },
+        },
+        { type: "broken" },
+      ]),
+      "application/reports+json"
+    );
+
+    expect(reports).toEqual([
+      {
+        type: "network-error",
+        url: "https://example.com/",
+        age: 10,
+        userAgent: "UA",
+        body: { elapsedTime: 5, type: "tcp.timed_out" },
+      },
+    ]);
+  });
+
+  test("normalizes legacy application/csp-report payloads", () => {
+    const [report] = parseReports(
+      JSON.stringify({
+        "csp-report": {
+          "document-uri": "https://example.com/",
+          "blocked-uri": "https://evil.com/x.js",
+          "violated-directive": "script-src 'self'",
+          "original-policy": "script-src 'self'",
+        },
+      }),
+      "application/csp-report"
+    );
+
+    expect(report).toEqual({
+      type: "csp-violation",
+      url: "https://example.com/",
+      age: 0,
+      body: {
+        documentURL: "https://example.com/",
+        blockedURL: "https://evil.com/x.js",
+        effectiveDirective: "script-src",
+        originalPolicy: "script-src 'self'",
+        disposition: "enforce",
+      },
+    });
+    expect(isReport(report!, "csp-violation")).toBe(true);
+  });
+
+  test("ignores malformed payloads", () => {
+    expect(parseReports("{not json")).toEqual([]);
+    expect(parseReports("{}", "application/csp-report")).toEqual([]);
+  });
+
+  test("reads reports from a request", async () => {
+    const req = new Request("https://example.com/reports", {
+      method: "POST",
+      headers: { "Content-Type": "application/reports+json" },
+      body: JSON.stringify([
+        { type: "deprecation", url: "https://example.com/", body: {} },
+      ]),
+    });
+
+    const [report] = await readReports(req);
+    expect(report?.type).toBe("deprecation");
+    expect(isReport(report!, "csp-violation")).toBe(false);
+  });
+});
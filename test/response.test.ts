@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  commonHeaders,
+  HeadersBuilder,
+  typedHeaders,
+} from "../src/index";
+
+const head = new Request("https://example.com/", { method: "HEAD" });
+
+describe("response methods", () => {
+  test("json() sets the type, length and status", async () => {
+    const res = buildHeaders().status(201).json({ id: 1 });
+
+    expect(res.status).toBe(201);
+    expect(res.headers.get("Content-Type")).toBe("application/json");
+    expect(res.headers.get("Content-Length")).toBe("8");
+    expect(await res.json()).toEqual({ id: 1 });
+    expect(() => buildHeaders().json(undefined)).toThrow("not serializable");
+  });
+
+  test("keeps a Content-Type that is already set", () => {
+    const res = buildHeaders().contentType("xml").text("<a/>");
+    expect(res.headers.get("Content-Type")).toStartWith("application/xml");
+  });
+
+  test("text() and html() default to UTF-8 types", async () => {
+    const text = buildHeaders().text("héllo");
+    expect(text.headers.get("Content-Type")).toBe("text/plain; charset=utf-8");
+    expect(text.headers.get("Content-Length")).toBe("6");
+
+    const html = buildHeaders().html("<h1>Hi</h1>");
+    expect(html.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+    expect(await html.text()).toBe("<h1>Hi</h1>");
+  });
+
+  test("stream() has no Content-Length", async () => {
+    const body = new Blob(["chunk"]).stream();
+    const res = buildHeaders().stream(body);
+
+    expect(res.headers.get("Content-Type")).toBe("application/octet-stream");
+    expect(res.headers.get("Content-Length")).toBeNull();
+    expect(await res.text()).toBe("chunk");
+  });
+
+  test("response() measures Blob bodies and keeps every cookie", () => {
+    const res = buildHeaders()
+      .cookie("a", "1")
+      .cookie("b", "2")
+      .response(new Blob(["abc"]));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Length")).toBe("3");
+    expect(res.headers.getSetCookie()).toHaveLength(2);
+  });
+
+  test("answers HEAD with the headers and no body", async () => {
+    const res = buildHeaders().json({ id: 1 }, { request: head });
+
+    expect(res.headers.get("Content-Length")).toBe("8");
+    expect(await res.text()).toBe("");
+  });
+
+  test("noContent() and null-body statuses", () => {
+    const res = buildHeaders().cors().noContent();
+    expect(res.status).toBe(204);
+    expect(res.body).toBeNull();
+
+    expect(() =>
+      buildHeaders().response("body", { status: 304 })
+    ).toThrow("A 304 response can't have a body.");
+    expect(() => buildHeaders().status(99)).toThrow("Invalid status code 99");
+  });
+});
+
+describe("redirects", () => {
+  test("track the redirect status", () => {
+    expect(buildHeaders().redirect("/a").response().status).toBe(302);
+    expect(buildHeaders().redirect("/a", true).response().status).toBe(301);
+    expect(buildHeaders().redirect("/a", 303).response().status).toBe(303);
+    expect(
+      commonHeaders.permanentRedirect("https://example.com").response()
+    ).toMatchObject({ status: 301 });
+    expect(buildHeaders().redirect("/a").build()).toEqual({ Location: "/a" });
+  });
+
+  test("reject other statuses", () => {
+    expect(() => buildHeaders().redirect("/a", 300 as never)).toThrow(
+      "Invalid redirect status 300"
+    );
+  });
+});
+
+describe("problem()", () => {
+  test("creates application/problem+json", async () => {
+    const res = buildHeaders().problem({ title: "Not found", status: 404 });
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(await res.json()).toEqual({ title: "Not found", status: 404 });
+  });
+
+  test("defaults to the builder's error status, otherwise 500", () => {
+    expect(buildHeaders().problem({}).status).toBe(500);
+    expect(buildHeaders().status(201).problem({}).status).toBe(500);
+    expect(buildHeaders().redirect("/a").problem({}).status).toBe(500);
+    expect(buildHeaders().status(404).problem({}).status).toBe(404);
+  });
+});
+
+describe("status", () => {
+  test("is copied by clone() and kept by policies", () => {
+    const base = buildHeaders().status(202);
+
+    expect(base.clone().response().status).toBe(202);
+    expect(base.toPolicy("accepted").status).toBe(202);
+    expect(
+      HeadersBuilder.fromPolicy(base.toPolicy("accepted")).response().status
+    ).toBe(202);
+    expect(() =>
+      HeadersBuilder.fromPolicy({ name: "bad", headers: {}, status: 42 })
+    ).toThrow('Policy "bad": Invalid status "42".');
+  });
+
+  test("is taken from merged builders", () => {
+    const res = buildHeaders()
+      .status(201)
+      .merge(buildHeaders().status(202))
+      .response();
+    expect(res.status).toBe(202);
+  });
+});
+
+describe("typed response methods", () => {
+  test("check requires() like build()", () => {
+    const route = typedHeaders().requires("Cache-Control");
+
+    // @ts-expect-error Missing required header: Cache-Control
+    expect(() => route.clone().json({})).toThrow("is required");
+    expect(route.clone().cache("NO_CACHE").json({}).status).toBe(200);
+
+    // json() sets Content-Type
+    const typed = typedHeaders().requires("Content-Type").json({});
+    expect(typed.headers.get("Content-Type")).toBe("application/json");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  serializeHsts,
+  serializePermissionsPolicy,
+} from "../src/index";
+
+describe("serializeHsts", () => {
+  test("defaults to a year with includeSubDomains", () => {
+    expect(serializeHsts()).toBe("max-age=31536000; includeSubDomains");
+    expect(serializeHsts({ maxAge: 60, includeSubDomains: false })).toBe(
+      "max-age=60"
+    );
+  });
+
+  test("validates preload-list eligibility", () => {
+    expect(serializeHsts({ maxAge: 63072000, preload: true })).toBe(
+      "max-age=63072000; includeSubDomains; preload"
+    );
+    expect(() => serializeHsts({ maxAge: 86400, preload: true })).toThrow(
+      "at least 31536000"
+    );
+    expect(() =>
+      serializeHsts({ preload: true, includeSubDomains: false })
+    ).toThrow("requires includeSubDomains");
+    expect(() => serializeHsts({ maxAge: -1 })).toThrow("non-negative");
+  });
+});
+
+describe("serializePermissionsPolicy", () => {
+  test("serializes allowlists as Structured Fields", () => {
+    expect(
+      serializePermissionsPolicy({
+        camera: "none",
+        microphone: [],
+        geolocation: ["self", "https://maps.example.com/"],
+        fullscreen: "*",
+        autoplay: "self",
+        payment: undefined,
+      })
+    ).toBe(
+      "camera=(), microphone=(), " +
+        'geolocation=(self "https://maps.example.com"), ' +
+        "fullscreen=*, autoplay=self"
+    );
+  });
+
+  test("rejects invalid features and origins", () => {
+    expect(() => serializePermissionsPolicy({ Camera: "none" })).toThrow(
+      'Invalid feature "Camera"'
+    );
+    expect(() =>
+      serializePermissionsPolicy({ camera: ["https://a.com/path"] })
+    ).toThrow("is not an origin");
+    expect(() => serializePermissionsPolicy({ camera: ["a.com"] })).toThrow(
+      "is not an origin"
+    );
+  });
+});
+
+describe("security()", () => {
+  test("sets modern defaults without X-XSS-Protection", () => {
+    const result = buildHeaders().security().build();
+
+    expect(result).toEqual({
+      "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
+      "X-Content-Type-Options": "nosniff",
+      "X-Frame-Options": "SAMEORIGIN",
+      "Referrer-Policy": "strict-origin-when-cross-origin",
+    });
+  });
+
+  test("sets cross-origin and feature policies", () => {
+    const result = buildHeaders()
+      .security({
+        hsts: { maxAge: 63072000, preload: true },
+        frameOptions: false,
+        referrerPolicy: ["no-referrer", "strict-origin-when-cross-origin"],
+        coop: "same-origin",
+        coep: "credentialless",
+        corp: "same-site",
+        permissionsPolicy: { camera: "none" },
+        permittedCrossDomainPolicies: "none",
+        originAgentCluster: true,
+      })
+      .build();
+
+    expect(result["Strict-Transport-Security"]).toBe(
+      "max-age=63072000; includeSubDomains; preload"
+    );
+    expect(result["X-Frame-Options"]).toBeUndefined();
+    expect(result["Referrer-Policy"]).toBe(
+      "no-referrer, strict-origin-when-cross-origin"
+    );
+    expect(result["Cross-Origin-Opener-Policy"]).toBe("same-origin");
+    expect(result["Cross-Origin-Embedder-Policy"]).toBe("credentialless");
+    expect(result["Cross-Origin-Resource-Policy"]).toBe("same-site");
+    expect(result["Permissions-Policy"]).toBe("camera=()");
+    expect(result["X-Permitted-Cross-Domain-Policies"]).toBe("none");
+    expect(result["Origin-Agent-Cluster"]).toBe("?1");
+  });
+
+  test("still sends X-XSS-Protection when asked", () => {
+    const result = buildHeaders()
+      .security({ xssProtection: true, hsts: false, referrerPolicy: false })
+      .build();
+
+    expect(result["X-XSS-Protection"]).toBe("1; mode=block");
+    expect(result["Strict-Transport-Security"]).toBeUndefined();
+    expect(result["Referrer-Policy"]).toBeUndefined();
+  });
+
+  test("crossOriginIsolated() sets COOP and COEP", () => {
+    expect(buildHeaders().crossOriginIsolated().build()).toEqual({
+      "Cross-Origin-Opener-Policy": "same-origin",
+      "Cross-Origin-Embedder-Policy": "require-corp",
+    });
+    expect(
+      buildHeaders().crossOriginIsolated("credentialless").build()[
+        "Cross-Origin-Embedder-Policy"
+      ]
+    ).toBe("credentialless");
+  });
+});
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { serveFile } from "../src/index";
+
+let dir: string;
+
+const get = (headers: Record<string, string> = {}, method = "GET") =>
+  new Request("https://example.com/", { method, headers });
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "serve-file-"));
+  await writeFile(join(dir, "app.3f9a1c.js"), "console.log(1);");
+  await writeFile(join(dir, "index.html"), "<h1>Hello</h1>");
+  await writeFile(join(dir, "index.html.br"), "brotli");
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("serveFile", () => {
+  test("serves a file with type, length, validators and strategy", async () => {
+    const res = await serveFile(get(), join(dir, "app.3f9a1c.js"));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("javascript");
+    expect(res.headers.get("Content-Length")).toBe("15");
+    expect(res.headers.get("Cache-Control")).toContain("immutable");
+    expect(res.headers.get("ETag")).toStartWith('W/"');
+    expect(res.headers.get("Last-Modified")).not.toBeNull();
+    expect(await res.text()).toBe("console.log(1);");
+  });
+
+  test("answers 304 when the validator matches", async () => {
+    const path = join(dir, "app.3f9a1c.js");
+    const etag = (await serveFile(get(), path)).headers.get("ETag")!;
+    const res = await serveFile(get({ "If-None-Match": etag }), path);
+
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+  });
+
+  test("answers byte ranges and HEAD without a body", async () => {
+    const path = join(dir, "app.3f9a1c.js");
+    const partial = await serveFile(get({ Range: "bytes=0-6" }), path);
+    expect(partial.status).toBe(206);
+    expect(await partial.text()).toBe("console");
+
+    const head = await serveFile(get({}, "HEAD"), path);
+    expect(head.status).toBe(200);
+    expect(head.headers.get("Content-Length")).toBe("15");
+    expect(await head.text()).toBe("");
+  });
+
+  test("prefers a precompressed sibling the client accepts", async () => {
+    const path = join(dir, "index.html");
+    const br = await serveFile(get({ "Accept-Encoding": "br, gzip" }), path);
+    expect(br.headers.get("Content-Encoding")).toBe("br");
+    expect(br.headers.get("Content-Type")).toContain("text/html");
+    expect(br.headers.get("Vary")).toContain("Accept-Encoding");
+    expect(await br.text()).toBe("brotli");
+
+    const gzip = await serveFile(get({ "Accept-Encoding": "gzip" }), path);
+    expect(gzip.headers.get("Content-Encoding")).toBeNull();
+    expect(await gzip.text()).toBe("<h1>Hello</h1>");
+  });
+
+  test("keeps every Set-Cookie line without ranges", async () => {
+    const headers = new Headers();
+    headers.append("Set-Cookie", "a=1");
+    headers.append("Set-Cookie", "b=2");
+    const res = await serveFile(get(), join(dir, "index.html"), {
+      ranges: false,
+      headers,
+    });
+
+    expect(res.headers.getSetCookie()).toEqual(["a=1", "b=2"]);
+    expect(res.headers.get("Content-Length")).toBe("14");
+  });
+
+  test("rejects other methods and missing files", async () => {
+    const post = await serveFile(get({}, "POST"), join(dir, "index.html"));
+    expect(post.status).toBe(405);
+    expect(post.headers.get("Allow")).toBe("GET, HEAD");
+
+    const missing = await serveFile(get(), join(dir, "missing.txt"));
+    expect(missing.status).toBe(404);
+    expect((await serveFile(get(), dir)).status).toBe(404);
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  buildServerTiming,
+  parseServerTiming,
+  serializeServerTiming,
+  ServerTiming,
+} from "../src/index";
+
+/**
+ * Clock that only moves when told to
+ */
+function fakeClock() {
+  let now = 0;
+  return {
+    clock: () => now,
+    tick: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+const env = process.env.NODE_ENV;
+
+afterEach(() => {
+  process.env.NODE_ENV = env;
+});
+
+describe("serializeServerTiming", () => {
+  test("rounds durations and escapes descriptions", () => {
+    expect(
+      serializeServerTiming([
+        { name: "db", dur: 53.2049, desc: "Primary DB" },
+        { name: "cache", desc: "hit" },
+        { name: "total", dur: 0 },
+        { name: "q", desc: 'say "hi"\n' },
+        { name: "i18n", desc: "café" },
+      ])
+    ).toBe(
+      'db;dur=53.2;desc="Primary DB", cache;desc=hit, total;dur=0, ' +
+        'q;desc="say \\"hi\\"", i18n;desc="caf%C3%A9"'
+    );
+  });
+
+  test("rejects invalid names and durations", () => {
+    expect(() => serializeServerTiming([{ name: "a b" }])).toThrow(
+      'Invalid metric name "a b"'
+    );
+    expect(() => serializeServerTiming([{ name: "db", dur: -1 }])).toThrow(
+      "non-negative"
+    );
+  });
+});
+
+describe("parseServerTiming", () => {
+  test("parses metrics and round-trips", () => {
+    const value = 'db;dur=53.2;desc="Primary, DB", cache;desc=hit, miss';
+
+    expect(parseServerTiming(value)).toEqual([
+      { name: "db", dur: 53.2, desc: "Primary, DB" },
+      { name: "cache", desc: "hit" },
+      { name: "miss" },
+    ]);
+    expect(serializeServerTiming(parseServerTiming(value))).toBe(value);
+  });
+
+  test("keeps the first parameter and skips malformed metrics", () => {
+    expect(
+      parseServerTiming('a;dur=1;dur=2;DESC=x;foo=bar, "bad", b;dur=nope')
+    ).toEqual([
+      { name: "a", dur: 1, desc: "x" },
+      { name: "b", dur: 0 },
+    ]);
+  });
+});
+
+describe("ServerTiming", () => {
+  test("records named timers and metrics in order", () => {
+    const { clock, tick } = fakeClock();
+    const timing = new ServerTiming(clock);
+
+    timing.start("db", "Primary DB");
+    tick(12.5);
+    timing.end("db").record("cache", undefined, "miss");
+
+    expect(timing.getMetrics()).toEqual([
+      { name: "db", dur: 12.5, desc: "Primary DB" },
+      { name: "cache", desc: "miss" },
+    ]);
+    expect(timing.toString()).toBe(
+      'db;dur=12.5;desc="Primary DB", cache;desc=miss'
+    );
+    expect(() => timing.end("db")).toThrow('Timer "db" was not started');
+  });
+
+  test("measure() times async work, even when it throws", async () => {
+    const { clock, tick } = fakeClock();
+    const timing = buildServerTiming(clock);
+
+    const value = await timing.measure("auth", async () => {
+      await Promise.resolve();
+      tick(5);
+      return 42;
+    });
+    await expect(
+      timing.measure("render", () => {
+        tick(3);
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(value).toBe(42);
+    expect(timing.getMetrics()).toEqual([
+      { name: "auth", dur: 5 },
+      { name: "render", dur: 3 },
+    ]);
+  });
+
+  test("measure() keeps concurrent measures with the same name apart", async () => {
+    const { clock, tick } = fakeClock();
+    const timing = new ServerTiming(clock);
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const slow = timing.measure("fetch", () => gate, "slow");
+    tick(10);
+    await timing.measure("fetch", () => tick(2), "fast");
+    tick(5);
+    release();
+    await slow;
+
+    expect(timing.getMetrics()).toEqual([
+      { name: "fetch", dur: 2, desc: "fast" },
+      { name: "fetch", dur: 17, desc: "slow" },
+    ]);
+  });
+
+  test("merges nested handlers and upstream values", () => {
+    const nested = new ServerTiming().record("auth", 4);
+    const timing = new ServerTiming()
+      .merge(nested)
+      .merge([{ name: "db", dur: 1 }])
+      .merge("edge;desc=hit");
+
+    nested.record("late", 1);
+    expect(timing.toString()).toBe("auth;dur=4, db;dur=1, edge;desc=hit");
+  });
+});
+
+describe("serverTiming()", () => {
+  const timing = () => new ServerTiming().record("db", 1.5);
+
+  test("is sent in development and combined with existing metrics", () => {
+    process.env.NODE_ENV = "development";
+    const result = buildHeaders()
+      .custom("Server-Timing", "edge;desc=hit")
+      .serverTiming(timing())
+      .serverTiming([])
+      .build();
+
+    expect(result["Server-Timing"]).toBe("edge;desc=hit, db;dur=1.5");
+  });
+
+  test("is suppressed in production without the trusted header", () => {
+    process.env.NODE_ENV = "production";
+    const request = (headers: Record<string, string> = {}) =>
+      new Request("https://example.com/", { headers });
+
+    expect(buildHeaders().serverTiming(timing()).build()).toEqual({});
+    expect(
+      buildHeaders()
+        .serverTiming(timing(), {
+          request: request({ "X-Debug": "1" }),
+          trustedHeader: "X-Debug",
+        })
+        .build()["Server-Timing"]
+    ).toBe("db;dur=1.5");
+
+    const secret = (value: string) =>
+      buildHeaders()
+        .serverTiming(timing(), {
+          request: request({ "X-Debug": value }),
+          trustedHeader: ["X-Debug", "s3cret"],
+        })
+        .build()["Server-Timing"];
+    expect(secret("s3cret")).toBe("db;dur=1.5");
+    expect(secret("s3cre")).toBeUndefined();
+    expect(
+      buildHeaders().serverTiming(timing(), { enabled: true }).build()
+    ).toEqual({ "Server-Timing": "db;dur=1.5" });
+  });
+});
+
+describe("timingAllowOrigin()", () => {
+  test("defaults to * and validates origins", () => {
+    expect(buildHeaders().timingAllowOrigin().build()).toEqual({
+      "Timing-Allow-Origin": "*",
+    });
+    expect(
+      buildHeaders()
+        .timingAllowOrigin("https://a.com", "https://b.com:8443")
+        .build()["Timing-Allow-Origin"]
+    ).toBe("https://a.com, https://b.com:8443");
+    expect(() =>
+      buildHeaders().timingAllowOrigin("https://a.com/path")
+    ).toThrow("is not an origin");
+  });
+});
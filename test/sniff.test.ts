@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  detectContentType,
+  getFileExtension,
+  sniffMimeType,
+} from "../src/index";
+
+const bytes = (value: string) =>
+  Uint8Array.from([...value], (char) => char.charCodeAt(0));
+
+const PNG = bytes("\x89PNG\r\n\x1A\n\x00\x00\x00\x0DIHDR");
+const JPEG = bytes("\xFF\xD8\xFF\xE0\x00\x10JFIF");
+const MP4 = bytes("\x00\x00\x00\x18ftypisom\x00\x00\x02\x00");
+const ZIP = bytes("PK\x03\x04\x14\x00\x00\x00");
+
+describe("sniffMimeType", () => {
+  test("detects binary formats from magic numbers", () => {
+    expect(sniffMimeType(PNG)).toBe("image/png");
+    expect(sniffMimeType(JPEG.buffer)).toBe("image/jpeg");
+    expect(sniffMimeType(MP4)).toBe("video/mp4");
+    expect(sniffMimeType(bytes("\x00\x00\x00\x18ftypavif"))).toBe(
+      "image/avif"
+    );
+    expect(sniffMimeType(ZIP)).toBe("application/zip");
+  });
+
+  test("never sniffs text formats", () => {
+    expect(sniffMimeType(bytes("<html><body></body></html>"))).toBeUndefined();
+    expect(sniffMimeType(bytes('{"a":1}'))).toBeUndefined();
+  });
+});
+
+describe("detectContentType", () => {
+  test("uses the extension without a body", () => {
+    expect(detectContentType("app.css")).toEqual({
+      contentType: "text/css",
+      declared: "text/css",
+      mismatch: false,
+    });
+    expect(detectContentType("upload").contentType).toBe(
+      "application/octet-stream"
+    );
+  });
+
+  test("lets strong binary signatures win over a wrong extension", () => {
+    expect(detectContentType("avatar.png", JPEG)).toEqual({
+      contentType: "image/jpeg",
+      declared: "image/png",
+      sniffed: "image/jpeg",
+      mismatch: true,
+    });
+    expect(detectContentType("upload.bin", PNG)).toMatchObject({
+      contentType: "image/png",
+      mismatch: false,
+    });
+  });
+
+  test("keeps specific types inside a matching container", () => {
+    expect(detectContentType("report.docx", ZIP)).toMatchObject({
+      contentType:
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      mismatch: false,
+    });
+  });
+
+  test("keeps declared text types and weak matches", () => {
+    expect(detectContentType("data.csv", bytes("ID3,name"))).toEqual({
+      contentType: "text/csv",
+      declared: "text/csv",
+      sniffed: "audio/mpeg",
+      mismatch: true,
+    });
+    expect(detectContentType("notes.txt", PNG).contentType).toBe(
+      "text/plain; charset=utf-8"
+    );
+    expect(detectContentType("data.json", bytes("BZh91AY")).contentType).toBe(
+      "application/json"
+    );
+  });
+});
+
+describe("getFileExtension", () => {
+  test("prefers known compound extensions", () => {
+    expect(getFileExtension("backup.tar.gz")).toBe("tar.gz");
+    expect(getFileExtension("v1.2.3/notes.txt")).toBe("txt");
+    expect(getFileExtension(".env")).toBeUndefined();
+    expect(getFileExtension("Makefile")).toBeUndefined();
+  });
+});
+
+describe("filePath with a body", () => {
+  test("sets the sniffed type", () => {
+    expect(buildHeaders().filePath("upload", PNG).build()).toEqual({
+      "Content-Type": "image/png",
+    });
+  });
+});
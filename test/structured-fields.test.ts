@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildHeaders,
+  parseSfDictionary,
+  parseSfItem,
+  parseSfList,
+  parseStructuredField,
+  serializeSfDictionary,
+  serializeSfItem,
+  serializeSfList,
+  serializeStructuredField,
+  SfDecimal,
+  SfDisplayString,
+  SfToken,
+} from "../src/index";
+
+describe("serialize", () => {
+  test("serializes bare items", () => {
+    expect(serializeSfItem(5)).toBe("5");
+    expect(serializeSfItem(-1.5)).toBe("-1.5");
+    expect(serializeSfItem(new SfDecimal(2))).toBe("2.0");
+    expect(serializeSfItem(0.0025)).toBe("0.002");
+    expect(serializeSfItem('say "hi"')).toBe('"say \\"hi\\""');
+    expect(serializeSfItem(false)).toBe("?0");
+    expect(serializeSfItem(new SfToken("text/html"))).toBe("text/html");
+    expect(serializeSfItem(new Uint8Array([104, 105]))).toBe(":aGk=:");
+    expect(serializeSfItem(new Date(1659578233000))).toBe("@1659578233");
+    expect(serializeSfItem(new SfDisplayString("füü"))).toBe(
+      '%"f%c3%bc%c3%bc"'
+    );
+  });
+
+  test("serializes parameters, lists and dictionaries", () => {
+    expect(
+      serializeSfItem({ value: new SfToken("miss"), params: { ttl: 30 } })
+    ).toBe("miss;ttl=30");
+    expect(
+      serializeSfList([
+        new SfToken("sugar"),
+        ["a", "b"],
+        { value: 1, params: { q: 0.5 } },
+        { value: [], params: { empty: true } },
+      ])
+    ).toBe('sugar, ("a" "b"), 1;q=0.5, ();empty');
+    expect(serializeSfDictionary({ u: 1, i: true, p: false })).toBe(
+      "u=1, i, p=?0"
+    );
+  });
+
+  test("infers the field type", () => {
+    expect(serializeStructuredField({ u: 3 })).toBe("u=3");
+    expect(serializeStructuredField([1, 2])).toBe("1, 2");
+    expect(serializeStructuredField(new SfToken("gzip"))).toBe("gzip");
+    expect(serializeStructuredField(new Uint8Array([1]))).toBe(":AQ==:");
+    expect(serializeStructuredField({ value: 1, params: { a: 2 } })).toBe(
+      "1;a=2"
+    );
+    expect(serializeStructuredField({ value: 1 }, "dictionary")).toBe(
+      "value=1"
+    );
+  });
+
+  test("rejects values that can't be serialized safely", () => {
+    expect(() => serializeSfItem("line\nbreak")).toThrow("printable ASCII");
+    expect(() => serializeSfItem("café")).toThrow("use SfDisplayString");
+    expect(() => serializeSfItem(new SfToken("a b"))).toThrow(
+      'Invalid token "a b"'
+    );
+    expect(() => serializeSfDictionary({ Upper: 1 })).toThrow(
+      'Invalid key "Upper"'
+    );
+    expect(() => serializeSfItem(1e16)).toThrow("out of range");
+    expect(() => serializeSfItem(Infinity)).toThrow("not a valid Decimal");
+    expect(() => serializeSfItem(new Date(NaN))).toThrow("Invalid Date");
+  });
+});
+
+describe("parse", () => {
+  test("parses items with parameters", () => {
+    expect(parseSfItem("miss;ttl=30")).toEqual({
+      value: new SfToken("miss"),
+      params: { ttl: 30 },
+    });
+    expect(parseSfItem('%"f%c3%bc%c3%bc"')?.value).toEqual(
+      new SfDisplayString("füü")
+    );
+    expect(parseSfItem("@1659578233")?.value).toEqual(
+      new Date(1659578233000)
+    );
+    expect(parseSfItem(":aGk=:")?.value).toEqual(new Uint8Array([104, 105]));
+  });
+
+  test("parses lists and dictionaries", () => {
+    expect(parseSfList('"a", ("b" "c");x')).toEqual([
+      { value: "a", params: {} },
+      {
+        value: [
+          { value: "b", params: {} },
+          { value: "c", params: {} },
+        ],
+        params: { x: true },
+      },
+    ]);
+    expect(parseSfDictionary("u=1, i")).toEqual({
+      u: { value: 1, params: {} },
+      i: { value: true, params: {} },
+    });
+    expect(parseStructuredField("u=2", "dictionary")).toEqual({
+      u: { value: 2, params: {} },
+    });
+  });
+
+  test("returns undefined for invalid fields", () => {
+    expect(parseSfItem("")).toBeUndefined();
+    expect(parseSfItem("1 2")).toBeUndefined();
+    expect(parseSfList("a,")).toBeUndefined();
+    expect(parseSfDictionary("U=1")).toBeUndefined();
+    expect(parseSfItem('"unterminated')).toBeUndefined();
+  });
+
+  test("round-trips serialized values", () => {
+    const fields = [
+      'sugar, ("a" "b");lvl=5, 1.5;q, :AQID:, ?0, @1659578233',
+      '%"caf%c3%a9";lang=fr',
+    ];
+    for (const field of fields) {
+      const parsed = parseSfList(field)!;
+      expect(serializeSfList(parsed)).toBe(field);
+    }
+
+    const dictionary = "u=3, i, a=(1 2);x=?0";
+    expect(serializeSfDictionary(parseSfDictionary(dictionary)!)).toBe(
+      dictionary
+    );
+  });
+});
+
+describe("structured()", () => {
+  test("sets serialized headers on the builder", () => {
+    const result = buildHeaders()
+      .structured("Priority", { u: 1, i: true })
+      .structured("Accept-CH", [
+        new SfToken("Sec-CH-UA-Platform"),
+        new SfToken("DPR"),
+      ])
+      .structured("Cache-Status", [
+        { value: new SfToken("edge"), params: { hit: true } },
+      ])
+      .build();
+
+    expect(result).toEqual({
+      Priority: "u=1, i",
+      "Accept-CH": "Sec-CH-UA-Platform, DPR",
+      "Cache-Status": "edge;hit",
+    });
+  });
+});
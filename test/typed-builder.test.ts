@@ -0,0 +1,126 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import { buildHeaders, HeadersBuilder, typedHeaders } from "../src/index";
+
+describe("typedHeaders", () => {
+  test("tracks headers and literal values", () => {
+    const headers = typedHeaders()
+      .contentType("json")
+      .custom("X-API-Version", "v2")
+      .lastModified(new Date(0))
+      .build();
+
+    expectTypeOf(headers).toEqualTypeOf<{
+      "Content-Type": "application/json";
+      "X-API-Version": "v2";
+      "Last-Modified": string;
+      "Content-Length"?: string;
+    }>();
+    expect(headers).toEqual({
+      "Content-Type": "application/json",
+      "X-API-Version": "v2",
+      "Last-Modified": new Date(0).toUTCString(),
+    });
+  });
+
+  test("is a plain HeadersBuilder at runtime", () => {
+    expect(typedHeaders()).toBeInstanceOf(HeadersBuilder);
+  });
+
+  test("rejects setting Content-Type twice", () => {
+    const headers = typedHeaders().contentType("json");
+
+    // @ts-expect-error Content-Type is already set
+    headers.contentType("html");
+    // Still replaces the value at runtime
+    expect(headers.build()["Content-Type"]).toStartWith("text/html");
+  });
+
+  test("compares header names case-insensitively", () => {
+    const headers = typedHeaders()
+      .custom("x-tag", "a")
+      .custom("X-Tag", "b")
+      .remove("content-type")
+      .build();
+
+    expectTypeOf(headers).toEqualTypeOf<{
+      "x-tag": "b";
+      "Content-Length"?: string;
+    }>();
+    expect(headers).toEqual({ "x-tag": "b" });
+  });
+
+  test("tracks Expires set at build time as optional", () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    const cached = typedHeaders({ now: () => now })
+      .cache("ONE_HOUR")
+      .expires("max-age")
+      .build();
+    const fixed = typedHeaders().cache("NO_CACHE").expires(now).build();
+    const none = typedHeaders().expires(now).expires(false).build();
+
+    expectTypeOf(cached).toEqualTypeOf<{
+      "Cache-Control": string;
+      Expires?: string;
+      "Content-Length"?: string;
+    }>();
+    expectTypeOf(fixed.Expires).toEqualTypeOf<string>();
+    expectTypeOf(none).toEqualTypeOf<{ "Content-Length"?: string }>();
+    expect(cached.Expires).toBe(
+      new Date(now.getTime() + 3600000).toUTCString()
+    );
+    expect(typedHeaders().cache("NO_CACHE").build().Expires).toBeDefined();
+  });
+
+  test("tracks headers that may be set as optional", () => {
+    const headers = typedHeaders()
+      .security({ hsts: false })
+      .eTag(undefined as string | undefined)
+      .build();
+
+    expectTypeOf(headers["X-Frame-Options"]).toEqualTypeOf<string>();
+    expectTypeOf(headers.ETag).toEqualTypeOf<string | undefined>();
+    // @ts-expect-error HSTS is turned off
+    expect(headers["Strict-Transport-Security"]).toBeUndefined();
+  });
+});
+
+describe("requires", () => {
+  test("fails to type-check and throws without a required header", () => {
+    const route = typedHeaders().requires("Content-Type", "Cache-Control");
+
+    expect(() =>
+      // @ts-expect-error Missing required header: Cache-Control
+      route.clone().contentType("json").build()
+    ).toThrow('Headers: "Cache-Control" is required but was not set.');
+    expect(
+      route.clone().contentType("json").cache("API_RESPONSE").build()
+    ).toHaveProperty("Content-Type", "application/json");
+  });
+
+  test("is checked at runtime on plain builders", () => {
+    expect(() => buildHeaders().requires("ETag").buildHeaders()).toThrow(
+      '"ETag" is required'
+    );
+    expect(() =>
+      buildHeaders().requires("content-type").contentType("json").build()
+    ).not.toThrow();
+  });
+
+  test("survives clone, merge and policies", () => {
+    const base = buildHeaders().requires("Content-Type");
+
+    expect(() => base.clone().build()).toThrow("is required");
+    expect(() => buildHeaders().merge(base).build()).toThrow("is required");
+    expect(base.toPolicy("base").required).toEqual(["Content-Type"]);
+    expect(() =>
+      HeadersBuilder.fromPolicy(base.toPolicy("base")).build()
+    ).toThrow("is required");
+    expect(() =>
+      HeadersBuilder.fromPolicy({
+        name: "bad",
+        headers: {},
+        required: "Content-Type" as never,
+      })
+    ).toThrow('Policy "bad": Invalid required headers.');
+  });
+});